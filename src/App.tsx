@@ -1,13 +1,39 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { WeatherCard } from "./components/WeatherCard";
 import { ForecastCard } from "./components/ForecastCard";
+import { AirQualityCard } from "./components/AirQualityCard";
 import { SearchBar } from "./components/SearchBar";
 import { Favorites } from "./components/Favorites";
+import { Comparison } from "./components/Comparison";
 import { OfflineWarning } from "./components/OfflineWarning";
-import { StorageService } from "./lib/storage";
-import { Cloud, AlertCircle, RefreshCw, CheckCircle } from "lucide-react";
+import { StorageNotice } from "./components/StorageNotice";
+import { UnitSelector } from "./components/UnitSelector";
+import { LocaleSelector } from "./components/LocaleSelector";
+import { ViewerTimeToggle } from "./components/ViewerTimeToggle";
+import { StoragePanel } from "./components/StoragePanel";
+import { SettingsTransferDialog } from "./components/SettingsTransferDialog";
+import {
+  StorageService,
+  type CleanupSchedule,
+  type FavoriteDetails,
+  type FavoriteGroup,
+  type FavoriteLocation,
+  type FavoritePlace,
+} from "./lib/storage";
+import { orderFavorites } from "./lib/favoriteSections";
+import { clearOpenedShareLink, getOpenedShareLink } from "./lib/settingsTransfer";
+import { MAX_COMPARED_LOCATIONS, toComparedLocation, type ComparedLocation } from "./lib/weatherComparison";
+import { getCoordinatesId, type Coordinates } from "./lib/geo";
+import type { UnitPreferences } from "./lib/units";
+import { getTranslator, type Locale } from "./lib/i18n";
+import { getWeatherProvider } from "./lib/weatherProvider";
+import { getWeatherErrorMessage } from "./lib/weatherErrors";
+import { onFavoritesRefresh } from "./lib/serviceWorker";
+import { useIsLeaderTab } from "./lib/tabSync";
+import { Cloud, AlertCircle, RefreshCw, CheckCircle, HardDrive, ArrowLeftRight } from "lucide-react";
 import { 
+  useAirQuality,
   useCurrentPosition,
   usePrefetchWeather,
   useRefreshWeather
@@ -17,47 +43,164 @@ import {
   useOfflineWeatherDataByCoords
 } from "./lib/offlineWeatherHooks";
 
+// How often a long-lived tab checks whether the scheduled cache cleanup is due
+const CLEANUP_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
 function App() {
   const [selectedCity, setSelectedCity] = useState<string | null>(null);
+  // Set when the selected city is a known place, like a favorite, so it is
+  // fetched by coordinates instead of being looked up by name again
+  const [selectedCoords, setSelectedCoords] = useState<Coordinates | null>(null);
   const [useLocation, setUseLocation] = useState<boolean>(false);
-  const [favorites, setFavorites] = useState<string[]>([]);
+  const [favorites, setFavorites] = useState<FavoriteLocation[]>([]);
+  const [favoriteGroups, setFavoriteGroups] = useState<FavoriteGroup[]>([]);
+  const [comparedLocations, setComparedLocations] = useState<ComparedLocation[]>([]);
+  const [units, setUnits] = useState<UnitPreferences>(() => StorageService.getUnitPreferences());
+  const [locale, setLocale] = useState<Locale>(() => StorageService.getLocale());
+  const [showViewerTime, setShowViewerTime] = useState(() => StorageService.getShowViewerTime());
+  const [cleanupSchedule, setCleanupSchedule] = useState<CleanupSchedule>(
+    () => StorageService.getCacheCleanupSettings().schedule
+  );
   const [hasTriedLocation, setHasTriedLocation] = useState<boolean>(false);
   const [isRefreshing, setIsRefreshing] = useState<boolean>(false);
   const [refreshSuccess, setRefreshSuccess] = useState<boolean>(false);
   const [activeTab, setActiveTab] = useState<string>("current");
+  const [isStoragePanelOpen, setIsStoragePanelOpen] = useState<boolean>(false);
+  // Opening the app from a share link offers its settings for import
+  const [sharedLink, setSharedLink] = useState<string | null>(() => getOpenedShareLink());
+  const [isTransferDialogOpen, setIsTransferDialogOpen] = useState<boolean>(() => sharedLink !== null);
+  // Stored data was migrated before the first render; report anything set aside
+  const [quarantinedCount, setQuarantinedCount] = useState<number>(
+    () => StorageService.getQuarantine().filter(item => !item.notified).length
+  );
 
   // React Query hooks
   const { data: position, isLoading: locationLoading, error: locationError } = useCurrentPosition();
   
   // Use offline-capable hooks
-  const weatherByCity = useOfflineWeatherData(selectedCity);
+  const weatherByCity = useOfflineWeatherData(selectedCoords ? null : selectedCity, units.system, locale);
   const weatherByCoords = useOfflineWeatherDataByCoords(
-    useLocation && position ? { lat: position.latitude, lon: position.longitude } : null
+    useLocation && position ? { lat: position.latitude, lon: position.longitude } : selectedCoords,
+    units.system,
+    locale
   );
   
-  const prefetchWeather = usePrefetchWeather();
+  // `mutate` keeps its identity across renders, unlike the mutation object,
+  // so effects that depend on it don't resubscribe on every render
+  const { mutate: prefetchWeather } = usePrefetchWeather();
+  // With the app open in several tabs, only one refreshes in the background
+  // and the others receive its results
+  const isLeaderTab = useIsLeaderTab();
   const refreshWeather = useRefreshWeather();
+  const weatherProvider = getWeatherProvider();
+  const t = getTranslator(locale);
 
   // Determine which weather data to use
-  const currentWeatherData = useLocation ? weatherByCoords : weatherByCity;
-  const { currentWeather, forecast, isLoading, error, isOffline, isCachedData, cacheAge } = currentWeatherData;
+  const currentWeatherData = useLocation || selectedCoords ? weatherByCoords : weatherByCity;
+  const {
+    currentWeather,
+    forecast,
+    isLoading,
+    error,
+    connectivity,
+    isCachedData,
+    isRefreshing: isRevalidating,
+    cacheAge,
+    cachedDistanceKm,
+  } = currentWeatherData;
+  const airQuality = useAirQuality(
+    currentWeather ? { lat: currentWeather.location.lat, lon: currentWeather.location.lon } : null
+  );
+
+  // Groups can appear or disappear with any change to favorites
+  const updateFavorites = (updated: FavoriteLocation[]) => {
+    setFavorites(updated);
+    setFavoriteGroups(StorageService.getFavoriteGroups());
+  };
+
+  // The order favorites are listed in is also the order they are refreshed in
+  const orderedFavorites = useMemo(() => orderFavorites(favorites, favoriteGroups), [favorites, favoriteGroups]);
 
   useEffect(() => {
-    setFavorites(StorageService.getFavorites());
+    updateFavorites(StorageService.getFavorites());
     // Try to get user's current location first, fallback to London
     handleUseCurrentLocation();
   }, []);
 
+  // Pick up settings changed in other tabs
+  useEffect(() => {
+    return StorageService.onExternalChange(setting => {
+      switch (setting) {
+        case 'favorites':
+          updateFavorites(StorageService.getFavorites());
+          break;
+        case 'units':
+          setUnits(StorageService.getUnitPreferences());
+          break;
+        case 'locale':
+          setLocale(StorageService.getLocale());
+          break;
+        case 'viewerTime':
+          setShowViewerTime(StorageService.getShowViewerTime());
+          break;
+        case 'cacheCleanup':
+          setCleanupSchedule(StorageService.getCacheCleanupSettings().schedule);
+          break;
+      }
+    });
+  }, []);
+
+  // Clean up unfavorited cities from the cache when the user's schedule says
+  // so, checking again now and then since an installed app may stay open for days
+  useEffect(() => {
+    if (!isLeaderTab || cleanupSchedule === 'off') return;
+    const runCleanup = () => {
+      StorageService.runScheduledCleanup().catch(error => {
+        console.error('Error running scheduled cache cleanup:', error);
+      });
+    };
+    runCleanup();
+    const timer = setInterval(runCleanup, CLEANUP_CHECK_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [isLeaderTab, cleanupSchedule]);
+
   // Prefetch weather data for favorites
   useEffect(() => {
-    favorites.forEach(city => {
-      prefetchWeather.mutate(city);
+    if (!isLeaderTab) return;
+    orderedFavorites.forEach(favorite => {
+      prefetchWeather({ coords: favorite, units: units.system, lang: locale });
     });
-  }, [favorites, prefetchWeather]);
+  }, [isLeaderTab, orderedFavorites, units.system, locale, prefetchWeather]);
+
+  // Geocode favorites saved by name in earlier versions once there is a
+  // connection to do it
+  useEffect(() => {
+    if (isLeaderTab && connectivity !== 'offline' && StorageService.hasUnresolvedFavorites()) {
+      StorageService.resolveLegacyFavorites(locale).then(updateFavorites);
+    }
+  }, [isLeaderTab, connectivity, locale]);
 
-  const handleSearch = async (city: string) => {
+  // Refresh favorites when the connection comes back after being offline
+  useEffect(() => {
+    if (!isLeaderTab) return;
+    return onFavoritesRefresh(() => {
+      orderedFavorites.forEach(favorite => {
+        prefetchWeather({ coords: favorite, units: units.system, lang: locale });
+      });
+    });
+  }, [isLeaderTab, orderedFavorites, units.system, locale, prefetchWeather]);
+
+  // Remember searched cities once they load so they can be found offline
+  useEffect(() => {
+    if (selectedCity && !useLocation && currentWeather) {
+      StorageService.addRecentLocation(selectedCity);
+    }
+  }, [selectedCity, useLocation, currentWeather]);
+
+  const handleSearch = async (city: string, coords?: Coordinates) => {
     setUseLocation(false);
     setSelectedCity(city);
+    setSelectedCoords(coords ?? null);
   };
 
   const handleUseCurrentLocation = async () => {
@@ -71,12 +214,14 @@ function App() {
           console.log('✅ Direct geolocation success:', position.coords);
           setUseLocation(true);
           setSelectedCity(null);
+          setSelectedCoords(null);
           setHasTriedLocation(true);
         },
         (error) => {
           console.error('❌ Direct geolocation error:', error);
           setUseLocation(true);
           setSelectedCity(null);
+          setSelectedCoords(null);
           setHasTriedLocation(true);
         },
         {
@@ -89,6 +234,7 @@ function App() {
       console.error('❌ Geolocation not supported');
       setUseLocation(true);
       setSelectedCity(null);
+      setSelectedCoords(null);
       setHasTriedLocation(true);
     }
     
@@ -103,23 +249,85 @@ function App() {
     }
   }, [locationError, hasTriedLocation]);
 
-  const handleToggleFavorite = (city: string) => {
-    const isFavorite = StorageService.isFavorite(city);
+  const handleToggleFavorite = (place: FavoritePlace) => {
+    const id = getCoordinatesId(place);
+    const isFavorite = StorageService.isFavorite(id);
     
     if (isFavorite) {
-      const newFavorites = StorageService.removeFavorite(city);
-      setFavorites(newFavorites);
+      const newFavorites = StorageService.removeFavorite(id);
+      updateFavorites(newFavorites);
     } else {
-      const newFavorites = StorageService.addFavorite(city);
-      setFavorites(newFavorites);
+      const newFavorites = StorageService.addFavorite(place);
+      updateFavorites(newFavorites);
       // Prefetch weather data for newly added favorite
-      prefetchWeather.mutate(city);
+      prefetchWeather({ coords: place, units: units.system, lang: locale });
     }
   };
 
-  const handleRemoveFavorite = (city: string) => {
-    const newFavorites = StorageService.removeFavorite(city);
-    setFavorites(newFavorites);
+  const handleUnitsChange = (newUnits: UnitPreferences) => {
+    setUnits(StorageService.setUnitPreferences(newUnits));
+  };
+
+  const handleLocaleChange = (newLocale: Locale) => {
+    setLocale(StorageService.setLocale(newLocale));
+  };
+
+  const handleShowViewerTimeChange = (show: boolean) => {
+    setShowViewerTime(StorageService.setShowViewerTime(show));
+  };
+
+  const handleDismissStorageNotice = () => {
+    StorageService.markQuarantineNotified();
+    setQuarantinedCount(0);
+  };
+
+  const handleRemoveFavorite = (id: string) => {
+    const newFavorites = StorageService.removeFavorite(id);
+    updateFavorites(newFavorites);
+  };
+
+  const handleReorderFavorites = (ids: string[]) => {
+    updateFavorites(StorageService.reorderFavorites(ids));
+  };
+
+  const handleUpdateFavorite = (id: string, details: FavoriteDetails, groupName: string) => {
+    StorageService.updateFavorite(id, details);
+    updateFavorites(StorageService.setFavoriteGroup(id, groupName || null));
+  };
+
+  const handleRemoveFavoriteGroup = (groupId: string) => {
+    updateFavorites(StorageService.removeFavoriteGroup(groupId));
+  };
+
+  const handleAddComparedLocation = (name: string, coords?: Coordinates) => {
+    const location = toComparedLocation(name, coords);
+    setComparedLocations(current =>
+      current.length >= MAX_COMPARED_LOCATIONS || current.some(compared => compared.id === location.id)
+        ? current
+        : [...current, location]
+    );
+  };
+
+  const handleRemoveComparedLocation = (id: string) => {
+    setComparedLocations(current => current.filter(location => location.id !== id));
+  };
+
+  const handleSettingsImported = () => {
+    updateFavorites(StorageService.getFavorites());
+    setUnits(StorageService.getUnitPreferences());
+    setLocale(StorageService.getLocale());
+    setShowViewerTime(StorageService.getShowViewerTime());
+    setCleanupSchedule(StorageService.getCacheCleanupSettings().schedule);
+    // Imports can hold favorites saved by name alone
+    if (connectivity !== 'offline' && StorageService.hasUnresolvedFavorites()) {
+      StorageService.resolveLegacyFavorites(StorageService.getLocale()).then(updateFavorites);
+    }
+  };
+
+  const handleCloseTransferDialog = () => {
+    setIsTransferDialogOpen(false);
+    setSharedLink(null);
+    clearOpenedShareLink();
   };
 
   const handleRefresh = () => {
@@ -144,19 +352,16 @@ function App() {
   // Create error message from query errors
   const errorMessage = (() => {
     if (locationError && useLocation) {
-      return `Could not get your location: ${locationError.message}`;
-    }
-    if (error && selectedCity) {
-      return `Could not find weather data for "${selectedCity}". Please check the city name and try again.`;
+      return t('app.locationError', { message: locationError.message });
     }
     if (error) {
-      return error.message;
+      return getWeatherErrorMessage(error, useLocation ? null : selectedCity, locale);
     }
     return null;
   })();
 
   return (
-    <div className="min-h-screen bg-white p-4">
+    <div className="min-h-screen bg-white p-4" lang={locale}>
       <div className="container mx-auto max-w-6xl">
         {/* Header */}
         <div className="text-center mb-8">
@@ -165,15 +370,43 @@ function App() {
             <h1 className="text-4xl font-bold text-gray-900">Weathery</h1>
           </div>
           <p className="text-gray-600">
-            Your most favorite weather app!
+            {t('app.tagline')}
           </p>
+          <div className="mt-4 flex flex-wrap items-center justify-center gap-3">
+            <UnitSelector units={units} locale={locale} onChange={handleUnitsChange} />
+            <LocaleSelector locale={locale} onChange={handleLocaleChange} />
+            <ViewerTimeToggle checked={showViewerTime} locale={locale} onChange={handleShowViewerTimeChange} />
+            <button
+              type="button"
+              onClick={() => setIsStoragePanelOpen(true)}
+              className="inline-flex items-center space-x-2 text-xs text-muted-foreground hover:text-foreground"
+            >
+              <HardDrive className="h-4 w-4" />
+              <span>{t('storage.open')}</span>
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsTransferDialogOpen(true)}
+              className="inline-flex items-center space-x-2 text-xs text-muted-foreground hover:text-foreground"
+            >
+              <ArrowLeftRight className="h-4 w-4" />
+              <span>{t('transfer.open')}</span>
+            </button>
+          </div>
         </div>
 
         {/* Search */}
         <div className="mb-8">
-          <SearchBar onSearch={handleSearch} loading={isLoading} />
+          <SearchBar onSearch={handleSearch} units={units} locale={locale} loading={isLoading} />
         </div>
 
+        <StorageNotice
+          quarantinedCount={quarantinedCount}
+          locale={locale}
+          onDismiss={handleDismissStorageNotice}
+          className="mb-6 max-w-md mx-auto"
+        />
+
         {/* Error Message */}
         {errorMessage && (
           <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-center space-x-2 max-w-md mx-auto">
@@ -186,24 +419,28 @@ function App() {
         {locationLoading && useLocation && (
           <div className="mb-6 p-4 bg-blue-50 border border-blue-200 rounded-lg flex items-center space-x-2 max-w-md mx-auto">
             <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-blue-600"></div>
-            <p className="text-blue-800">Getting your location...</p>
+            <p className="text-blue-800">{t('app.gettingLocation')}</p>
           </div>
         )}
 
         {/* Offline Warning */}
         <OfflineWarning 
-          isOffline={isOffline}
+          connectivity={connectivity}
           isCachedData={isCachedData}
           cacheAge={cacheAge}
+          cachedDistanceKm={cachedDistanceKm}
+          unitSystem={units.system}
+          locale={locale}
           className="mb-6 max-w-md mx-auto"
         />
 
         {/* Main Content */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-3 max-w-md mx-auto">
-            <TabsTrigger value="current">Current</TabsTrigger>
-            <TabsTrigger value="forecast">Forecast</TabsTrigger>
-            <TabsTrigger value="favorites">Favorites</TabsTrigger>
+          <TabsList className="grid w-full grid-cols-4 max-w-md mx-auto">
+            <TabsTrigger value="current">{t('tabs.current')}</TabsTrigger>
+            <TabsTrigger value="forecast">{t('tabs.forecast')}</TabsTrigger>
+            <TabsTrigger value="favorites">{t('tabs.favorites')}</TabsTrigger>
+            <TabsTrigger value="compare">{t('tabs.compare')}</TabsTrigger>
           </TabsList>
 
           <TabsContent value="current" className="space-y-6">
@@ -212,12 +449,26 @@ function App() {
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
               </div>
             ) : (
-              <WeatherCard
-                weather={currentWeather || null}
-                onToggleFavorite={handleToggleFavorite}
-                onUseCurrentLocation={handleUseCurrentLocation}
-                locationLoading={locationLoading}
-              />
+              <>
+                <WeatherCard
+                  weather={currentWeather || null}
+                  units={units}
+                  locale={locale}
+                  showViewerTime={showViewerTime}
+                  isRefreshing={isRevalidating}
+                  onToggleFavorite={handleToggleFavorite}
+                  onUseCurrentLocation={handleUseCurrentLocation}
+                  locationLoading={locationLoading}
+                />
+                {currentWeather && (
+                  <AirQualityCard
+                    airQuality={airQuality.data}
+                    loading={airQuality.isLoading}
+                    locale={locale}
+                    timezoneOffset={currentWeather.location.timezoneOffset}
+                  />
+                )}
+              </>
             )}
           </TabsContent>
 
@@ -227,17 +478,43 @@ function App() {
                 <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-600"></div>
               </div>
             ) : (
-              forecast && <ForecastCard forecast={forecast} />
+              forecast && (
+                <ForecastCard
+                  forecast={forecast}
+                  units={units}
+                  locale={locale}
+                  showViewerTime={showViewerTime}
+                  isRefreshing={isRevalidating}
+                />
+              )
             )}
           </TabsContent>
 
           <TabsContent value="favorites" className="space-y-6">
             <Favorites
               favorites={favorites}
+              groups={favoriteGroups}
+              units={units}
+              locale={locale}
+              showViewerTime={showViewerTime}
               onRemoveFavorite={handleRemoveFavorite}
+              onReorderFavorites={handleReorderFavorites}
+              onUpdateFavorite={handleUpdateFavorite}
+              onRemoveGroup={handleRemoveFavoriteGroup}
               onToggleFavorite={handleToggleFavorite}
             />
           </TabsContent>
+
+          <TabsContent value="compare" className="space-y-6">
+            <Comparison
+              locations={comparedLocations}
+              favorites={orderedFavorites}
+              units={units}
+              locale={locale}
+              onAddLocation={handleAddComparedLocation}
+              onRemoveLocation={handleRemoveComparedLocation}
+            />
+          </TabsContent>
         </Tabs>
 
         {/* Refresh Button */}
@@ -256,37 +533,53 @@ function App() {
             {isRefreshing ? (
               <>
                 <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-gray-600"></div>
-                <span>Refreshing...</span>
+                <span>{t('app.refreshing')}</span>
               </>
             ) : refreshSuccess ? (
               <>
                 <CheckCircle className="h-4 w-4" />
-                <span>Data Refreshed!</span>
+                <span>{t('app.refreshed')}</span>
               </>
             ) : (
               <>
                 <RefreshCw className="h-4 w-4" />
-                <span>Refresh Data</span>
+                <span>{t('app.refresh')}</span>
               </>
             )}
           </button>
         </div>
 
+        <StoragePanel
+          isOpen={isStoragePanelOpen}
+          onClose={() => setIsStoragePanelOpen(false)}
+          favorites={favorites}
+          locale={locale}
+          onCleanupScheduleChange={setCleanupSchedule}
+        />
+
+        <SettingsTransferDialog
+          isOpen={isTransferDialogOpen}
+          onClose={handleCloseTransferDialog}
+          locale={locale}
+          sharedLink={sharedLink}
+          onImported={handleSettingsImported}
+        />
+
         {/* Footer */}
         <div className="text-center mt-12 text-sm text-gray-500">
           <p>
-            Weather data provided by{" "}
+            {t('app.attribution')}{" "}
             <a
-              href="https://openweathermap.org"
+              href={weatherProvider.attributionUrl}
               target="_blank"
               rel="noopener noreferrer"
               className="text-blue-600 hover:underline"
             >
-              OpenWeatherMap
+              {weatherProvider.name}
             </a>
           </p>
           <p className="mt-2 text-xs">
-            ⚡ Enhanced with React Query
+            {t('app.poweredBy')}
           </p>
         </div>
       </div>
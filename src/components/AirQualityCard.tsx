@@ -0,0 +1,94 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Leaf, Loader2 } from "lucide-react";
+import { getDailyAirQuality } from "@/lib/airQuality";
+import { formatDayName, getTranslator, type Locale } from "@/lib/i18n";
+import type { AirPollutants, AirQualityData, AirQualityLevel } from "@/lib/weatherService";
+
+interface AirQualityCardProps {
+  airQuality: AirQualityData | null | undefined;
+  locale: Locale;
+  // Location's UTC offset in seconds, used to split the forecast into days
+  timezoneOffset: number;
+  loading?: boolean;
+  className?: string;
+}
+
+const LEVEL_STYLES: Record<AirQualityLevel, string> = {
+  1: "bg-green-100 text-green-800 border-green-200",
+  2: "bg-lime-100 text-lime-800 border-lime-200",
+  3: "bg-yellow-100 text-yellow-800 border-yellow-200",
+  4: "bg-orange-100 text-orange-800 border-orange-200",
+  5: "bg-red-100 text-red-800 border-red-200",
+};
+
+const POLLUTANTS: { key: keyof AirPollutants; label: string }[] = [
+  { key: "pm2_5", label: "PM2.5" },
+  { key: "pm10", label: "PM10" },
+  { key: "o3", label: "O₃" },
+  { key: "no2", label: "NO₂" },
+];
+
+export function AirQualityCard({
+  airQuality,
+  locale,
+  timezoneOffset,
+  loading = false,
+  className = "",
+}: AirQualityCardProps) {
+  const t = getTranslator(locale);
+  const formatConcentration = (value: number): string =>
+    `${new Intl.NumberFormat(locale, { maximumFractionDigits: 1 }).format(value)} μg/m³`;
+
+  return (
+    <Card className={`w-full max-w-md mx-auto ${className}`}>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+        <CardTitle className="flex items-center space-x-2 text-lg">
+          <Leaf className="h-5 w-5 text-green-600" />
+          <span>{t('airQuality.title')}</span>
+        </CardTitle>
+        {airQuality && (
+          <Badge variant="outline" className={LEVEL_STYLES[airQuality.current.aqi]}>
+            {t('airQuality.index', { aqi: airQuality.current.aqi })} · {t(`airQuality.level.${airQuality.current.aqi}`)}
+          </Badge>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : !airQuality ? (
+          <p className="text-sm text-muted-foreground text-center">{t('airQuality.unavailable')}</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-4 gap-2 text-center">
+              {POLLUTANTS.map(({ key, label }) => (
+                <div key={key} className="rounded-lg border p-2">
+                  <p className="text-xs text-muted-foreground">{label}</p>
+                  <p className="text-sm font-medium">{formatConcentration(airQuality.current.components[key])}</p>
+                </div>
+              ))}
+            </div>
+
+            {airQuality.forecast.length > 0 && (
+              <div>
+                <p className="text-xs font-medium text-muted-foreground mb-2">{t('airQuality.forecast')}</p>
+                <div className="flex justify-between gap-2">
+                  {getDailyAirQuality(airQuality.forecast, timezoneOffset).map((day) => (
+                    <div key={day.time} className="flex flex-1 flex-col items-center space-y-1">
+                      <span className="text-xs">{formatDayName(day.time, locale, timezoneOffset)}</span>
+                      <Badge variant="outline" className={`text-xs ${LEVEL_STYLES[day.aqi]}`}>
+                        {t(`airQuality.level.${day.aqi}`)}
+                      </Badge>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
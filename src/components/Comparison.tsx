@@ -0,0 +1,311 @@
+import { Fragment, type ReactNode } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, Clock, CloudRain, Columns3, Loader2, Plus, Thermometer, Wind, WifiOff, X } from "lucide-react";
+import { SearchBar } from "./SearchBar";
+import { useComparedWeather, type OfflineWeatherResult } from "@/lib/offlineWeatherHooks";
+import {
+  getComparisonDays,
+  getHighestIndexes,
+  MAX_COMPARED_LOCATIONS,
+  MIN_COMPARED_LOCATIONS,
+  type ComparedLocation,
+} from "@/lib/weatherComparison";
+import { getWeatherErrorMessage } from "@/lib/weatherErrors";
+import { getConditionIconUrl, type WeatherCondition } from "@/lib/weatherService";
+import type { FavoriteLocation } from "@/lib/storage";
+import type { Coordinates } from "@/lib/geo";
+import { formatPrecipitation, formatTemperature, formatWindSpeed, type UnitPreferences } from "@/lib/units";
+import {
+  formatDayName,
+  formatMinutesAgo,
+  formatPercent,
+  getTranslator,
+  translateCondition,
+  type Locale,
+} from "@/lib/i18n";
+
+interface ComparisonProps {
+  locations: ComparedLocation[];
+  favorites: FavoriteLocation[];
+  units: UnitPreferences;
+  locale: Locale;
+  onAddLocation: (name: string, coords?: Coordinates) => void;
+  onRemoveLocation: (id: string) => void;
+}
+
+type Highlight = 'warmest' | 'wettest' | 'windiest';
+
+const HIGHLIGHT_STYLES: Record<Highlight, string> = {
+  warmest: "bg-orange-50 text-orange-700 font-semibold",
+  wettest: "bg-blue-50 text-blue-700 font-semibold",
+  windiest: "bg-teal-50 text-teal-700 font-semibold",
+};
+
+const HIGHLIGHT_ICONS = {
+  warmest: Thermometer,
+  wettest: CloudRain,
+  windiest: Wind,
+} as const satisfies Record<Highlight, unknown>;
+
+/**
+ * Current conditions and the coming days for 2-4 locations side by side,
+ * marking the warmest, wettest and windiest of each row
+ */
+export function Comparison({ locations, favorites, units, locale, onAddLocation, onRemoveLocation }: ComparisonProps) {
+  const results = useComparedWeather(locations, units.system, locale);
+  const t = getTranslator(locale);
+
+  const formatTemp = (temp: number): string => formatTemperature(temp, units.system);
+  const comparedIds = new Set(locations.map(location => location.id));
+  const addableFavorites = favorites.filter(favorite => !comparedIds.has(favorite.id));
+  const isFull = locations.length >= MAX_COMPARED_LOCATIONS;
+
+  const currents = results.map(result => result.currentWeather);
+  const days = getComparisonDays(results.map(result => result.forecast));
+
+  const renderCell = (key: string | number, content: ReactNode, highlight: Highlight | null) => {
+    const Icon = highlight && HIGHLIGHT_ICONS[highlight];
+    return (
+      <td
+        key={key}
+        className={`px-3 py-2 align-top ${highlight ? HIGHLIGHT_STYLES[highlight] : ""}`}
+        title={highlight ? t(`compare.${highlight}`) : undefined}
+      >
+        <span className="inline-flex items-center gap-1">
+          {content}
+          {Icon && <Icon className="h-3 w-3 shrink-0" />}
+        </span>
+      </td>
+    );
+  };
+
+  const renderCondition = (condition: WeatherCondition) => (
+    <span className="inline-flex items-center gap-1">
+      <img
+        src={getConditionIconUrl(condition.icon)}
+        alt=""
+        className="w-8 h-8 -my-1"
+      />
+      {translateCondition(condition.main, locale)}
+    </span>
+  );
+
+  const renderStatus = (result: OfflineWeatherResult, location: ComparedLocation) => {
+    if (result.isLoading) {
+      return <Loader2 className="h-3 w-3 animate-spin text-muted-foreground" />;
+    }
+    if (!result.currentWeather && result.error) {
+      return (
+        <span className="flex items-start gap-1 text-xs font-normal text-red-600">
+          <AlertTriangle className="h-3 w-3 shrink-0 mt-0.5" />
+          {getWeatherErrorMessage(result.error, location.coords ? null : location.name, locale)}
+        </span>
+      );
+    }
+    if (result.isCachedData && result.cacheAge !== undefined) {
+      return (
+        <span
+          className={`inline-flex items-center gap-1 text-xs font-normal ${
+            result.isOffline ? "text-orange-700" : "text-yellow-700"
+          }`}
+        >
+          {result.isOffline ? <WifiOff className="h-3 w-3" /> : <Clock className="h-3 w-3" />}
+          {t('offline.lastUpdated', { age: formatMinutesAgo(result.cacheAge, locale) })}
+        </span>
+      );
+    }
+    return null;
+  };
+
+  const renderSectionRow = (title: string) => (
+    <tr className="border-t bg-muted/50">
+      <th colSpan={locations.length + 1} className="px-3 py-1 text-left text-xs font-medium text-muted-foreground">
+        {title}
+      </th>
+    </tr>
+  );
+
+  const renderRow = (
+    label: ReactNode,
+    values: (number | null | undefined)[],
+    format: (value: number, index: number) => ReactNode,
+    highlight: Highlight | null = null
+  ) => {
+    const highest = highlight ? getHighestIndexes(values) : new Set<number>();
+    return (
+      <tr className="border-t">
+        <th scope="row" className="px-3 py-2 text-left font-medium text-muted-foreground whitespace-nowrap">
+          {label}
+        </th>
+        {values.map((value, index) =>
+          renderCell(
+            index,
+            value === null || value === undefined ? "—" : format(value, index),
+            highest.has(index) ? highlight : null
+          )
+        )}
+      </tr>
+    );
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center space-x-2">
+          <Columns3 className="h-5 w-5" />
+          <span>{t('compare.title')}</span>
+          <Badge variant="secondary">{locations.length}/{MAX_COMPARED_LOCATIONS}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isFull ? (
+          <p className="text-sm text-muted-foreground text-center">{t('compare.full')}</p>
+        ) : (
+          <div className="space-y-3">
+            <SearchBar onSearch={onAddLocation} units={units} locale={locale} />
+            {addableFavorites.length > 0 && (
+              <div className="flex flex-wrap items-center justify-center gap-2">
+                <span className="text-xs text-muted-foreground">{t('compare.fromFavorites')}</span>
+                {addableFavorites.map(favorite => (
+                  <Button
+                    key={favorite.id}
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onAddLocation(favorite.nickname ?? favorite.name, favorite)}
+                    title={t('compare.add', { city: favorite.name })}
+                  >
+                    <Plus className="h-3 w-3" />
+                    {favorite.nickname ?? favorite.name}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {locations.length < MIN_COMPARED_LOCATIONS && (
+          <p className="text-sm text-muted-foreground text-center">
+            {t(locations.length === 0 ? 'compare.hint' : 'compare.needMore')}
+          </p>
+        )}
+
+        {locations.length > 0 && (
+          <div className="overflow-x-auto rounded-lg border">
+            <table className="w-full text-sm">
+              <thead>
+                <tr>
+                  <th className="w-32" />
+                  {locations.map((location, index) => {
+                    const weatherLocation = currents[index]?.location;
+                    return (
+                      <th key={location.id} scope="col" className="px-3 py-2 text-left align-top min-w-36">
+                        <div className="flex items-start justify-between gap-1">
+                          <div className="min-w-0 space-y-1">
+                            <p className="font-semibold truncate">{location.name}</p>
+                            {weatherLocation && (
+                              <p className="text-xs font-normal text-muted-foreground truncate">
+                                {[weatherLocation.name, weatherLocation.country].join(', ')}
+                              </p>
+                            )}
+                            {renderStatus(results[index], location)}
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-6 w-6 shrink-0"
+                            onClick={() => onRemoveLocation(location.id)}
+                            title={t('compare.remove', { city: location.name })}
+                          >
+                            <X className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      </th>
+                    );
+                  })}
+                </tr>
+              </thead>
+              <tbody>
+                {renderSectionRow(t('compare.now'))}
+                <tr className="border-t">
+                  <th scope="row" className="px-3 py-2 text-left font-medium text-muted-foreground">
+                    {t('compare.condition')}
+                  </th>
+                  {currents.map((current, index) =>
+                    renderCell(index, current ? renderCondition(current.condition) : "—", null)
+                  )}
+                </tr>
+                {renderRow(t('compare.temperature'), currents.map(current => current?.temp), formatTemp, 'warmest')}
+                {renderRow(t('compare.feelsLike'), currents.map(current => current?.feelsLike), formatTemp)}
+                {renderRow(t('compare.humidity'), currents.map(current => current?.humidity), value =>
+                  formatPercent(value, locale)
+                )}
+                {renderRow(
+                  t('compare.wind'),
+                  currents.map(current => current?.windSpeed),
+                  value => formatWindSpeed(value, units, locale),
+                  'windiest'
+                )}
+
+                {days.length > 0 && renderSectionRow(t('compare.nextDays'))}
+                {days.map(day => {
+                  const dayName = formatDayName(day.time, locale, day.timezoneOffset);
+                  return (
+                    <Fragment key={day.date}>
+                      <tr className="border-t">
+                        <th scope="row" className="px-3 py-2 text-left font-semibold whitespace-nowrap">
+                          {dayName}
+                        </th>
+                        {day.summaries.map((summary, index) =>
+                          renderCell(index, summary ? renderCondition(summary.condition) : "—", null)
+                        )}
+                      </tr>
+                      {renderRow(
+                        t('compare.temperature'),
+                        day.summaries.map(summary => summary?.high),
+                        (high, index) =>
+                          t('favorites.highLow', { high: formatTemp(high), low: formatTemp(day.summaries[index]?.low ?? high) }),
+                        'warmest'
+                      )}
+                      {renderRow(
+                        t('compare.precipitation'),
+                        day.summaries.map(summary => summary && summary.rain + summary.snow),
+                        (amount, index) =>
+                          `${formatPrecipitation(amount, units.system, locale)} · ${formatPercent(
+                            (day.summaries[index]?.pop ?? 0) * 100,
+                            locale
+                          )}`,
+                        'wettest'
+                      )}
+                      {renderRow(
+                        t('compare.wind'),
+                        day.summaries.map(summary => summary?.windSpeed),
+                        value => formatWindSpeed(value, units, locale),
+                        'windiest'
+                      )}
+                    </Fragment>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {locations.length >= MIN_COMPARED_LOCATIONS && (
+          <div className="flex flex-wrap items-center justify-center gap-2 text-xs">
+            {(Object.keys(HIGHLIGHT_STYLES) as Highlight[]).map(highlight => {
+              const Icon = HIGHLIGHT_ICONS[highlight];
+              return (
+                <span key={highlight} className={`inline-flex items-center gap-1 rounded-md px-2 py-0.5 ${HIGHLIGHT_STYLES[highlight]}`}>
+                  <Icon className="h-3 w-3" />
+                  {t(`compare.${highlight}`)}
+                </span>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
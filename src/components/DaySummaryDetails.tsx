@@ -0,0 +1,80 @@
+import { CloudRain, Droplets, Moon, Snowflake, Sun, Umbrella, Wind } from "lucide-react";
+import type { DailySummary, PeriodSummary } from "@/lib/forecastAggregation";
+import { getConditionIconUrl } from "@/lib/weatherService";
+import {
+  formatPrecipitation,
+  formatTemperature,
+  formatWindSpeed,
+  type UnitPreferences,
+} from "@/lib/units";
+import { formatPercent, getTranslator, translateCondition, type Locale } from "@/lib/i18n";
+
+interface DaySummaryDetailsProps {
+  summary: DailySummary;
+  units: UnitPreferences;
+  locale: Locale;
+  className?: string;
+}
+
+/**
+ * Aggregated statistics for one forecast day, with its day and night halves
+ */
+export function DaySummaryDetails({ summary, units, locale, className = "" }: DaySummaryDetailsProps) {
+  const t = getTranslator(locale);
+  const formatTemp = (temp: number): string => formatTemperature(temp, units.system, false);
+
+  const renderPeriod = (label: string, icon: React.ReactNode, period: PeriodSummary | null) =>
+    period && (
+      <div className="flex items-center space-x-2 rounded-md bg-muted/50 px-2 py-1">
+        {icon}
+        <span className="font-medium">{label}</span>
+        <img
+          src={getConditionIconUrl(period.condition.icon)}
+          alt={period.condition.description}
+          title={translateCondition(period.condition.main, locale)}
+          className="w-6 h-6"
+        />
+        <span>
+          {formatTemp(period.high)} / {formatTemp(period.low)}
+        </span>
+      </div>
+    );
+
+  return (
+    <div className={`space-y-2 text-xs ${className}`}>
+      <div className="grid grid-cols-2 gap-2">
+        {renderPeriod(t('forecast.daytime'), <Sun className="h-3 w-3 text-amber-500" />, summary.day)}
+        {renderPeriod(t('forecast.night'), <Moon className="h-3 w-3 text-indigo-500" />, summary.night)}
+      </div>
+      <div className="flex flex-wrap gap-x-4 gap-y-1 text-muted-foreground">
+        <span className="flex items-center" title={t('forecast.precipitation')}>
+          <Umbrella className="h-3 w-3 mr-1" />
+          {formatPercent(summary.pop * 100, locale)}
+        </span>
+        {summary.rain > 0 && (
+          <span className="flex items-center" title={t('forecast.rain')}>
+            <CloudRain className="h-3 w-3 mr-1" />
+            {formatPrecipitation(summary.rain, units.system, locale)}
+          </span>
+        )}
+        {summary.snow > 0 && (
+          <span className="flex items-center" title={t('forecast.snow')}>
+            <Snowflake className="h-3 w-3 mr-1" />
+            {formatPrecipitation(summary.snow, units.system, locale)}
+          </span>
+        )}
+        <span className="flex items-center" title={t('forecast.maxWind')}>
+          <Wind className="h-3 w-3 mr-1" />
+          {formatWindSpeed(summary.windSpeed, units, locale)}
+          {summary.windGust !== undefined && (
+            <> ({t('forecast.gusts', { speed: formatWindSpeed(summary.windGust, units, locale) })})</>
+          )}
+        </span>
+        <span className="flex items-center" title={t('forecast.humidity')}>
+          <Droplets className="h-3 w-3 mr-1" />
+          {formatPercent(summary.humidity, locale)}
+        </span>
+      </div>
+    </div>
+  );
+}
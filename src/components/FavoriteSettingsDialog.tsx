@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Pencil, Pin } from "lucide-react";
+import type { FavoriteDetails, FavoriteGroup, FavoriteLocation } from "@/lib/storage";
+import { getTranslator, type Locale } from "@/lib/i18n";
+
+interface FavoriteSettingsDialogProps {
+  // The favorite being edited; the dialog is open while it is set
+  favorite: FavoriteLocation | null;
+  groups: FavoriteGroup[];
+  locale: Locale;
+  onClose: () => void;
+  // A blank group name takes the favorite out of its group
+  onSave: (id: string, details: FavoriteDetails, groupName: string) => void;
+}
+
+const GROUP_SUGGESTIONS_ID = "favorite-group-suggestions";
+
+/**
+ * Edit a favorite's nickname, pinning and group. Typing a group name that
+ * doesn't exist yet creates it.
+ */
+export function FavoriteSettingsDialog({ favorite, groups, locale, onClose, onSave }: FavoriteSettingsDialogProps) {
+  const [nickname, setNickname] = useState("");
+  const [pinnedToTop, setPinnedToTop] = useState(false);
+  const [groupName, setGroupName] = useState("");
+  const t = getTranslator(locale);
+
+  useEffect(() => {
+    if (favorite) {
+      setNickname(favorite.nickname ?? "");
+      setPinnedToTop(!!favorite.pinnedToTop);
+      setGroupName(groups.find(group => group.id === favorite.groupId)?.name ?? "");
+    }
+  }, [favorite, groups]);
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!favorite) return;
+    onSave(favorite.id, { nickname, pinnedToTop }, groupName);
+    onClose();
+  };
+
+  return (
+    <Dialog open={!!favorite} onOpenChange={onClose}>
+      <DialogContent className="max-w-sm mx-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Pencil className="h-5 w-5 text-blue-600" />
+            <span>{favorite?.name}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium">{t('favorites.nickname')}</span>
+            <Input
+              value={nickname}
+              onChange={(e) => setNickname(e.target.value)}
+              placeholder={t('favorites.nicknamePlaceholder')}
+              maxLength={40}
+            />
+          </label>
+
+          <label className="block space-y-1 text-sm">
+            <span className="font-medium">{t('favorites.group')}</span>
+            <Input
+              value={groupName}
+              onChange={(e) => setGroupName(e.target.value)}
+              placeholder={t('favorites.groupPlaceholder')}
+              list={GROUP_SUGGESTIONS_ID}
+              maxLength={40}
+            />
+            <datalist id={GROUP_SUGGESTIONS_ID}>
+              {groups.map(group => (
+                <option key={group.id} value={group.name} />
+              ))}
+            </datalist>
+          </label>
+
+          <label className="inline-flex items-center space-x-2 text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={pinnedToTop}
+              onChange={(e) => setPinnedToTop(e.target.checked)}
+              className="h-3.5 w-3.5 accent-blue-600"
+            />
+            <Pin className="h-4 w-4 text-muted-foreground" />
+            <span>{t('favorites.pinToTop')}</span>
+          </label>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={onClose}>
+              {t('favorites.cancel')}
+            </Button>
+            <Button type="submit">{t('favorites.save')}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,172 @@
+import { Button } from "@/components/ui/button";
+import { AlertTriangle, Clock, CloudRain, Loader2, Pencil, Pin, RefreshCw, Trash2, WifiOff } from "lucide-react";
+import { RefreshingIndicator } from "./RefreshingIndicator";
+import { useOfflineWeatherDataByCoords } from "@/lib/offlineWeatherHooks";
+import { getDailySummaries, getNextRain } from "@/lib/forecastAggregation";
+import { getWeatherErrorMessage } from "@/lib/weatherErrors";
+import { getConditionIconUrl } from "@/lib/weatherService";
+import type { FavoriteLocation } from "@/lib/storage";
+import { formatTemperature, type UnitPreferences } from "@/lib/units";
+import {
+  formatDayName,
+  formatMinutesAgo,
+  formatTime,
+  getTranslator,
+  translateCondition,
+  type Locale,
+} from "@/lib/i18n";
+
+interface FavoriteWeatherCardProps {
+  favorite: FavoriteLocation;
+  units: UnitPreferences;
+  locale: Locale;
+  onOpen: (favorite: FavoriteLocation) => void;
+  onEdit: (favorite: FavoriteLocation) => void;
+  onRemove: (id: string) => void;
+}
+
+/**
+ * Compact card for one favorite on the dashboard. Each card runs its own
+ * queries, so one city failing or loading doesn't hold up the others.
+ */
+export function FavoriteWeatherCard({ favorite, units, locale, onOpen, onEdit, onRemove }: FavoriteWeatherCardProps) {
+  const {
+    currentWeather,
+    forecast,
+    isLoading,
+    error,
+    isOffline,
+    isCachedData,
+    isRefreshing,
+    cacheAge,
+    refetch,
+  } = useOfflineWeatherDataByCoords(favorite, units.system, locale);
+  const t = getTranslator(locale);
+
+  const formatTemp = (temp: number): string => formatTemperature(temp, units.system);
+  // With a nickname, the real place name moves to the second line
+  const place = [favorite.nickname && favorite.name, favorite.state, favorite.country].filter(Boolean).join(', ');
+
+  const renderWeather = () => {
+    if (currentWeather && forecast) {
+      const offset = forecast.location.timezoneOffset;
+      const [today] = getDailySummaries(forecast, 1);
+      // Today's remaining slots may all be warmer or colder than right now
+      const high = Math.max(today?.high ?? currentWeather.temp, currentWeather.temp);
+      const low = Math.min(today?.low ?? currentWeather.temp, currentWeather.temp);
+      const nextRain = getNextRain(forecast);
+
+      return (
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <div>
+              <p className="text-3xl font-bold">{formatTemp(currentWeather.temp)}</p>
+              <p className="text-xs text-muted-foreground">
+                {t('favorites.highLow', { high: formatTemp(high), low: formatTemp(low) })}
+              </p>
+            </div>
+            <img
+              src={getConditionIconUrl(currentWeather.condition.icon, '2x')}
+              alt={translateCondition(currentWeather.condition.main, locale)}
+              title={translateCondition(currentWeather.condition.main, locale)}
+              className="w-12 h-12"
+            />
+          </div>
+          <p className="flex items-center gap-1 text-xs text-muted-foreground">
+            <CloudRain className="h-3 w-3" />
+            {nextRain
+              ? t('favorites.nextRain', {
+                  when: `${formatDayName(nextRain.time, locale, offset)}, ${formatTime(nextRain.time, locale, offset)}`,
+                })
+              : t('favorites.noRain')}
+          </p>
+        </div>
+      );
+    }
+
+    if (isLoading) {
+      return (
+        <div className="flex items-center justify-center py-4 text-sm text-muted-foreground">
+          <Loader2 className="h-4 w-4 animate-spin mr-2" />
+          {t('weather.loading')}
+        </div>
+      );
+    }
+
+    return (
+      <p className="flex items-start gap-1 py-2 text-sm text-red-600">
+        <AlertTriangle className="h-4 w-4 shrink-0 mt-0.5" />
+        {error ? getWeatherErrorMessage(error, favorite.name, locale) : t('weather.unavailable')}
+      </p>
+    );
+  };
+
+  return (
+    <div
+      className="group rounded-lg border p-3 space-y-2 hover:bg-muted/50 hover:border-blue-200 transition-all duration-200 cursor-pointer"
+      onClick={() => onOpen(favorite)}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <div className="min-w-0">
+          <p className="flex items-center gap-1 font-medium group-hover:text-blue-600 transition-colors">
+            {favorite.pinnedToTop && <Pin className="h-3 w-3 shrink-0 text-blue-600" />}
+            <span className="truncate">{favorite.nickname ?? favorite.name}</span>
+          </p>
+          {place && <p className="text-xs text-muted-foreground truncate">{place}</p>}
+        </div>
+        <div className="flex items-center shrink-0">
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            disabled={isOffline || isRefreshing || isLoading}
+            onClick={(e) => {
+              e.stopPropagation(); // Refresh without opening the details
+              refetch();
+            }}
+            title={t('favorites.refresh', { city: favorite.name })}
+          >
+            <RefreshCw className={`h-4 w-4 ${isRefreshing ? "animate-spin" : ""}`} />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7"
+            onClick={(e) => {
+              e.stopPropagation();
+              onEdit(favorite);
+            }}
+            title={t('favorites.edit', { city: favorite.name })}
+          >
+            <Pencil className="h-4 w-4" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-7 w-7 text-red-500 hover:text-red-700"
+            onClick={(e) => {
+              e.stopPropagation();
+              onRemove(favorite.id);
+            }}
+            title={t('favorites.remove', { city: favorite.name })}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {renderWeather()}
+
+      <div className="flex min-h-4 items-center">
+        {isCachedData && cacheAge !== undefined ? (
+          <span className={`inline-flex items-center gap-1 text-xs ${isOffline ? "text-orange-700" : "text-yellow-700"}`}>
+            {isOffline ? <WifiOff className="h-3 w-3" /> : <Clock className="h-3 w-3" />}
+            {t('offline.lastUpdated', { age: formatMinutesAgo(cacheAge, locale) })}
+          </span>
+        ) : (
+          <RefreshingIndicator isRefreshing={isRefreshing} locale={locale} />
+        )}
+      </div>
+    </div>
+  );
+}
@@ -1,21 +1,54 @@
 import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Heart, Trash2, Eye } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Heart, Pin, X } from "lucide-react";
 import { WeatherModal } from "./WeatherModal";
+import { FavoriteWeatherCard } from "./FavoriteWeatherCard";
+import { FavoriteSettingsDialog } from "./FavoriteSettingsDialog";
+import type { FavoriteDetails, FavoriteGroup, FavoriteLocation, FavoritePlace } from "@/lib/storage";
+import { getFavoriteSections, PINNED_SECTION_ID, type FavoriteSection } from "@/lib/favoriteSections";
+import type { UnitPreferences } from "@/lib/units";
+import { getTranslator, type Locale } from "@/lib/i18n";
 
 interface FavoritesProps {
-  favorites: string[];
-  onRemoveFavorite: (city: string) => void;
-  onToggleFavorite?: (city: string) => void;
+  favorites: FavoriteLocation[];
+  groups: FavoriteGroup[];
+  units: UnitPreferences;
+  locale: Locale;
+  showViewerTime?: boolean;
+  onRemoveFavorite: (id: string) => void;
+  onToggleFavorite?: (place: FavoritePlace) => void;
+  // Receives every favorite's id in the new order
+  onReorderFavorites: (ids: string[]) => void;
+  onUpdateFavorite: (id: string, details: FavoriteDetails, groupName: string) => void;
+  onRemoveGroup: (groupId: string) => void;
 }
 
-export function Favorites({ favorites, onRemoveFavorite, onToggleFavorite }: FavoritesProps) {
-  const [selectedCityForModal, setSelectedCityForModal] = useState<string | null>(null);
+interface DraggedFavorite {
+  id: string;
+  sectionId: string;
+}
+
+export function Favorites({
+  favorites,
+  groups,
+  units,
+  locale,
+  showViewerTime = false,
+  onRemoveFavorite,
+  onToggleFavorite,
+  onReorderFavorites,
+  onUpdateFavorite,
+  onRemoveGroup,
+}: FavoritesProps) {
+  const t = getTranslator(locale);
+  const [selectedCityForModal, setSelectedCityForModal] = useState<FavoriteLocation | null>(null);
   const [isModalOpen, setIsModalOpen] = useState(false);
+  const [editedFavorite, setEditedFavorite] = useState<FavoriteLocation | null>(null);
+  const [dragged, setDragged] = useState<DraggedFavorite | null>(null);
 
-  const handleCityClick = (city: string) => {
+  const handleCityClick = (city: FavoriteLocation) => {
     setSelectedCityForModal(city);
     setIsModalOpen(true);
   };
@@ -25,18 +58,56 @@ export function Favorites({ favorites, onRemoveFavorite, onToggleFavorite }: Fav
     setSelectedCityForModal(null);
   };
 
+  const sections = getFavoriteSections(favorites, groups);
+
+  // Favorites only move within their section; pinning and groups decide
+  // which section that is
+  const moveFavorite = (sectionId: string, id: string, toIndex: number) => {
+    const order = sections.flatMap(section => {
+      const moved = section.favorites.find(favorite => favorite.id === id);
+      if (section.id !== sectionId || !moved) return section.favorites;
+
+      const others = section.favorites.filter(favorite => favorite.id !== id);
+      if (toIndex < 0 || toIndex > others.length) return section.favorites;
+      return [...others.slice(0, toIndex), moved, ...others.slice(toIndex)];
+    });
+    onReorderFavorites(order.map(favorite => favorite.id));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>, section: FavoriteSection, index: number) => {
+    if (e.target !== e.currentTarget) return; // keys meant for the card's buttons
+    if (e.key === 'Enter') {
+      handleCityClick(section.favorites[index]);
+      return;
+    }
+    if (!e.altKey || (e.key !== 'ArrowUp' && e.key !== 'ArrowDown')) return;
+
+    e.preventDefault();
+    moveFavorite(section.id, section.favorites[index].id, e.key === 'ArrowUp' ? index - 1 : index + 1);
+    // Moving the element in the page can drop its focus
+    const item = e.currentTarget;
+    requestAnimationFrame(() => item.focus());
+  };
+
+  const getSectionTitle = (section: FavoriteSection): string | null => {
+    if (section.group) return section.group.name;
+    if (section.id === PINNED_SECTION_ID) return t('favorites.pinned');
+    // Ungrouped favorites only need a heading when other sections are shown
+    return sections.length > 1 ? t('favorites.ungrouped') : null;
+  };
+
   if (!favorites || favorites.length === 0) {
     return (
       <Card className="w-full max-w-md mx-auto">
         <CardHeader>
           <CardTitle className="flex items-center space-x-2">
             <Heart className="h-5 w-5" />
-            <span>Favorites</span>
+            <span>{t('favorites.title')}</span>
           </CardTitle>
         </CardHeader>
         <CardContent>
           <p className="text-muted-foreground text-center">
-            No favorite cities yet. Add some by clicking the heart icon!
+            {t('favorites.empty')}
           </p>
         </CardContent>
       </Card>
@@ -45,49 +116,86 @@ export function Favorites({ favorites, onRemoveFavorite, onToggleFavorite }: Fav
 
   return (
     <>
-      <Card className="w-full max-w-md mx-auto">
+      <Card className="w-full max-w-2xl mx-auto">
         <CardHeader>
           <CardTitle className="flex items-center space-x-2">
             <Heart className="h-5 w-5 fill-red-500 text-red-500" />
-            <span>Favorites</span>
+            <span>{t('favorites.title')}</span>
             <Badge variant="secondary">{favorites.length}</Badge>
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="space-y-2">
-            {favorites.map((city) => (
-              <div
-                key={city}
-                className="group flex items-center justify-between p-3 rounded-lg border hover:bg-muted/50 hover:border-blue-200 transition-all duration-200 cursor-pointer"
-                onClick={() => handleCityClick(city)}
-              >
-                <div className="flex items-center space-x-3 flex-1">
-                  <Eye className="h-4 w-4 text-muted-foreground group-hover:text-blue-600 transition-colors" />
-                  <span className="font-medium group-hover:text-blue-600 transition-colors">
-                    {city}
-                  </span>
-                  <Badge variant="outline" className="text-xs opacity-0 group-hover:opacity-100 transition-opacity">
-                    View Details
-                  </Badge>
-                </div>
-                <Button
-                  variant="ghost"
-                  size="icon"
-                  onClick={(e) => {
-                    e.stopPropagation(); // Prevent triggering the city selection
-                    onRemoveFavorite(city);
-                  }}
-                  className="h-8 w-8 text-red-500 hover:text-red-700 opacity-70 group-hover:opacity-100 transition-opacity"
-                  title={`Remove ${city} from favorites`}
-                >
-                  <Trash2 className="h-4 w-4" />
-                </Button>
-              </div>
-            ))}
+          <div className="space-y-4">
+            {sections.map((section) => {
+              const title = getSectionTitle(section);
+
+              return (
+                <section key={section.id} className="space-y-2">
+                  {title && (
+                    <div className="flex items-center justify-between">
+                      <h3 className="flex items-center space-x-1 text-sm font-medium text-muted-foreground">
+                        {section.id === PINNED_SECTION_ID && <Pin className="h-3 w-3" />}
+                        <span>{title}</span>
+                      </h3>
+                      {section.group && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          onClick={() => onRemoveGroup(section.id)}
+                          title={t('favorites.removeGroup', { group: title })}
+                        >
+                          <X className="h-3 w-3" />
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                  <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+                    {section.favorites.map((favorite, index) => (
+                      <div
+                        key={favorite.id}
+                        draggable
+                        tabIndex={0}
+                        aria-keyshortcuts="Alt+ArrowUp Alt+ArrowDown"
+                        className={`rounded-lg outline-none focus-visible:ring-[3px] focus-visible:ring-ring/50 ${
+                          dragged?.id === favorite.id ? "opacity-50" : ""
+                        }`}
+                        onDragStart={(e) => {
+                          e.dataTransfer.effectAllowed = 'move';
+                          setDragged({ id: favorite.id, sectionId: section.id });
+                        }}
+                        onDragOver={(e) => {
+                          if (dragged?.sectionId === section.id) e.preventDefault();
+                        }}
+                        onDrop={(e) => {
+                          e.preventDefault();
+                          if (dragged) moveFavorite(section.id, dragged.id, index);
+                          setDragged(null);
+                        }}
+                        onDragEnd={() => setDragged(null)}
+                        onKeyDown={(e) => handleKeyDown(e, section, index)}
+                      >
+                        <FavoriteWeatherCard
+                          favorite={favorite}
+                          units={units}
+                          locale={locale}
+                          onOpen={handleCityClick}
+                          onEdit={setEditedFavorite}
+                          onRemove={onRemoveFavorite}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                </section>
+              );
+            })}
           </div>
           <div className="mt-4 p-3 bg-blue-50 rounded-lg border border-blue-200">
             <p className="text-sm text-blue-800 text-center">
-              💡 Click on any city to view detailed weather information in a popup
+              {t('favorites.hint')}
+            </p>
+            <p className="text-xs text-blue-700 text-center mt-1">
+              {t('favorites.reorderHint')}
             </p>
           </div>
         </CardContent>
@@ -98,10 +206,22 @@ export function Favorites({ favorites, onRemoveFavorite, onToggleFavorite }: Fav
         <WeatherModal
           isOpen={isModalOpen}
           onClose={handleCloseModal}
-          cityName={selectedCityForModal}
+          location={selectedCityForModal}
+          nickname={selectedCityForModal.nickname}
+          units={units}
+          locale={locale}
+          showViewerTime={showViewerTime}
           onToggleFavorite={onToggleFavorite}
         />
       )}
+
+      <FavoriteSettingsDialog
+        favorite={editedFavorite}
+        groups={groups}
+        locale={locale}
+        onClose={() => setEditedFavorite(null)}
+        onSave={onUpdateFavorite}
+      />
     </>
   );
 } 
\ No newline at end of file
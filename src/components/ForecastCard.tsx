@@ -1,102 +1,120 @@
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import type { ForecastData } from "@/lib/weatherService";
+import { getConditionIconUrl, type ForecastData } from "@/lib/weatherService";
+import { ChevronDown } from "lucide-react";
+import { HourlyForecast } from "./HourlyForecast";
+import { DaySummaryDetails } from "./DaySummaryDetails";
+import { RefreshingIndicator } from "./RefreshingIndicator";
+import { formatTemperature, type UnitPreferences } from "@/lib/units";
+import { formatDayName, getTranslator, translateCondition, type Locale } from "@/lib/i18n";
+import { getDailySummaries } from "@/lib/forecastAggregation";
 
 interface ForecastCardProps {
   forecast: ForecastData | null;
+  units: UnitPreferences;
+  locale: Locale;
+  showViewerTime?: boolean;
+  isRefreshing?: boolean;
 }
 
-interface DayStats {
-  high: number;
-  low: number;
-  condition: {
-    id: number;
-    main: string;
-    description: string;
-    icon: string;
-  };
-  icon: string;
-}
-
-export function ForecastCard({ forecast }: ForecastCardProps) {
-  if (!forecast || !forecast.list) return null;
+// Slots shown in the "next 24 hours" strip (providers report every 1 to 3 hours)
+const NEXT_HOURS_S = 24 * 60 * 60;
 
-  // Group forecast by day (OpenWeather returns forecast every 3 hours)
-  const dailyForecasts = forecast.list.reduce((acc: Record<string, typeof forecast.list>, item) => {
-    const date = new Date(item.dt * 1000).toDateString();
-    if (!acc[date]) {
-      acc[date] = [];
-    }
-    acc[date].push(item);
-    return acc;
-  }, {});
+export function ForecastCard({
+  forecast,
+  units,
+  locale,
+  showViewerTime = false,
+  isRefreshing = false,
+}: ForecastCardProps) {
+  const [expandedDay, setExpandedDay] = useState<string | null>(null);
 
-  // Get next 5 days
-  const next5Days = Object.entries(dailyForecasts).slice(0, 5);
+  if (!forecast || !forecast.list) return null;
 
-  const formatTemp = (temp: number): number => Math.round(temp);
+  const { timezoneOffset } = forecast.location;
+  const days = getDailySummaries(forecast, 5);
 
-  const getDayName = (dateString: string): string => {
-    const date = new Date(dateString);
-    const today = new Date().toDateString();
-    const tomorrow = new Date(Date.now() + 86400000).toDateString();
-    
-    if (dateString === today) return 'Today';
-    if (dateString === tomorrow) return 'Tomorrow';
-    
-    return date.toLocaleDateString('en-US', { weekday: 'short' });
-  };
+  const t = getTranslator(locale);
+  const formatTemp = (temp: number): string => formatTemperature(temp, units.system, false);
+  const nextHours = forecast.list.filter(item => item.time < forecast.list[0].time + NEXT_HOURS_S);
 
-  const getDayStats = (dayForecasts: typeof forecast.list): DayStats => {
-    const temps = dayForecasts.map(f => f.main.temp);
-    const conditions = dayForecasts[Math.floor(dayForecasts.length / 2)]; // Middle forecast for the day
-    
-    return {
-      high: Math.max(...temps),
-      low: Math.min(...temps),
-      condition: conditions.weather[0],
-      icon: conditions.weather[0].icon
-    };
+  const toggleDay = (date: string) => {
+    setExpandedDay(current => (current === date ? null : date));
   };
 
   return (
     <Card className="w-full max-w-md mx-auto">
-      <CardHeader>
-        <CardTitle className="text-xl font-bold">5-Day Forecast</CardTitle>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-xl font-bold">{t('forecast.title')}</CardTitle>
+        <RefreshingIndicator isRefreshing={isRefreshing} locale={locale} />
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-4">
+        <div>
+          <p className="text-xs font-medium text-muted-foreground mb-2">{t('forecast.nextHours')}</p>
+          <HourlyForecast
+            items={nextHours}
+            units={units}
+            locale={locale}
+            timezoneOffset={timezoneOffset}
+            showViewerTime={showViewerTime}
+          />
+        </div>
+
         <div className="space-y-3">
-          {next5Days.map(([date, dayForecasts]) => {
-            const stats = getDayStats(dayForecasts);
+          {days.map((day) => {
+            const dayName = formatDayName(day.time, locale, timezoneOffset);
+            const isExpanded = expandedDay === day.date;
             
             return (
-              <div
-                key={date}
-                className="flex items-center justify-between p-3 rounded-lg border"
-              >
-                <div className="flex items-center space-x-4">
-                  <span className="font-medium min-w-[80px]">
-                    {getDayName(date)}
-                  </span>
-                  <img
-                    src={`https://openweathermap.org/img/wn/${stats.icon}.png`}
-                    alt={stats.condition.description}
-                    className="w-8 h-8"
-                  />
-                  <div className="flex flex-col">
-                    <Badge variant="outline" className="text-xs">
-                      {stats.condition.main}
-                    </Badge>
-                    <span className="text-xs text-muted-foreground capitalize">
-                      {stats.condition.description}
+              <div key={day.date} className="rounded-lg border">
+                <button
+                  type="button"
+                  onClick={() => toggleDay(day.date)}
+                  aria-expanded={isExpanded}
+                  aria-label={t('forecast.showHours', { day: dayName })}
+                  className="flex w-full items-center justify-between p-3 text-left rounded-lg hover:bg-muted/50 transition-colors"
+                >
+                  <div className="flex items-center space-x-4">
+                    <span className="font-medium min-w-[80px]">
+                      {dayName}
                     </span>
+                    <img
+                      src={getConditionIconUrl(day.condition.icon)}
+                      alt={day.condition.description}
+                      className="w-8 h-8"
+                    />
+                    <div className="flex flex-col">
+                      <Badge variant="outline" className="text-xs">
+                        {translateCondition(day.condition.main, locale)}
+                      </Badge>
+                      <span className="text-xs text-muted-foreground capitalize">
+                        {day.condition.description}
+                      </span>
+                    </div>
+                  </div>
+                  
+                  <div className="flex items-center space-x-2 text-right">
+                    <span className="font-semibold">{formatTemp(day.high)}</span>
+                    <span className="text-muted-foreground">{formatTemp(day.low)}</span>
+                    <ChevronDown
+                      className={`h-4 w-4 text-muted-foreground transition-transform ${isExpanded ? "rotate-180" : ""}`}
+                    />
+                  </div>
+                </button>
+
+                {isExpanded && (
+                  <div className="px-3 pt-3 border-t space-y-3">
+                    <DaySummaryDetails summary={day} units={units} locale={locale} />
+                    <HourlyForecast
+                      items={day.items}
+                      units={units}
+                      locale={locale}
+                      timezoneOffset={timezoneOffset}
+                      showViewerTime={showViewerTime}
+                    />
                   </div>
-                </div>
-                
-                <div className="flex items-center space-x-2 text-right">
-                  <span className="font-semibold">{formatTemp(stats.high)}°</span>
-                  <span className="text-muted-foreground">{formatTemp(stats.low)}°</span>
-                </div>
+                )}
               </div>
             );
           })}
@@ -104,4 +122,4 @@ export function ForecastCard({ forecast }: ForecastCardProps) {
       </CardContent>
     </Card>
   );
-} 
\ No newline at end of file
+}
\ No newline at end of file
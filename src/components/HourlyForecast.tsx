@@ -0,0 +1,70 @@
+import { ArrowUp, Droplets } from "lucide-react";
+import { getConditionIconUrl, type ForecastItem } from "@/lib/weatherService";
+import { formatTemperature, formatWindSpeed, type UnitPreferences } from "@/lib/units";
+import { formatLocationTime, formatPercent, getTranslator, type Locale } from "@/lib/i18n";
+
+interface HourlyForecastProps {
+  items: ForecastItem[];
+  units: UnitPreferences;
+  locale: Locale;
+  timezoneOffset: number;
+  showViewerTime?: boolean;
+  className?: string;
+}
+
+// Height range of the temperature bars, in pixels
+const BAR_MIN_PX = 8;
+const BAR_MAX_PX = 40;
+
+/**
+ * Horizontally scrollable strip with one column per forecast slot
+ */
+export function HourlyForecast({
+  items,
+  units,
+  locale,
+  timezoneOffset,
+  showViewerTime = false,
+  className = "",
+}: HourlyForecastProps) {
+  if (items.length === 0) return null;
+
+  const t = getTranslator(locale);
+  const temps = items.map(item => item.temp);
+  const minTemp = Math.min(...temps);
+  const tempRange = Math.max(...temps) - minTemp || 1;
+
+  return (
+    <div className={`flex space-x-3 overflow-x-auto pb-2 ${className}`}>
+      {items.map((item) => (
+        <div key={item.time} className="flex min-w-[64px] flex-col items-center space-y-1 text-xs">
+          <span className="text-muted-foreground text-center">
+            {formatLocationTime(item.time, locale, timezoneOffset, showViewerTime)}
+          </span>
+          <img
+            src={getConditionIconUrl(item.condition.icon)}
+            alt={item.condition.description}
+            title={item.condition.description}
+            className="w-8 h-8"
+          />
+          <span className="font-semibold">{formatTemperature(item.temp, units.system, false)}</span>
+          <div className="flex h-10 items-end">
+            <div
+              className="w-2 rounded-full bg-orange-300"
+              style={{ height: BAR_MIN_PX + ((item.temp - minTemp) / tempRange) * (BAR_MAX_PX - BAR_MIN_PX) }}
+            />
+          </div>
+          <span className="flex items-center text-blue-600" title={t('forecast.precipitation')}>
+            <Droplets className="h-3 w-3 mr-0.5" />
+            {formatPercent(item.pop * 100, locale)}
+          </span>
+          <span className="flex items-center text-muted-foreground whitespace-nowrap" title={t('forecast.wind')}>
+            {/* The arrow points where the wind blows to, opposite of where it comes from */}
+            <ArrowUp className="h-3 w-3 mr-0.5" style={{ transform: `rotate(${item.windDeg + 180}deg)` }} />
+            {formatWindSpeed(item.windSpeed, units, locale)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
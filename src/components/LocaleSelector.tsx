@@ -0,0 +1,32 @@
+import { Languages } from "lucide-react";
+import { LOCALES, getTranslator, isLocale, type Locale } from "@/lib/i18n";
+
+interface LocaleSelectorProps {
+  locale: Locale;
+  onChange: (locale: Locale) => void;
+  className?: string;
+}
+
+export function LocaleSelector({ locale, onChange, className = "" }: LocaleSelectorProps) {
+  const t = getTranslator(locale);
+
+  return (
+    <label className={`inline-flex items-center space-x-2 text-sm text-muted-foreground ${className}`}>
+      <Languages className="h-4 w-4" />
+      <span className="sr-only">{t('settings.language')}</span>
+      <select
+        value={locale}
+        onChange={(e) => {
+          if (isLocale(e.target.value)) onChange(e.target.value);
+        }}
+        className="h-7 rounded-md border border-input bg-transparent px-2 text-xs text-foreground shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+      >
+        {LOCALES.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
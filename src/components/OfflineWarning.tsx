@@ -1,34 +1,35 @@
-import { AlertTriangle, WifiOff, Clock } from 'lucide-react';
+import { AlertTriangle, WifiLow, WifiOff, Clock } from 'lucide-react';
+import { formatMinutesAgo, getTranslator, type Locale } from '@/lib/i18n';
+import { formatDistance, type UnitSystem } from '@/lib/units';
+import type { ConnectivityState } from '@/lib/connectivity';
 
 interface OfflineWarningProps {
-  isOffline: boolean;
+  connectivity: ConnectivityState;
   isCachedData: boolean;
   cacheAge?: number; // in minutes
+  // How far the shown data's location is from the requested one, if not the same
+  cachedDistanceKm?: number;
+  unitSystem: UnitSystem;
+  locale: Locale;
   className?: string;
 }
 
 export function OfflineWarning({ 
-  isOffline, 
+  connectivity, 
   isCachedData, 
   cacheAge, 
+  cachedDistanceKm,
+  unitSystem,
+  locale,
   className = "" 
 }: OfflineWarningProps) {
-  if (!isOffline && !isCachedData) {
+  const isOffline = connectivity === 'offline';
+  if (connectivity === 'online' && !isCachedData) {
     return null;
   }
 
-  const formatCacheAge = (minutes: number): string => {
-    if (minutes < 60) {
-      return `${minutes} minute${minutes !== 1 ? 's' : ''} ago`;
-    }
-    const hours = Math.floor(minutes / 60);
-    const remainingMinutes = minutes % 60;
-    
-    if (remainingMinutes === 0) {
-      return `${hours} hour${hours !== 1 ? 's' : ''} ago`;
-    }
-    return `${hours}h ${remainingMinutes}m ago`;
-  };
+  const t = getTranslator(locale);
+  const formatCacheAge = (minutes: number): string => formatMinutesAgo(minutes, locale);
 
   if (isOffline && !isCachedData) {
     return (
@@ -36,8 +37,8 @@ export function OfflineWarning({
         <div className="flex items-center space-x-2">
           <WifiOff className="h-5 w-5 text-red-600" />
           <div>
-            <p className="text-red-800 font-medium">You're offline</p>
-            <p className="text-red-700 text-sm">No cached data available for this location</p>
+            <p className="text-red-800 font-medium">{t('offline.title')}</p>
+            <p className="text-red-700 text-sm">{t('offline.noCache')}</p>
           </div>
         </div>
       </div>
@@ -53,26 +54,51 @@ export function OfflineWarning({
             <Clock className="h-4 w-4 text-orange-600" />
           </div>
           <div>
-            <p className="text-orange-800 font-medium">You're offline</p>
+            <p className="text-orange-800 font-medium">{t('offline.title')}</p>
             <p className="text-orange-700 text-sm">
-              Showing cached data from {cacheAge !== undefined ? formatCacheAge(cacheAge) : 'earlier'}
+              {t('offline.showingCached', {
+                age: cacheAge !== undefined ? formatCacheAge(cacheAge) : t('offline.earlier'),
+              })}
             </p>
+            {cachedDistanceKm !== undefined && (
+              <p className="text-orange-700 text-sm">
+                {t('offline.nearby', { distance: formatDistance(cachedDistanceKm, unitSystem, locale) })}
+              </p>
+            )}
           </div>
         </div>
       </div>
     );
   }
 
-  // This would be for when we're online but showing stale cached data (future feature)
+  if (connectivity === 'degraded') {
+    return (
+      <div className={`bg-yellow-50 border border-yellow-200 rounded-lg p-4 ${className}`}>
+        <div className="flex items-center space-x-2">
+          <WifiLow className="h-5 w-5 text-yellow-600" />
+          <div>
+            <p className="text-yellow-800 font-medium">{t('offline.degraded')}</p>
+            <p className="text-yellow-700 text-sm">
+              {isCachedData && cacheAge !== undefined
+                ? t('offline.lastUpdated', { age: formatCacheAge(cacheAge) })
+                : t('offline.degradedHint')}
+            </p>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  // Online but still showing stale stored data, i.e. the background refresh failed
   if (isCachedData && cacheAge !== undefined && cacheAge > 30) {
     return (
       <div className={`bg-yellow-50 border border-yellow-200 rounded-lg p-4 ${className}`}>
         <div className="flex items-center space-x-2">
           <AlertTriangle className="h-5 w-5 text-yellow-600" />
           <div>
-            <p className="text-yellow-800 font-medium">Data may be outdated</p>
+            <p className="text-yellow-800 font-medium">{t('offline.outdated')}</p>
             <p className="text-yellow-700 text-sm">
-              Last updated {formatCacheAge(cacheAge)}
+              {t('offline.lastUpdated', { age: formatCacheAge(cacheAge) })}
             </p>
           </div>
         </div>
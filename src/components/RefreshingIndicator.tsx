@@ -0,0 +1,25 @@
+import { Loader2 } from "lucide-react";
+import { getTranslator, type Locale } from "@/lib/i18n";
+
+interface RefreshingIndicatorProps {
+  isRefreshing: boolean;
+  locale: Locale;
+  className?: string;
+}
+
+/**
+ * Inline note shown while stored data is being replaced with a fresh copy.
+ * Sized to sit in a line that is already there, so it never moves content.
+ */
+export function RefreshingIndicator({ isRefreshing, locale, className = "" }: RefreshingIndicatorProps) {
+  if (!isRefreshing) return null;
+
+  const t = getTranslator(locale);
+
+  return (
+    <span role="status" className={`inline-flex items-center gap-1 text-xs text-muted-foreground ${className}`}>
+      <Loader2 className="h-3 w-3 animate-spin" />
+      {t('app.refreshing')}
+    </span>
+  );
+}
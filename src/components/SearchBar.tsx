@@ -1,27 +1,81 @@
 import { useState, useEffect, useRef } from "react";
+import { useQueryClient } from "@tanstack/react-query";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
-import { Search, Loader2, Wind, Droplets, Thermometer } from "lucide-react";
-import { WeatherService } from "@/lib/weatherService";
+import { Search, Loader2, Wind, Droplets, Thermometer, WifiOff, Heart, History, Database } from "lucide-react";
+import { WeatherService, getConditionIconUrl } from "@/lib/weatherService";
 import type { CurrentWeather, CitySearchResult } from "@/lib/weatherService";
+import { formatTemperature, formatWindSpeed, type UnitPreferences } from "@/lib/units";
+import { useOnlineStatus } from "@/lib/offlineWeatherHooks";
+import type { Coordinates } from "@/lib/geo";
+import { searchStoredCities, type StoredCityMatch, type StoredCitySource } from "@/lib/offlineCitySearch";
+import {
+  formatMinutesAgo,
+  formatPercent,
+  getLocalizedCityName,
+  getTranslator,
+  translateCondition,
+  type Locale,
+} from "@/lib/i18n";
 
 interface SearchResult {
   city: CitySearchResult;
   weather: CurrentWeather | null;
+  // Set for results found offline among the cities the app already knows
+  stored?: { source: StoredCitySource; cacheAge?: number; coords?: Coordinates };
 }
 
+const STORED_SOURCE_ICONS = {
+  favorite: Heart,
+  recent: History,
+  cache: Database,
+} satisfies Record<StoredCitySource, unknown>;
+
+const STORED_SOURCE_LABELS = {
+  favorite: 'search.favorite',
+  recent: 'search.recent',
+  cache: 'search.cached',
+} as const satisfies Record<StoredCitySource, string>;
+
+const toStoredSearchResult = ({ name, source, coords, weather, cacheAge }: StoredCityMatch): SearchResult => ({
+  city: {
+    name,
+    country: weather?.location.country ?? '',
+    state: weather?.location.state,
+    lat: weather?.location.lat ?? 0,
+    lon: weather?.location.lon ?? 0,
+  },
+  weather,
+  stored: { source, cacheAge, coords },
+});
+
+/**
+ * Where a result should be looked up. Geocoded results are fetched by their
+ * coordinates so places sharing a name stay apart; recent and cached cities
+ * are stored under their name, so offline they can only be found by it.
+ */
+const getResultCoords = ({ city, stored }: SearchResult): Coordinates | undefined =>
+  stored ? stored.coords : { lat: city.lat, lon: city.lon };
+
 interface SearchBarProps {
-  onSearch: (query: string) => void;
+  // `coords` is passed whenever the exact place is known: for geocoded results
+  // and favorites, but not for typed queries or cities cached by name
+  onSearch: (query: string, coords?: Coordinates) => void;
+  units: UnitPreferences;
+  locale: Locale;
   loading?: boolean;
 }
 
-export function SearchBar({ onSearch, loading = false }: SearchBarProps) {
+export function SearchBar({ onSearch, units, locale, loading = false }: SearchBarProps) {
   const [query, setQuery] = useState("");
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [showResults, setShowResults] = useState(false);
+  const [isOfflineSearch, setIsOfflineSearch] = useState(false);
+  const isOnline = useOnlineStatus();
+  const queryClient = useQueryClient();
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -34,13 +88,14 @@ export function SearchBar({ onSearch, loading = false }: SearchBarProps) {
     }
   };
 
-  const handleCitySelect = (cityName: string) => {
-    onSearch(cityName);
+  const handleCitySelect = (cityName: string, coords?: Coordinates) => {
+    onSearch(cityName, coords);
     setShowResults(false);
     setQuery("");
   };
 
-  const formatTemp = (temp: number): number => Math.round(temp);
+  const t = getTranslator(locale);
+  const formatTemp = (temp: number): string => formatTemperature(temp, units.system);
 
   // Function to get unique cities
   const getUniqueCities = (cities: CitySearchResult[]): CitySearchResult[] => {
@@ -63,13 +118,22 @@ export function SearchBar({ onSearch, loading = false }: SearchBarProps) {
       searchTimeoutRef.current = setTimeout(async () => {
         setIsSearching(true);
         try {
-          const cities = await WeatherService.searchCities(query);
+          // Offline, only the cities the app already has data for can be found
+          if (!isOnline) {
+            const matches = await searchStoredCities(queryClient, query, units.system, locale);
+            setSearchResults(matches.map(toStoredSearchResult));
+            setIsOfflineSearch(true);
+            setShowResults(true);
+            return;
+          }
+
+          const cities = await WeatherService.searchCities(query, locale);
           const uniqueCities = getUniqueCities(cities);
           
           const searchResultsWithWeather = await Promise.all(
             uniqueCities.map(async (city) => {
               try {
-                const weather = await WeatherService.getCurrentWeatherByCoords(city.lat, city.lon);
+                const weather = await WeatherService.getCurrentWeatherByCoords(city.lat, city.lon, units.system, locale);
                 return { city, weather };
               } catch (error) {
                 console.error(`Failed to get weather for ${city.name}:`, error);
@@ -79,6 +143,7 @@ export function SearchBar({ onSearch, loading = false }: SearchBarProps) {
           );
           
           setSearchResults(searchResultsWithWeather);
+          setIsOfflineSearch(false);
           setShowResults(true);
         } catch (error) {
           console.error('Search error:', error);
@@ -89,6 +154,7 @@ export function SearchBar({ onSearch, loading = false }: SearchBarProps) {
       }, 500);
     } else {
       setSearchResults([]);
+      setIsOfflineSearch(false);
       setShowResults(false);
     }
 
@@ -97,7 +163,7 @@ export function SearchBar({ onSearch, loading = false }: SearchBarProps) {
         clearTimeout(searchTimeoutRef.current);
       }
     };
-  }, [query]);
+  }, [query, units.system, locale, isOnline, queryClient]);
 
   // Handle clicks outside to close results
   useEffect(() => {
@@ -116,7 +182,7 @@ export function SearchBar({ onSearch, loading = false }: SearchBarProps) {
   return (
     <>
       {/* Background Overlay */}
-      {showResults && (searchResults.length > 0 || isSearching) && (
+      {showResults && (searchResults.length > 0 || isSearching || isOfflineSearch) && (
         <div className="fixed inset-0 bg-black/20 z-40" />
       )}
       
@@ -124,7 +190,7 @@ export function SearchBar({ onSearch, loading = false }: SearchBarProps) {
         <form onSubmit={handleSubmit} className="flex w-full space-x-2">
           <Input
             type="text"
-            placeholder="Search for a city..."
+            placeholder={t('search.placeholder')}
             value={query}
             onChange={(e) => setQuery(e.target.value)}
             className="flex-1"
@@ -145,36 +211,48 @@ export function SearchBar({ onSearch, loading = false }: SearchBarProps) {
         </form>
 
         {/* Search Results Dropdown */}
-        {showResults && (searchResults.length > 0 || isSearching) && (
+        {showResults && (searchResults.length > 0 || isSearching || isOfflineSearch) && (
           <Card className="absolute top-full py-0 mt-2 w-full z-50 max-h-96 overflow-y-auto shadow-lg border">
             <CardContent className="p-0">
               {isSearching ? (
                 <div className="p-4 flex items-center justify-center">
                   <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                  <span className="text-sm text-muted-foreground">Searching...</span>
+                  <span className="text-sm text-muted-foreground">{t('search.searching')}</span>
                 </div>
               ) : (
                 <div className="space-y-0">
+                  {isOfflineSearch && (
+                    <div className="px-4 py-2 flex items-center space-x-2 text-xs text-orange-800 bg-orange-50 border-b">
+                      <WifiOff className="h-3 w-3" />
+                      <span>{t('search.offline')}</span>
+                    </div>
+                  )}
+                  {isOfflineSearch && searchResults.length === 0 && (
+                    <p className="p-4 text-sm text-muted-foreground">{t('search.noSavedMatches')}</p>
+                  )}
                   {searchResults.map((result, index) => (
                     <div
                       key={`${result.city.name}-${result.city.country}-${result.city.lat}-${result.city.lon}`}
                       className={`p-4 hover:bg-muted/50 cursor-pointer border-b last:border-b-0 transition-colors ${
                         index === 0 ? 'rounded-t-lg' : ''
                       } ${index === searchResults.length - 1 ? 'rounded-b-lg' : ''}`}
-                      onClick={() => handleCitySelect(result.city.name)}
+                      onClick={() => handleCitySelect(result.city.name, getResultCoords(result))}
                     >
                       <div className="flex items-center justify-between">
                         <div className="flex-1">
                           <div className="flex items-center space-x-2 mb-2">
-                            <h3 className="font-semibold text-lg">{result.city.name}</h3>
-                            <Badge variant="outline" className="text-xs">
-                              {result.city.country}
-                            </Badge>
+                            <h3 className="font-semibold text-lg">{getLocalizedCityName(result.city, locale)}</h3>
+                            {result.city.country && (
+                              <Badge variant="outline" className="text-xs">
+                                {result.city.country}
+                              </Badge>
+                            )}
                             {result.city.state && (
                               <Badge variant="secondary" className="text-xs">
                                 {result.city.state}
                               </Badge>
                             )}
+                            {result.stored && <StoredSourceBadge source={result.stored.source} locale={locale} />}
                           </div>
                           
                           {result.weather ? (
@@ -182,20 +260,20 @@ export function SearchBar({ onSearch, loading = false }: SearchBarProps) {
                               <div className="flex items-center justify-between mb-3">
                                 <div className="flex items-center space-x-3">
                                   <span className="text-3xl font-bold">
-                                    {formatTemp(result.weather.main.temp)}°C
+                                    {formatTemp(result.weather.temp)}
                                   </span>
                                   <img
-                                    src={`https://openweathermap.org/img/wn/${result.weather.weather[0].icon}.png`}
-                                    alt={result.weather.weather[0].description}
+                                    src={getConditionIconUrl(result.weather.condition.icon)}
+                                    alt={result.weather.condition.description}
                                     className="w-12 h-12"
                                   />
                                 </div>
                                 <div className="text-right">
                                   <Badge variant="secondary" className="mb-1">
-                                    {result.weather.weather[0].main}
+                                    {translateCondition(result.weather.condition.main, locale)}
                                   </Badge>
                                   <p className="text-xs text-muted-foreground capitalize">
-                                    {result.weather.weather[0].description}
+                                    {result.weather.condition.description}
                                   </p>
                                 </div>
                               </div>
@@ -203,21 +281,27 @@ export function SearchBar({ onSearch, loading = false }: SearchBarProps) {
                               <div className="grid grid-cols-3 gap-4 text-xs">
                                 <div className="flex items-center space-x-1">
                                   <Thermometer className="h-3 w-3 text-muted-foreground" />
-                                  <span>Feels {formatTemp(result.weather.main.feels_like)}°C</span>
+                                  <span>{t('weather.feels', { temp: formatTemp(result.weather.feelsLike) })}</span>
                                 </div>
                                 <div className="flex items-center space-x-1">
                                   <Wind className="h-3 w-3 text-muted-foreground" />
-                                  <span>{result.weather.wind.speed} m/s</span>
+                                  <span>{formatWindSpeed(result.weather.windSpeed, units, locale)}</span>
                                 </div>
                                 <div className="flex items-center space-x-1">
                                   <Droplets className="h-3 w-3 text-muted-foreground" />
-                                  <span>{result.weather.main.humidity}%</span>
+                                  <span>{formatPercent(result.weather.humidity, locale)}</span>
                                 </div>
                               </div>
+
+                              {result.stored?.cacheAge !== undefined && (
+                                <p className="mt-2 text-xs text-orange-700">
+                                  {t('offline.lastUpdated', { age: formatMinutesAgo(result.stored.cacheAge, locale) })}
+                                </p>
+                              )}
                             </>
                           ) : (
                             <p className="text-sm text-muted-foreground">
-                              Weather data unavailable
+                              {t('weather.unavailable')}
                             </p>
                           )}
                         </div>
@@ -232,4 +316,16 @@ export function SearchBar({ onSearch, loading = false }: SearchBarProps) {
       </div>
     </>
   );
-} 
\ No newline at end of file
+}
+
+function StoredSourceBadge({ source, locale }: { source: StoredCitySource; locale: Locale }) {
+  const Icon = STORED_SOURCE_ICONS[source];
+  const t = getTranslator(locale);
+
+  return (
+    <Badge variant="outline" className="text-xs text-orange-700 border-orange-200">
+      <Icon className="h-3 w-3" />
+      {t(STORED_SOURCE_LABELS[source])}
+    </Badge>
+  );
+}
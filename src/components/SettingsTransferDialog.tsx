@@ -0,0 +1,288 @@
+import { useEffect, useRef, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { ArrowLeftRight, Check, Download, FileUp, Link } from "lucide-react";
+import { StorageService, type ImportMode, type TransferredSettings } from "@/lib/storage";
+import {
+  createSettingsFile,
+  createShareLink,
+  downloadSettingsFile,
+  getImportedSections,
+  parseSettingsFile,
+  parseShareLink,
+  pickSections,
+  SETTINGS_SECTIONS,
+  SettingsImportError,
+  type SettingsImportErrorReason,
+  type SettingsSection,
+} from "@/lib/settingsTransfer";
+import { getTranslator, type Locale, type TranslationKey } from "@/lib/i18n";
+
+interface SettingsTransferDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  locale: Locale;
+  // The link the app was opened from, offered for import when the dialog opens
+  sharedLink: string | null;
+  // Called after imported settings are saved, so they can be reloaded
+  onImported: () => void;
+}
+
+const SECTIONS = Object.keys(SETTINGS_SECTIONS) as SettingsSection[];
+
+const SECTION_LABELS = {
+  favorites: 'transfer.sectionFavorites',
+  preferences: 'transfer.sectionPreferences',
+  history: 'transfer.sectionHistory',
+} as const satisfies Record<SettingsSection, TranslationKey>;
+
+const IMPORT_ERRORS = {
+  unreadable: 'transfer.errorUnreadable',
+  'not-settings': 'transfer.errorNotSettings',
+  invalid: 'transfer.errorInvalid',
+} as const satisfies Record<SettingsImportErrorReason, TranslationKey>;
+
+// Recent searches are personal, so they're left out of exports unless asked for
+const DEFAULT_EXPORT_SECTIONS: SettingsSection[] = ['favorites', 'preferences'];
+
+const toggleSection = (sections: SettingsSection[], section: SettingsSection): SettingsSection[] =>
+  sections.includes(section) ? sections.filter(other => other !== section) : [...sections, section];
+
+/**
+ * Export settings to a JSON file or a share link, and import them from
+ * either, merging with or replacing what's stored
+ */
+export function SettingsTransferDialog({ isOpen, onClose, locale, sharedLink, onImported }: SettingsTransferDialogProps) {
+  const [exportSections, setExportSections] = useState<SettingsSection[]>(DEFAULT_EXPORT_SECTIONS);
+  const [shareLink, setShareLink] = useState<string | null>(null);
+  const [isLinkCopied, setIsLinkCopied] = useState(false);
+  const [pastedLink, setPastedLink] = useState("");
+  const [imported, setImported] = useState<TransferredSettings | null>(null);
+  const [importSections, setImportSections] = useState<SettingsSection[]>([]);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [importError, setImportError] = useState<TranslationKey | null>(null);
+  const [isImportDone, setIsImportDone] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const t = getTranslator(locale);
+
+  const readImport = (read: () => TransferredSettings) => {
+    setIsImportDone(false);
+    try {
+      const settings = read();
+      setImported(settings);
+      setImportSections(getImportedSections(settings));
+      setImportError(null);
+    } catch (error) {
+      console.error('Error reading settings import:', error);
+      setImported(null);
+      setImportError(error instanceof SettingsImportError ? IMPORT_ERRORS[error.reason] : 'transfer.errorUnreadable');
+    }
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setShareLink(null);
+    setIsLinkCopied(false);
+    setPastedLink("");
+    setImported(null);
+    setImportError(null);
+    setIsImportDone(false);
+    if (sharedLink) {
+      readImport(() => parseShareLink(sharedLink));
+    }
+  }, [isOpen, sharedLink]);
+
+  const handleCopyLink = async () => {
+    const link = createShareLink(createSettingsFile(exportSections));
+    setShareLink(link);
+    setIsLinkCopied(false);
+    try {
+      await navigator.clipboard.writeText(link);
+      setIsLinkCopied(true);
+    } catch (error) {
+      // The link is still shown for copying by hand
+      console.error('Error copying settings link:', error);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Let the same file be picked again after fixing it
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      const text = await file.text();
+      readImport(() => parseSettingsFile(text));
+    } catch (error) {
+      console.error('Error reading settings file:', error);
+      setImported(null);
+      setImportError('transfer.errorUnreadable');
+    }
+  };
+
+  const handleImport = () => {
+    if (!imported) return;
+    try {
+      StorageService.importSettings(pickSections(imported, importSections), mode);
+      setImported(null);
+      setIsImportDone(true);
+      onImported();
+    } catch (error) {
+      console.error('Error saving imported settings:', error);
+      setImportError('transfer.errorSave');
+    }
+  };
+
+  const favoriteCount = imported?.favorites
+    ? imported.favorites.locations.length + imported.favorites.unresolved.length
+    : 0;
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md mx-auto max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <ArrowLeftRight className="h-5 w-5 text-blue-600" />
+            <span>{t('transfer.title')}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">{t('transfer.exportTitle')}</h3>
+          <p className="text-xs text-muted-foreground">{t('transfer.exportHint')}</p>
+          <div className="space-y-1">
+            {SECTIONS.map(section => (
+              <label key={section} className="flex items-center space-x-2 text-sm cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={exportSections.includes(section)}
+                  onChange={() => {
+                    setExportSections(toggleSection(exportSections, section));
+                    setShareLink(null);
+                  }}
+                  className="h-3.5 w-3.5 accent-blue-600"
+                />
+                <span>{t(SECTION_LABELS[section])}</span>
+              </label>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={exportSections.length === 0}
+              onClick={() => downloadSettingsFile(createSettingsFile(exportSections))}
+            >
+              <Download className="h-4 w-4" />
+              {t('transfer.download')}
+            </Button>
+            <Button variant="outline" size="sm" disabled={exportSections.length === 0} onClick={handleCopyLink}>
+              {isLinkCopied ? <Check className="h-4 w-4" /> : <Link className="h-4 w-4" />}
+              {t(isLinkCopied ? 'transfer.linkCopied' : 'transfer.copyLink')}
+            </Button>
+          </div>
+          {shareLink && (
+            <div className="space-y-1">
+              <Input readOnly value={shareLink} onFocus={(e) => e.target.select()} className="text-xs" />
+              <p className="text-xs text-muted-foreground">{t('transfer.linkHint')}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2 border-t pt-4">
+          <h3 className="text-sm font-medium">{t('transfer.importTitle')}</h3>
+          <p className="text-xs text-muted-foreground">{t('transfer.importHint')}</p>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" onClick={() => fileInputRef.current?.click()}>
+              <FileUp className="h-4 w-4" />
+              {t('transfer.chooseFile')}
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </div>
+          <form
+            className="flex gap-2"
+            onSubmit={(e) => {
+              e.preventDefault();
+              readImport(() => parseShareLink(pastedLink.trim()));
+            }}
+          >
+            <Input
+              value={pastedLink}
+              onChange={(e) => setPastedLink(e.target.value)}
+              placeholder={t('transfer.linkPlaceholder')}
+              className="h-8 text-xs"
+            />
+            <Button type="submit" variant="outline" size="sm" disabled={!pastedLink.trim()}>
+              {t('transfer.openLink')}
+            </Button>
+          </form>
+
+          {importError && <p className="text-sm text-red-600">{t(importError)}</p>}
+          {isImportDone && (
+            <p className="flex items-center gap-1 text-sm text-green-700">
+              <Check className="h-4 w-4" />
+              {t('transfer.imported')}
+            </p>
+          )}
+
+          {imported && (
+            <div className="space-y-3 rounded-lg border p-3">
+              <div className="space-y-1">
+                <p className="text-xs text-muted-foreground">{t('transfer.importIncludes')}</p>
+                {getImportedSections(imported).map(section => (
+                  <label key={section} className="flex items-center space-x-2 text-sm cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={importSections.includes(section)}
+                      onChange={() => setImportSections(toggleSection(importSections, section))}
+                      className="h-3.5 w-3.5 accent-blue-600"
+                    />
+                    <span>{t(SECTION_LABELS[section])}</span>
+                    {section === 'favorites' && (
+                      <span className="text-xs text-muted-foreground">
+                        {t('transfer.favoriteCount', { count: favoriteCount })}
+                      </span>
+                    )}
+                  </label>
+                ))}
+              </div>
+
+              <div className="space-y-1">
+                {(['merge', 'replace'] as const).map(option => (
+                  <label key={option} className="flex items-center space-x-2 text-sm cursor-pointer">
+                    <input
+                      type="radio"
+                      name="import-mode"
+                      checked={mode === option}
+                      onChange={() => setMode(option)}
+                      className="h-3.5 w-3.5 accent-blue-600"
+                    />
+                    <span>{t(option === 'merge' ? 'transfer.modeMerge' : 'transfer.modeReplace')}</span>
+                  </label>
+                ))}
+                <p className="text-xs text-muted-foreground">{t('transfer.modeHint')}</p>
+              </div>
+
+              <div className="flex justify-end gap-2">
+                <Button variant="outline" size="sm" onClick={() => setImported(null)}>
+                  {t('transfer.cancel')}
+                </Button>
+                <Button size="sm" disabled={importSections.length === 0} onClick={handleImport}>
+                  {t('transfer.import')}
+                </Button>
+              </div>
+            </div>
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
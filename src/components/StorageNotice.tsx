@@ -0,0 +1,42 @@
+import { AlertTriangle, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { getTranslator, type Locale } from '@/lib/i18n';
+
+interface StorageNoticeProps {
+  quarantinedCount: number;
+  locale: Locale;
+  onDismiss: () => void;
+  className?: string;
+}
+
+/**
+ * Tells the user that stored data couldn't be upgraded and was set aside
+ */
+export function StorageNotice({ quarantinedCount, locale, onDismiss, className = "" }: StorageNoticeProps) {
+  if (quarantinedCount === 0) {
+    return null;
+  }
+
+  const t = getTranslator(locale);
+
+  return (
+    <div className={`bg-yellow-50 border border-yellow-200 rounded-lg p-4 ${className}`}>
+      <div className="flex items-start space-x-2">
+        <AlertTriangle className="h-5 w-5 text-yellow-600 shrink-0" />
+        <div className="flex-1">
+          <p className="text-yellow-800 font-medium">{t('storage.quarantinedTitle')}</p>
+          <p className="text-yellow-700 text-sm">{t('storage.quarantined', { count: quarantinedCount })}</p>
+        </div>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={onDismiss}
+          className="h-6 w-6 text-yellow-700"
+          title={t('storage.dismiss')}
+        >
+          <X className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,233 @@
+import { useCallback, useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { HardDrive, Heart, Loader2, Pin, PinOff, RefreshCw, Trash2 } from "lucide-react";
+import { CacheService, CACHE_BUDGET_BYTES, type CachedLocation } from "@/lib/cacheService";
+import { CLEANUP_SCHEDULES, StorageService, type CleanupSchedule, type FavoriteLocation } from "@/lib/storage";
+import { useCacheManagement, useSmartCacheInvalidation } from "@/lib/weatherCacheUtils";
+import { formatBytes, formatMinutesAgo, getTranslator, type Locale } from "@/lib/i18n";
+
+interface StoragePanelProps {
+  isOpen: boolean;
+  onClose: () => void;
+  favorites: FavoriteLocation[];
+  locale: Locale;
+  onCleanupScheduleChange: (schedule: CleanupSchedule) => void;
+}
+
+const SCHEDULE_LABELS = {
+  off: 'storage.scheduleOff',
+  daily: 'storage.scheduleDaily',
+  weekly: 'storage.scheduleWeekly',
+} as const satisfies Record<CleanupSchedule, string>;
+
+// Actions on the whole cache rather than one location; the colon keeps them
+// apart from location ids
+const REFRESH_STALE_ACTION = ':refresh-stale';
+const CLEANUP_ACTION = ':cleanup';
+const CLEAR_ACTION = ':clear';
+
+/**
+ * Lists what the weather cache holds and lets the user refresh, keep or
+ * delete each location, refresh everything stale, clean up unfavorited
+ * cities and clear everything
+ */
+export function StoragePanel({ isOpen, onClose, favorites, locale, onCleanupScheduleChange }: StoragePanelProps) {
+  const [locations, setLocations] = useState<CachedLocation[]>([]);
+  const [pinned, setPinned] = useState<string[]>(() => StorageService.getPinnedLocations());
+  const [cleanup, setCleanup] = useState(() => StorageService.getCacheCleanupSettings());
+  const [pendingAction, setPendingAction] = useState<string | null>(null);
+  const { refreshLocation, removeLocation, cleanupUnfavorited, clearAll } = useCacheManagement();
+  const { refreshStaleData } = useSmartCacheInvalidation();
+  const t = getTranslator(locale);
+
+  const loadLocations = useCallback(() => {
+    CacheService.getCachedLocations().then(setLocations);
+  }, []);
+
+  useEffect(() => {
+    if (isOpen) {
+      loadLocations();
+      setPinned(StorageService.getPinnedLocations());
+      setCleanup(StorageService.getCacheCleanupSettings());
+    }
+  }, [isOpen, loadLocations]);
+
+  const runAction = async (action: string, run: () => Promise<void>) => {
+    setPendingAction(action);
+    try {
+      await run();
+    } finally {
+      setPendingAction(null);
+      setCleanup(StorageService.getCacheCleanupSettings());
+      loadLocations();
+    }
+  };
+
+  const favoriteIds = new Set(favorites.map(favorite => favorite.id));
+  const usedBytes = locations.reduce((sum, location) => sum + location.size, 0);
+  const usedPercent = Math.min(100, (usedBytes / CACHE_BUDGET_BYTES) * 100);
+  const hasStale = locations.some(location => !CacheService.isCacheDataFresh(location.dataUpdatedAt));
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-md mx-auto max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <HardDrive className="h-5 w-5 text-blue-600" />
+            <span>{t('storage.title')}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-1">
+          <div className="h-2 w-full rounded-full bg-muted overflow-hidden">
+            <div className="h-full rounded-full bg-blue-600" style={{ width: `${usedPercent}%` }} />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {t('storage.usage', {
+              used: formatBytes(usedBytes, locale),
+              budget: formatBytes(CACHE_BUDGET_BYTES, locale),
+            })}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between gap-2">
+            <h3 className="text-sm font-medium">{t('storage.locations')}</h3>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={pendingAction !== null || !hasStale}
+              onClick={() => runAction(REFRESH_STALE_ACTION, refreshStaleData)}
+            >
+              {pendingAction === REFRESH_STALE_ACTION ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+              {t('storage.refreshStale')}
+            </Button>
+          </div>
+          {locations.length === 0 ? (
+            <p className="text-sm text-muted-foreground">{t('storage.empty')}</p>
+          ) : (
+            locations.map(location => {
+              const isFavorite = favoriteIds.has(location.id);
+              const isPinned = pinned.includes(location.id);
+              const isFresh = CacheService.isCacheDataFresh(location.dataUpdatedAt);
+              const isPending = pendingAction === location.id;
+
+              return (
+                <div key={location.id} className="flex items-center justify-between rounded-lg border p-3">
+                  <div className="min-w-0 flex-1 space-y-1">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium truncate">{location.name}</span>
+                      {isFavorite && <Heart className="h-3 w-3 shrink-0 fill-red-500 text-red-500" />}
+                      {isPinned && <Pin className="h-3 w-3 shrink-0 text-blue-600" />}
+                    </div>
+                    <div className="flex flex-wrap items-center gap-2 text-xs text-muted-foreground">
+                      <Badge
+                        variant="outline"
+                        className={isFresh ? "text-green-700 border-green-200" : "text-yellow-700 border-yellow-200"}
+                      >
+                        {t(isFresh ? 'storage.fresh' : 'storage.stale')}
+                      </Badge>
+                      <span>
+                        {t('offline.lastUpdated', {
+                          age: formatMinutesAgo(CacheService.getCacheAge(location.dataUpdatedAt), locale),
+                        })}
+                      </span>
+                      <span>{formatBytes(location.size, locale)}</span>
+                    </div>
+                  </div>
+
+                  <div className="flex items-center shrink-0">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      disabled={pendingAction !== null}
+                      onClick={() => runAction(location.id, () => refreshLocation(location))}
+                      title={t('storage.refresh', { name: location.name })}
+                    >
+                      {isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <RefreshCw className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8"
+                      onClick={() => setPinned(StorageService.setLocationPinned(location.id, !isPinned))}
+                      title={t(isPinned ? 'storage.unpin' : 'storage.pin', { name: location.name })}
+                    >
+                      {isPinned ? <PinOff className="h-4 w-4" /> : <Pin className="h-4 w-4" />}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-red-600 hover:text-red-700"
+                      disabled={pendingAction !== null}
+                      onClick={() => runAction(location.id, () => removeLocation(location))}
+                      title={t('storage.delete', { name: location.name })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+
+        <div className="space-y-2 border-t pt-4">
+          <h3 className="text-sm font-medium">{t('storage.cleanupTitle')}</h3>
+          <p className="text-xs text-muted-foreground">{t('storage.cleanupHint')}</p>
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <label className="inline-flex items-center space-x-2 text-xs text-muted-foreground">
+              <span>{t('storage.schedule')}</span>
+              <select
+                value={cleanup.schedule}
+                onChange={(e) => {
+                  const schedule = CLEANUP_SCHEDULES.find(option => option === e.target.value);
+                  if (!schedule) return;
+                  const settings = StorageService.setCleanupSchedule(schedule);
+                  setCleanup(settings);
+                  onCleanupScheduleChange(settings.schedule);
+                }}
+                className="h-7 rounded-md border border-input bg-transparent px-2 text-xs text-foreground shadow-xs outline-none focus-visible:border-ring focus-visible:ring-ring/50 focus-visible:ring-[3px]"
+              >
+                {CLEANUP_SCHEDULES.map(schedule => (
+                  <option key={schedule} value={schedule}>
+                    {t(SCHEDULE_LABELS[schedule])}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <Button
+              variant="outline"
+              size="sm"
+              disabled={pendingAction !== null}
+              onClick={() => runAction(CLEANUP_ACTION, cleanupUnfavorited)}
+            >
+              {pendingAction === CLEANUP_ACTION && <Loader2 className="h-4 w-4 animate-spin" />}
+              {t('storage.cleanupNow')}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {cleanup.lastRunAt !== null
+              ? t('storage.lastCleanup', {
+                  age: formatMinutesAgo(CacheService.getCacheAge(cleanup.lastRunAt), locale),
+                })
+              : t('storage.neverCleaned')}
+          </p>
+        </div>
+
+        <Button
+          variant="outline"
+          className="w-full text-red-600 hover:text-red-700"
+          disabled={pendingAction !== null || locations.length === 0}
+          onClick={() => runAction(CLEAR_ACTION, clearAll)}
+        >
+          {pendingAction === CLEAR_ACTION ? <Loader2 className="h-4 w-4 animate-spin" /> : <Trash2 className="h-4 w-4" />}
+          {t('storage.clearAll')}
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
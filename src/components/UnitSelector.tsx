@@ -0,0 +1,70 @@
+import { Button } from "@/components/ui/button";
+import {
+  PRESSURE_UNITS,
+  UNIT_SYSTEMS,
+  WIND_SPEED_UNITS,
+  getDefaultUnitPreferences,
+  type UnitPreferences,
+} from "@/lib/units";
+import { getTranslator, type Locale } from "@/lib/i18n";
+
+interface UnitSelectorProps {
+  units: UnitPreferences;
+  locale: Locale;
+  onChange: (units: UnitPreferences) => void;
+  className?: string;
+}
+
+interface OptionGroupProps<T extends string> {
+  label: string;
+  options: { value: T; label: string }[];
+  value: T;
+  onSelect: (value: T) => void;
+}
+
+function OptionGroup<T extends string>({ label, options, value, onSelect }: OptionGroupProps<T>) {
+  return (
+    <div className="flex items-center space-x-1" role="group" aria-label={label}>
+      {options.map((option) => (
+        <Button
+          key={option.value}
+          variant={option.value === value ? "default" : "outline"}
+          size="sm"
+          className="h-7 px-2 text-xs"
+          aria-pressed={option.value === value}
+          onClick={() => onSelect(option.value)}
+        >
+          {option.label}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+export function UnitSelector({ units, locale, onChange, className = "" }: UnitSelectorProps) {
+  const t = getTranslator(locale);
+
+  return (
+    <div className={`flex flex-wrap items-center justify-center gap-3 ${className}`}>
+      <OptionGroup
+        label={t('settings.temperature')}
+        options={UNIT_SYSTEMS}
+        value={units.system}
+        // Switching the system also resets wind and pressure to that system's usual units
+        onSelect={(system) => onChange(getDefaultUnitPreferences(system))}
+      />
+      <OptionGroup
+        label={t('settings.windSpeed')}
+        options={WIND_SPEED_UNITS.map(unit => ({ value: unit, label: unit }))}
+        value={units.windSpeed}
+        onSelect={(windSpeed) => onChange({ ...units, windSpeed })}
+      />
+      <OptionGroup
+        label={t('settings.pressure')}
+        options={PRESSURE_UNITS.map(unit => ({ value: unit, label: unit }))}
+        value={units.pressure}
+        onSelect={(pressure) => onChange({ ...units, pressure })}
+      />
+    </div>
+  );
+}
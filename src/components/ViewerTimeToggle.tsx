@@ -0,0 +1,29 @@
+import { Clock } from "lucide-react";
+import { getTranslator, type Locale } from "@/lib/i18n";
+
+interface ViewerTimeToggleProps {
+  checked: boolean;
+  locale: Locale;
+  onChange: (checked: boolean) => void;
+  className?: string;
+}
+
+/**
+ * Opt-in to showing the viewer's own clock next to each location's local time
+ */
+export function ViewerTimeToggle({ checked, locale, onChange, className = "" }: ViewerTimeToggleProps) {
+  const t = getTranslator(locale);
+
+  return (
+    <label className={`inline-flex items-center space-x-2 text-xs text-muted-foreground cursor-pointer ${className}`}>
+      <Clock className="h-4 w-4" />
+      <input
+        type="checkbox"
+        checked={checked}
+        onChange={(e) => onChange(e.target.checked)}
+        className="h-3.5 w-3.5 accent-blue-600"
+      />
+      <span>{t('settings.showViewerTime')}</span>
+    </label>
+  );
+}
@@ -1,24 +1,49 @@
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Heart, Wind, Droplets, Eye, Thermometer, MapPin, Loader2 } from "lucide-react";
-import { StorageService } from "@/lib/storage";
-import type { CurrentWeather } from "@/lib/weatherService";
+import { Heart, Wind, Droplets, Eye, Thermometer, MapPin, Loader2, Sunrise, Sunset } from "lucide-react";
+import { StorageService, type FavoritePlace } from "@/lib/storage";
+import { getCoordinatesId } from "@/lib/geo";
+import { getConditionIconUrl, type CurrentWeather } from "@/lib/weatherService";
+import {
+  formatPressure,
+  formatTemperature,
+  formatVisibility,
+  formatWindSpeed,
+  type UnitPreferences,
+} from "@/lib/units";
+import { formatLocationTime, formatPercent, getTranslator, translateCondition, type Locale } from "@/lib/i18n";
+import { RefreshingIndicator } from "./RefreshingIndicator";
 
 interface WeatherCardProps {
   weather: CurrentWeather | null;
-  onToggleFavorite: (city: string) => void;
+  units: UnitPreferences;
+  locale: Locale;
+  showViewerTime?: boolean;
+  isRefreshing?: boolean;
+  onToggleFavorite: (place: FavoritePlace) => void;
   onUseCurrentLocation?: () => void;
   locationLoading?: boolean;
 }
 
-export function WeatherCard({ weather, onToggleFavorite, onUseCurrentLocation, locationLoading = false }: WeatherCardProps) {
+export function WeatherCard({
+  weather,
+  units,
+  locale,
+  showViewerTime = false,
+  isRefreshing = false,
+  onToggleFavorite,
+  onUseCurrentLocation,
+  locationLoading = false,
+}: WeatherCardProps) {
+  const t = getTranslator(locale);
+
   if (!weather) {
     return (
       <Card className="w-full max-w-md mx-auto">
         <CardContent className="p-8 text-center">
           <div className="space-y-4">
-            <p className="text-muted-foreground">No weather data available</p>
+            <p className="text-muted-foreground">{t('weather.noData')}</p>
             {onUseCurrentLocation && (
               <Button 
                 onClick={onUseCurrentLocation}
@@ -28,12 +53,12 @@ export function WeatherCard({ weather, onToggleFavorite, onUseCurrentLocation, l
                 {locationLoading ? (
                   <>
                     <Loader2 className="h-4 w-4 animate-spin mr-2" />
-                    Getting your location...
+                    {t('app.gettingLocation')}
                   </>
                 ) : (
                   <>
                     <MapPin className="h-4 w-4 mr-2" />
-                    Use Current Location
+                    {t('weather.useCurrentLocation')}
                   </>
                 )}
               </Button>
@@ -44,13 +69,15 @@ export function WeatherCard({ weather, onToggleFavorite, onUseCurrentLocation, l
     );
   }
 
-  const isFavorite = StorageService.isFavorite(weather.name);
-  const formatTemp = (temp: number): number => Math.round(temp);
+  const isFavorite = StorageService.isFavorite(getCoordinatesId(weather.location));
+  const formatTemp = (temp: number): string => formatTemperature(temp, units.system);
+  const formatLocalTime = (time: number): string =>
+    formatLocationTime(time, locale, weather.location.timezoneOffset, showViewerTime);
 
   return (
     <Card className="w-full max-w-md mx-auto">
       <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-        <CardTitle className="text-2xl font-bold">{weather.name}</CardTitle>
+        <CardTitle className="text-2xl font-bold">{weather.location.name}</CardTitle>
         <div className="flex items-center space-x-2">
           {onUseCurrentLocation && (
             <Button
@@ -59,7 +86,7 @@ export function WeatherCard({ weather, onToggleFavorite, onUseCurrentLocation, l
               onClick={onUseCurrentLocation}
               disabled={locationLoading}
               className="h-8 w-8"
-              title="Use current location"
+              title={t('weather.useCurrentLocationHint')}
             >
               {locationLoading ? (
                 <Loader2 className="h-4 w-4 animate-spin" />
@@ -71,7 +98,7 @@ export function WeatherCard({ weather, onToggleFavorite, onUseCurrentLocation, l
           <Button
             variant="ghost"
             size="icon"
-            onClick={() => onToggleFavorite(weather.name)}
+            onClick={() => onToggleFavorite(weather.location)}
             className="h-8 w-8"
           >
             <Heart
@@ -85,19 +112,19 @@ export function WeatherCard({ weather, onToggleFavorite, onUseCurrentLocation, l
       <CardContent className="space-y-4">
         <div className="flex items-center justify-between">
           <div>
-            <p className="text-4xl font-bold">{formatTemp(weather.main.temp)}°C</p>
+            <p className="text-4xl font-bold">{formatTemp(weather.temp)}</p>
             <p className="text-sm text-muted-foreground">
-              Feels like {formatTemp(weather.main.feels_like)}°C
+              {t('weather.feelsLike', { temp: formatTemp(weather.feelsLike) })}
             </p>
           </div>
           <div className="text-right">
             <img
-              src={`https://openweathermap.org/img/wn/${weather.weather[0].icon}@2x.png`}
-              alt={weather.weather[0].description}
+              src={getConditionIconUrl(weather.condition.icon, '2x')}
+              alt={weather.condition.description}
               className="w-16 h-16"
             />
             <Badge variant="secondary" className="mt-1">
-              {weather.weather[0].main}
+              {translateCondition(weather.condition.main, locale)}
             </Badge>
           </div>
         </div>
@@ -105,25 +132,37 @@ export function WeatherCard({ weather, onToggleFavorite, onUseCurrentLocation, l
         <div className="grid grid-cols-2 gap-4 text-sm">
           <div className="flex items-center space-x-2">
             <Wind className="h-4 w-4 text-muted-foreground" />
-            <span>{weather.wind.speed} m/s</span>
+            <span>{formatWindSpeed(weather.windSpeed, units, locale)}</span>
           </div>
           <div className="flex items-center space-x-2">
             <Droplets className="h-4 w-4 text-muted-foreground" />
-            <span>{weather.main.humidity}%</span>
+            <span>{formatPercent(weather.humidity, locale)}</span>
           </div>
           <div className="flex items-center space-x-2">
             <Eye className="h-4 w-4 text-muted-foreground" />
-            <span>{weather.visibility / 1000} km</span>
+            <span>{formatVisibility(weather.visibility, units.system, locale)}</span>
           </div>
           <div className="flex items-center space-x-2">
             <Thermometer className="h-4 w-4 text-muted-foreground" />
-            <span>{weather.main.pressure} hPa</span>
+            <span>{formatPressure(weather.pressure, units.pressure, locale)}</span>
+          </div>
+          <div className="flex items-center space-x-2" title={t('weather.sunrise')}>
+            <Sunrise className="h-4 w-4 text-muted-foreground" />
+            <span>{formatLocalTime(weather.sunrise)}</span>
+          </div>
+          <div className="flex items-center space-x-2" title={t('weather.sunset')}>
+            <Sunset className="h-4 w-4 text-muted-foreground" />
+            <span>{formatLocalTime(weather.sunset)}</span>
           </div>
         </div>
 
         <div className="text-sm text-muted-foreground">
-          <p className="capitalize">{weather.weather[0].description}</p>
-          <p>High: {formatTemp(weather.main.temp_max)}°C / Low: {formatTemp(weather.main.temp_min)}°C</p>
+          <p className="capitalize">{weather.condition.description}</p>
+          <p>{t('weather.highLow', { high: formatTemp(weather.tempMax), low: formatTemp(weather.tempMin) })}</p>
+          <p className="text-xs">
+            {t('weather.updated', { time: formatLocalTime(weather.observedAt) })}
+            <RefreshingIndicator isRefreshing={isRefreshing} locale={locale} className="ml-2 align-middle" />
+          </p>
         </div>
       </CardContent>
     </Card>
@@ -1,3 +1,4 @@
+import { useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -15,74 +16,90 @@ import {
   Eye, 
   Loader2,
   Cloud,
-  Gauge
+  Gauge,
+  ChevronDown,
+  Sunrise,
+  Sunset
 } from "lucide-react";
 import { OfflineWarning } from "./OfflineWarning";
-import { StorageService } from "@/lib/storage";
-import { useOfflineWeatherData } from "@/lib/offlineWeatherHooks";
-import type { ForecastData } from "@/lib/weatherService";
+import { AirQualityCard } from "./AirQualityCard";
+import { HourlyForecast } from "./HourlyForecast";
+import { DaySummaryDetails } from "./DaySummaryDetails";
+import { StorageService, type FavoritePlace } from "@/lib/storage";
+import { getCoordinatesId } from "@/lib/geo";
+import { useOfflineWeatherDataByCoords } from "@/lib/offlineWeatherHooks";
+import { useAirQuality } from "@/lib/weatherHooks";
+import { getWeatherErrorMessage } from "@/lib/weatherErrors";
+import { getConditionIconUrl } from "@/lib/weatherService";
+import {
+  formatPressure,
+  formatTemperature,
+  formatVisibility,
+  formatWindSpeed,
+  type UnitPreferences,
+} from "@/lib/units";
+import {
+  formatDayName,
+  formatLocationTime,
+  formatPercent,
+  getTranslator,
+  translateCondition,
+  type Locale,
+} from "@/lib/i18n";
+import { getDailySummaries } from "@/lib/forecastAggregation";
 
 interface WeatherModalProps {
   isOpen: boolean;
   onClose: () => void;
-  cityName: string;
-  onToggleFavorite?: (city: string) => void;
+  location: FavoritePlace;
+  // Shown in place of the name, which then follows it
+  nickname?: string;
+  units: UnitPreferences;
+  locale: Locale;
+  showViewerTime?: boolean;
+  onToggleFavorite?: (place: FavoritePlace) => void;
 }
 
-export function WeatherModal({ isOpen, onClose, cityName, onToggleFavorite }: WeatherModalProps) {
+export function WeatherModal({
+  isOpen,
+  onClose,
+  location,
+  nickname,
+  units,
+  locale,
+  showViewerTime = false,
+  onToggleFavorite,
+}: WeatherModalProps) {
+  const [expandedDay, setExpandedDay] = useState<string | null>(null);
+
   // Use offline weather hook instead of manual fetching
   const { 
     currentWeather, 
     forecast, 
     isLoading: loading, 
     error, 
-    isOffline, 
+    connectivity, 
     isCachedData, 
     cacheAge 
-  } = useOfflineWeatherData(isOpen ? cityName : null);
-
-  const formatTemp = (temp: number): number => Math.round(temp);
-
-  const isFavorite = currentWeather ? StorageService.isFavorite(currentWeather.name) : false;
-
-  // Group forecast by day
-  const getDailyForecasts = () => {
-    if (!forecast?.list) return [];
-    
-    const dailyForecasts = forecast.list.reduce((acc: Record<string, typeof forecast.list>, item) => {
-      const date = new Date(item.dt * 1000).toDateString();
-      if (!acc[date]) {
-        acc[date] = [];
-      }
-      acc[date].push(item);
-      return acc;
-    }, {});
-
-    return Object.entries(dailyForecasts).slice(0, 5);
-  };
-
-  const getDayName = (dateString: string): string => {
-    const date = new Date(dateString);
-    const today = new Date().toDateString();
-    const tomorrow = new Date(Date.now() + 86400000).toDateString();
-    
-    if (dateString === today) return 'Today';
-    if (dateString === tomorrow) return 'Tomorrow';
-    
-    return date.toLocaleDateString('en-US', { weekday: 'short' });
-  };
-
-  const getDayStats = (dayForecasts: ForecastData['list']) => {
-    const temps = dayForecasts.map(f => f.main.temp);
-    const conditions = dayForecasts[Math.floor(dayForecasts.length / 2)];
-    
-    return {
-      high: Math.max(...temps),
-      low: Math.min(...temps),
-      condition: conditions.weather[0],
-      icon: conditions.weather[0].icon
-    };
-  };
+  } = useOfflineWeatherDataByCoords(isOpen ? location : null, units.system, locale);
+
+  const airQuality = useAirQuality(
+    currentWeather ? { lat: currentWeather.location.lat, lon: currentWeather.location.lon } : null
+  );
+
+  const t = getTranslator(locale);
+
+  const formatTemp = (temp: number, showUnit = true): string =>
+    formatTemperature(temp, units.system, showUnit);
+
+  const isFavorite = StorageService.isFavorite(getCoordinatesId(location));
+
+  // Times are shown on the city's own clock
+  const timezoneOffset = forecast?.location.timezoneOffset ?? currentWeather?.location.timezoneOffset ?? 0;
+  const formatLocalTime = (time: number): string =>
+    formatLocationTime(time, locale, timezoneOffset, showViewerTime);
+
+  const days = forecast ? getDailySummaries(forecast, 5) : [];
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -91,13 +108,14 @@ export function WeatherModal({ isOpen, onClose, cityName, onToggleFavorite }: We
           <DialogTitle className="flex items-center">
             <span className="flex items-center space-x-2">
               <Cloud className="h-5 w-5 text-blue-600" />
-              <span>{cityName}</span>
+              <span>{nickname ?? location.name}</span>
+              {nickname && <span className="text-sm font-normal text-muted-foreground">{location.name}</span>}
             </span>
-            {currentWeather && onToggleFavorite && (
+            {onToggleFavorite && (
               <Button
                 variant="ghost"
                 size="icon"
-                onClick={() => onToggleFavorite(currentWeather.name)}
+                onClick={() => onToggleFavorite(location)}
                 className="h-8 w-8"
               >
                 <Heart
@@ -112,9 +130,11 @@ export function WeatherModal({ isOpen, onClose, cityName, onToggleFavorite }: We
 
         {/* Offline Warning */}
         <OfflineWarning 
-          isOffline={isOffline}
+          connectivity={connectivity}
           isCachedData={isCachedData}
           cacheAge={cacheAge}
+          unitSystem={units.system}
+          locale={locale}
           className="mb-4"
         />
 
@@ -122,18 +142,18 @@ export function WeatherModal({ isOpen, onClose, cityName, onToggleFavorite }: We
           <div className="flex items-center justify-center py-12">
             <div className="flex flex-col items-center space-y-2">
               <Loader2 className="h-8 w-8 animate-spin text-blue-600" />
-              <p className="text-sm text-muted-foreground">Loading weather data...</p>
+              <p className="text-sm text-muted-foreground">{t('weather.loading')}</p>
             </div>
           </div>
         ) : error ? (
           <div className="text-center py-8">
-            <p className="text-red-600">{error.message || 'An error occurred'}</p>
+            <p className="text-red-600">{getWeatherErrorMessage(error, location.name, locale) || t('weather.genericError')}</p>
           </div>
         ) : currentWeather ? (
           <Tabs defaultValue="current" className="w-full">
             <TabsList className="grid w-full grid-cols-2">
-              <TabsTrigger value="current">Current</TabsTrigger>
-              <TabsTrigger value="forecast">Forecast</TabsTrigger>
+              <TabsTrigger value="current">{t('tabs.current')}</TabsTrigger>
+              <TabsTrigger value="forecast">{t('tabs.forecast')}</TabsTrigger>
             </TabsList>
 
             <TabsContent value="current" className="space-y-4">
@@ -142,19 +162,19 @@ export function WeatherModal({ isOpen, onClose, cityName, onToggleFavorite }: We
                 <CardContent className="p-4 space-y-4">
                   <div className="flex items-center justify-between">
                     <div>
-                      <p className="text-3xl font-bold">{formatTemp(currentWeather.main.temp)}°C</p>
+                      <p className="text-3xl font-bold">{formatTemp(currentWeather.temp)}</p>
                       <p className="text-sm text-muted-foreground">
-                        Feels like {formatTemp(currentWeather.main.feels_like)}°C
+                        {t('weather.feelsLike', { temp: formatTemp(currentWeather.feelsLike) })}
                       </p>
                     </div>
                     <div className="text-right">
                       <img
-                        src={`https://openweathermap.org/img/wn/${currentWeather.weather[0].icon}@2x.png`}
-                        alt={currentWeather.weather[0].description}
+                        src={getConditionIconUrl(currentWeather.condition.icon, '2x')}
+                        alt={currentWeather.condition.description}
                         className="w-16 h-16"
                       />
                       <Badge variant="secondary" className="mt-1">
-                        {currentWeather.weather[0].main}
+                        {translateCondition(currentWeather.condition.main, locale)}
                       </Badge>
                     </div>
                   </div>
@@ -162,66 +182,109 @@ export function WeatherModal({ isOpen, onClose, cityName, onToggleFavorite }: We
                   <div className="grid grid-cols-2 gap-4 text-sm">
                     <div className="flex items-center space-x-2">
                       <Wind className="h-4 w-4 text-muted-foreground" />
-                      <span>{currentWeather.wind.speed} m/s</span>
+                      <span>{formatWindSpeed(currentWeather.windSpeed, units, locale)}</span>
                     </div>
                     <div className="flex items-center space-x-2">
                       <Droplets className="h-4 w-4 text-muted-foreground" />
-                      <span>{currentWeather.main.humidity}%</span>
+                      <span>{formatPercent(currentWeather.humidity, locale)}</span>
                     </div>
                     <div className="flex items-center space-x-2">
                       <Eye className="h-4 w-4 text-muted-foreground" />
-                      <span>{currentWeather.visibility / 1000} km</span>
+                      <span>{formatVisibility(currentWeather.visibility, units.system, locale)}</span>
                     </div>
                     <div className="flex items-center space-x-2">
                       <Gauge className="h-4 w-4 text-muted-foreground" />
-                      <span>{currentWeather.main.pressure} hPa</span>
+                      <span>{formatPressure(currentWeather.pressure, units.pressure, locale)}</span>
+                    </div>
+                    <div className="flex items-center space-x-2" title={t('weather.sunrise')}>
+                      <Sunrise className="h-4 w-4 text-muted-foreground" />
+                      <span>{formatLocalTime(currentWeather.sunrise)}</span>
+                    </div>
+                    <div className="flex items-center space-x-2" title={t('weather.sunset')}>
+                      <Sunset className="h-4 w-4 text-muted-foreground" />
+                      <span>{formatLocalTime(currentWeather.sunset)}</span>
                     </div>
                   </div>
 
                   <div className="text-sm text-muted-foreground">
-                    <p className="capitalize">{currentWeather.weather[0].description}</p>
-                    <p>High: {formatTemp(currentWeather.main.temp_max)}°C / Low: {formatTemp(currentWeather.main.temp_min)}°C</p>
+                    <p className="capitalize">{currentWeather.condition.description}</p>
+                    <p>
+                      {t('weather.highLow', {
+                        high: formatTemp(currentWeather.tempMax),
+                        low: formatTemp(currentWeather.tempMin),
+                      })}
+                    </p>
+                    <p className="text-xs">{t('weather.updated', { time: formatLocalTime(currentWeather.observedAt) })}</p>
                   </div>
                 </CardContent>
               </Card>
+
+              <AirQualityCard
+                airQuality={airQuality.data}
+                loading={airQuality.isLoading}
+                locale={locale}
+                timezoneOffset={timezoneOffset}
+              />
             </TabsContent>
 
             <TabsContent value="forecast" className="space-y-4">
               {forecast && (
                 <Card>
                   <CardHeader>
-                    <CardTitle className="text-lg">5-Day Forecast</CardTitle>
+                    <CardTitle className="text-lg">{t('forecast.title')}</CardTitle>
                   </CardHeader>
                   <CardContent className="p-4">
                     <div className="space-y-3">
-                      {getDailyForecasts().map(([date, dayForecasts]) => {
-                        const stats = getDayStats(dayForecasts);
+                      {days.map((day) => {
+                        const dayName = formatDayName(day.time, locale, timezoneOffset);
+                        const isExpanded = expandedDay === day.date;
                         
                         return (
-                          <div
-                            key={date}
-                            className="flex items-center justify-between p-3 rounded-lg border"
-                          >
-                            <div className="flex items-center space-x-4">
-                              <span className="font-medium min-w-[60px] text-sm">
-                                {getDayName(date)}
-                              </span>
-                              <img
-                                src={`https://openweathermap.org/img/wn/${stats.icon}.png`}
-                                alt={stats.condition.description}
-                                className="w-8 h-8"
-                              />
-                              <div className="flex flex-col">
-                                <Badge variant="outline" className="text-xs mb-1">
-                                  {stats.condition.main}
-                                </Badge>
+                          <div key={day.date} className="rounded-lg border">
+                            <button
+                              type="button"
+                              onClick={() => setExpandedDay(isExpanded ? null : day.date)}
+                              aria-expanded={isExpanded}
+                              aria-label={t('forecast.showHours', { day: dayName })}
+                              className="flex w-full items-center justify-between p-3 text-left rounded-lg hover:bg-muted/50 transition-colors"
+                            >
+                              <div className="flex items-center space-x-4">
+                                <span className="font-medium min-w-[60px] text-sm">
+                                  {dayName}
+                                </span>
+                                <img
+                                  src={getConditionIconUrl(day.condition.icon)}
+                                  alt={day.condition.description}
+                                  className="w-8 h-8"
+                                />
+                                <div className="flex flex-col">
+                                  <Badge variant="outline" className="text-xs mb-1">
+                                    {translateCondition(day.condition.main, locale)}
+                                  </Badge>
+                                </div>
                               </div>
-                            </div>
                             
-                            <div className="flex items-center space-x-2 text-right text-sm">
-                              <span className="font-semibold">{formatTemp(stats.high)}°</span>
-                              <span className="text-muted-foreground">{formatTemp(stats.low)}°</span>
-                            </div>
+                              <div className="flex items-center space-x-2 text-right text-sm">
+                                <span className="font-semibold">{formatTemp(day.high, false)}</span>
+                                <span className="text-muted-foreground">{formatTemp(day.low, false)}</span>
+                                <ChevronDown
+                                  className={`h-4 w-4 text-muted-foreground transition-transform ${isExpanded ? "rotate-180" : ""}`}
+                                />
+                              </div>
+                            </button>
+
+                            {isExpanded && (
+                              <div className="px-3 pt-3 border-t space-y-3">
+                                <DaySummaryDetails summary={day} units={units} locale={locale} />
+                                <HourlyForecast
+                                  items={day.items}
+                                  units={units}
+                                  locale={locale}
+                                  timezoneOffset={timezoneOffset}
+                                  showViewerTime={showViewerTime}
+                                />
+                              </div>
+                            )}
                           </div>
                         );
                       })}
@@ -0,0 +1,48 @@
+import type { AirQualityLevel, AirQualityReading } from './weatherService';
+import { getLocalDateKey } from './localTime';
+
+export const AIR_QUALITY_LEVELS: AirQualityLevel[] = [1, 2, 3, 4, 5];
+
+export interface DailyAirQuality {
+  time: number; // first reading of the day, unix seconds
+  aqi: AirQualityLevel; // worst level reached that day
+}
+
+export function isAirQualityLevel(value: unknown): value is AirQualityLevel {
+  return AIR_QUALITY_LEVELS.some(level => level === value);
+}
+
+/**
+ * Map the European AQI (0-100+, used by Open-Meteo) onto the 1-5 index.
+ * Its "very poor" and "extremely poor" bands both become 5.
+ */
+export function fromEuropeanAqi(europeanAqi: number): AirQualityLevel {
+  if (europeanAqi <= 20) return 1;
+  if (europeanAqi <= 40) return 2;
+  if (europeanAqi <= 60) return 3;
+  if (europeanAqi <= 80) return 4;
+  return 5;
+}
+
+/**
+ * Collapse hourly forecast readings into one entry per day at the location
+ * (`offset` seconds east of UTC), skipping today
+ */
+export function getDailyAirQuality(forecast: AirQualityReading[], offset: number, days = 4): DailyAirQuality[] {
+  const today = getLocalDateKey(Math.floor(Date.now() / 1000), offset);
+  const byDay = new Map<string, DailyAirQuality>();
+
+  forecast.forEach(reading => {
+    const day = getLocalDateKey(reading.time, offset);
+    if (day === today) return;
+
+    const entry = byDay.get(day);
+    if (!entry) {
+      byDay.set(day, { time: reading.time, aqi: reading.aqi });
+    } else if (reading.aqi > entry.aqi) {
+      entry.aqi = reading.aqi;
+    }
+  });
+
+  return [...byDay.values()].slice(0, days);
+}
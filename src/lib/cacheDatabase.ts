@@ -0,0 +1,110 @@
+// Thin promise wrapper around the IndexedDB database that backs the offline
+// weather cache
+
+const DB_NAME = 'weathery-cache';
+// Version 1 created the entry store; version 2 added the quarantine store
+const DB_VERSION = 2;
+const ENTRY_STORE = 'entries';
+// Entries that couldn't be upgraded, kept for inspection instead of deleted
+const QUARANTINE_STORE = 'quarantine';
+
+export interface CacheRecord<T = unknown> {
+  key: string;
+  // Lowercased city the entry belongs to, for looking entries up by name;
+  // null for entries that aren't tied to a named city
+  cityName: string | null;
+  data: T;
+  size: number; // approximate, in bytes
+  // When the entry was last written, ms since epoch. Restoring it doesn't
+  // count, since every entry is restored on startup.
+  lastAccessed: number;
+}
+
+export interface QuarantinedRecord extends CacheRecord {
+  reason: string;
+  quarantinedAt: number;
+}
+
+/**
+ * Seeds a freshly created store. The returned callback runs once the
+ * database has opened successfully.
+ */
+export type CacheStoreSeeder = (store: IDBObjectStore) => (() => void) | void;
+
+export function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+  });
+}
+
+/**
+ * Open the database, creating or upgrading its stores as needed. `onClose`
+ * runs when the connection closes without being asked to, so the caller can
+ * stop handing it out.
+ */
+export function openCacheDatabase(seed?: CacheStoreSeeder, onClose?: () => void): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+
+    let afterOpen: (() => void) | void;
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        const store = db.createObjectStore(ENTRY_STORE, { keyPath: 'key' });
+        afterOpen = seed?.(store);
+      }
+      if (event.oldVersion < 2) {
+        db.createObjectStore(QUARANTINE_STORE, { keyPath: 'key' });
+      }
+    };
+    request.onsuccess = () => {
+      const db = request.result;
+      // Let a newer version open in another tab instead of blocking it
+      db.onversionchange = () => {
+        db.close();
+        onClose?.();
+      };
+      // The browser can also close it, e.g. when the site's data is cleared
+      db.onclose = () => onClose?.();
+      afterOpen?.();
+      resolve(db);
+    };
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function getEntryStore(db: IDBDatabase, mode: IDBTransactionMode): IDBObjectStore {
+  return db.transaction(ENTRY_STORE, mode).objectStore(ENTRY_STORE);
+}
+
+/**
+ * Move an entry into the quarantine store in a single transaction
+ */
+export function quarantineRecord(db: IDBDatabase, record: CacheRecord, reason: string): Promise<void> {
+  const transaction = db.transaction([ENTRY_STORE, QUARANTINE_STORE], 'readwrite');
+  const quarantined: QuarantinedRecord = { ...record, reason, quarantinedAt: Date.now() };
+  transaction.objectStore(QUARANTINE_STORE).put(quarantined);
+  transaction.objectStore(ENTRY_STORE).delete(record.key);
+  return transactionDone(transaction);
+}
+
+/**
+ * Approximate storage cost of a value, based on its serialized length
+ */
+export function estimateSize(value: unknown): number {
+  return JSON.stringify(value).length * 2;
+}
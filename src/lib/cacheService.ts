@@ -1,76 +1,409 @@
+import { hashKey, type QueryKey } from '@tanstack/react-query';
 import type { CurrentWeather, ForecastData } from './weatherService';
+import { UNIT_SYSTEMS, type UnitSystem } from './units';
+import { LOCALES, type Locale } from './i18n';
+import { validateAirQualityData, validateCurrentWeather, validateForecastData } from './weatherValidation';
+import {
+  estimateSize,
+  getEntryStore,
+  openCacheDatabase,
+  quarantineRecord,
+  requestToPromise,
+  transactionDone,
+  type CacheRecord,
+} from './cacheDatabase';
+import { StorageService } from './storage';
+import { upgrade, wrap, type Envelope, type StorageSchema, type UpgradeResult } from './storageSchema';
+import { describeWeatherKey, weatherKeys, type PersistedQueryKind } from './weatherKeys';
+import { getCoordinatesId, type Coordinates } from './geo';
+import { broadcastToTabs } from './tabSync';
+import { getConnectivity } from './connectivity';
 
-export interface CachedWeatherData {
+/**
+ * A successful React Query result, persisted so it survives reloads and can
+ * be shown offline
+ */
+export interface PersistedQuery {
+  queryKey: QueryKey;
+  data: unknown;
+  dataUpdatedAt: number; // ms since epoch
+}
+
+/**
+ * One persisted query as listed in the storage panel
+ */
+export interface CachedEntry {
+  recordKey: string;
+  queryKey: QueryKey;
+  kind: PersistedQueryKind;
+  dataUpdatedAt: number; // ms since epoch
+  size: number; // approximate, in bytes
+}
+
+/**
+ * Every persisted query for one place, across unit systems and languages
+ */
+export interface CachedLocation {
+  // Lowercased city name, or rounded `lat,lon` for coordinate lookups
+  id: string;
+  name: string;
+  entries: CachedEntry[];
+  size: number;
+  // The oldest entry's, so the age shown is that of the stalest data
+  dataUpdatedAt: number;
+}
+
+// Entries written before the query cache was persisted held current weather
+// and forecast together, one per city, unit system and language (e.g.
+// `weather-cache-metric-en-london`)
+interface LegacyCachedWeather {
   currentWeather: CurrentWeather;
   forecast: ForecastData;
   timestamp: number;
-  cityName: string;
 }
 
-const CACHE_KEY_PREFIX = 'weather-cache-';
+const QUERY_KEY_PREFIX = 'query:';
+const LEGACY_KEY_PREFIX = 'weather-cache-';
+const LEGACY_AIR_QUALITY_KEY_PREFIX = `${LEGACY_KEY_PREFIX}air-`;
 const CACHE_EXPIRY_MS = 30 * 60 * 1000; // 30 minutes
+// Persisted queries older than this are dropped instead of restored
+export const CACHE_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+// Entries beyond this are evicted, least recently written first
+export const CACHE_BUDGET_BYTES = 20 * 1024 * 1024;
+
+const getQueryRecordKey = (queryKey: QueryKey): string => `${QUERY_KEY_PREFIX}${hashKey(queryKey)}`;
+
+const parseLegacyKey = (key: string): { cityName: string; units: UnitSystem; lang: Locale } | null => {
+  if (!key.startsWith(LEGACY_KEY_PREFIX)) return null;
+
+  const rest = key.slice(LEGACY_KEY_PREFIX.length);
+  const unit = UNIT_SYSTEMS.find(({ value }) => rest.startsWith(`${value}-`));
+  if (!unit) return null;
+
+  const afterUnit = rest.slice(unit.value.length + 1);
+  const locale = LOCALES.find(({ value }) => afterUnit.startsWith(`${value}-`));
+  if (!locale) return null;
+
+  return { cityName: afterUnit.slice(locale.value.length + 1), units: unit.value, lang: locale.value };
+};
+
+const validateQueryData = (queryKey: QueryKey, data: unknown): unknown => {
+  switch (describeWeatherKey(queryKey)?.kind) {
+    case 'current':
+      return validateCurrentWeather(data, 'Weather cache');
+    case 'forecast':
+      return validateForecastData(data, 'Weather cache');
+    case 'air-quality':
+      return validateAirQualityData(data, 'Air quality cache');
+    default:
+      throw new Error('not a persisted weather query');
+  }
+};
+
+const QUERY_CACHE_SCHEMA: StorageSchema<PersistedQuery> = {
+  version: 1,
+  migrations: {},
+  validate: data => {
+    const entry = data as Partial<PersistedQuery> | null;
+    if (!Array.isArray(entry?.queryKey)) {
+      throw new Error('missing query key');
+    }
+    if (typeof entry.dataUpdatedAt !== 'number') {
+      throw new Error('missing update time');
+    }
+    return {
+      queryKey: entry.queryKey,
+      data: validateQueryData(entry.queryKey, entry.data),
+      dataUpdatedAt: entry.dataUpdatedAt,
+    };
+  },
+};
+
+const LEGACY_WEATHER_SCHEMA: StorageSchema<LegacyCachedWeather> = {
+  version: 1,
+  migrations: {
+    0: data => data,
+  },
+  validate: data => {
+    const entry = data as Partial<LegacyCachedWeather> | null;
+    if (typeof entry?.timestamp !== 'number') {
+      throw new Error('missing timestamp');
+    }
+    return {
+      currentWeather: validateCurrentWeather(entry.currentWeather, 'Weather cache'),
+      forecast: validateForecastData(entry.forecast, 'Weather cache'),
+      timestamp: entry.timestamp,
+    };
+  },
+};
+
+/**
+ * Split a legacy city entry into the two queries it stands for. Coordinate
+ * entries were stored under a `coords_<lat>_<lon>` city name.
+ */
+const splitLegacyRecord = (record: CacheRecord): PersistedQuery[] | null => {
+  const parsed = parseLegacyKey(record.key);
+  if (!parsed) return null;
+
+  const { units, lang } = parsed;
+  const { data } = upgrade(LEGACY_WEATHER_SCHEMA, record.data);
+  const coords = parsed.cityName.match(/^coords_(-?[\d.]+)_(-?[\d.]+)$/);
+  const [currentKey, forecastKey] = coords
+    ? [
+        weatherKeys.currentByCoords(Number(coords[1]), Number(coords[2]), units, lang),
+        weatherKeys.forecastByCoords(Number(coords[1]), Number(coords[2]), units, lang),
+      ]
+    : [
+        weatherKeys.currentByCity(parsed.cityName, units, lang),
+        weatherKeys.forecastByCity(parsed.cityName, units, lang),
+      ];
+
+  return [
+    { queryKey: currentKey, data: data.currentWeather, dataUpdatedAt: data.timestamp },
+    { queryKey: forecastKey, data: data.forecast, dataUpdatedAt: data.timestamp },
+  ];
+};
+
+// Entries are listed as stored, without upgrading; migrateEntries has
+// already brought them up to date on startup
+const readStoredQuery = (record: CacheRecord): PersistedQuery | null => {
+  const query = (record.data as Partial<Envelope<Partial<PersistedQuery>>> | null)?.data;
+  if (!Array.isArray(query?.queryKey) || typeof query.dataUpdatedAt !== 'number') return null;
+  return { queryKey: query.queryKey, data: query.data, dataUpdatedAt: query.dataUpdatedAt };
+};
+
+const getReportedLocation = (data: unknown): (Coordinates & { name: string }) | null => {
+  const location = (data as Partial<CurrentWeather> | null)?.location;
+  return typeof location?.name === 'string' && typeof location.lat === 'number' && typeof location.lon === 'number'
+    ? location
+    : null;
+};
+
+/**
+ * Group persisted queries by the place they are for. Air quality is only
+ * keyed by coordinates, so it joins the place whose weather reports them.
+ */
+const groupByLocation = (records: CacheRecord[]): CachedLocation[] => {
+  const locations = new Map<string, CachedLocation>();
+  const idsByCoordinates = new Map<string, string>();
+  const airQuality: { entry: CachedEntry; coords: Coordinates }[] = [];
+
+  const add = (id: string, name: string, entry: CachedEntry) => {
+    const location = locations.get(id) ?? { id, name, entries: [], size: 0, dataUpdatedAt: entry.dataUpdatedAt };
+    location.entries.push(entry);
+    location.size += entry.size;
+    location.dataUpdatedAt = Math.min(location.dataUpdatedAt, entry.dataUpdatedAt);
+    locations.set(id, location);
+  };
+
+  for (const record of records) {
+    const query = readStoredQuery(record);
+    const info = query && describeWeatherKey(query.queryKey);
+    if (!query || !info) continue;
+
+    const entry: CachedEntry = {
+      recordKey: record.key,
+      queryKey: query.queryKey,
+      kind: info.kind,
+      dataUpdatedAt: query.dataUpdatedAt,
+      size: record.size,
+    };
+    if (info.kind === 'air-quality') {
+      if (info.coords) airQuality.push({ entry, coords: info.coords });
+      continue;
+    }
+
+    const id = info.city ?? (info.coords && getCoordinatesId(info.coords));
+    if (!id) continue;
+    const reported = getReportedLocation(query.data);
+    add(id, reported?.name ?? id, entry);
+    if (reported) idsByCoordinates.set(getCoordinatesId(reported), id);
+  }
+
+  airQuality.forEach(({ entry, coords }) => {
+    const id = idsByCoordinates.get(getCoordinatesId(coords)) ?? getCoordinatesId(coords);
+    add(id, locations.get(id)?.name ?? id, entry);
+  });
+
+  return [...locations.values()];
+};
+
+// Move entries left in localStorage by earlier versions into the new store,
+// where migrateEntries converts them. Entries whose keys can't be parsed are
+// dropped along with the rest.
+const migrateLocalStorage = (store: IDBObjectStore): (() => void) => {
+  const migratedKeys: string[] = [];
+  try {
+    for (let i = 0; i < localStorage.length; i++) {
+      const key = localStorage.key(i);
+      if (!key?.startsWith(LEGACY_KEY_PREFIX)) continue;
+      migratedKeys.push(key);
+
+      const parsed = parseLegacyKey(key);
+      if (!parsed) continue;
+
+      const stored = localStorage.getItem(key);
+      if (!stored) continue;
+      const data: unknown = JSON.parse(stored);
+      const record: CacheRecord = {
+        key,
+        cityName: parsed.cityName,
+        data,
+        size: stored.length * 2,
+        lastAccessed: Date.now(),
+      };
+      store.put(record);
+    }
+  } catch (error) {
+    console.error('Error migrating cached weather data:', error);
+  }
+
+  return () => migratedKeys.forEach(key => localStorage.removeItem(key));
+};
+
+let database: Promise<IDBDatabase> | null = null;
+
+const getDatabase = (): Promise<IDBDatabase> => {
+  if (!database) {
+    const opened: Promise<IDBDatabase> = openCacheDatabase(migrateLocalStorage, () => {
+      // Closed connections can't be used again; open a new one on next use
+      if (database === opened) database = null;
+    }).catch(error => {
+      // Let the next call try again
+      database = null;
+      throw error;
+    });
+    database = opened;
+  }
+  return database;
+};
+
+const isQuotaExceeded = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'QuotaExceededError';
+
+/**
+ * Write a record and wait for it to be committed. Running out of quota
+ * usually only shows as the transaction aborting after the put itself has
+ * succeeded, so the put alone would report a lost write as saved.
+ */
+const putRecord = async (db: IDBDatabase, record: CacheRecord): Promise<void> => {
+  const store = getEntryStore(db, 'readwrite');
+  await Promise.all([requestToPromise(store.put(record)), transactionDone(store.transaction)]);
+};
+
+const getAllRecords = async (db: IDBDatabase): Promise<CacheRecord[]> =>
+  requestToPromise<CacheRecord[]>(getEntryStore(db, 'readonly').getAll());
+
+const setAside = async (db: IDBDatabase, record: CacheRecord, reason: string): Promise<void> => {
+  await quarantineRecord(db, record, reason);
+  StorageService.addToQuarantine(record.key, reason);
+};
+
+/**
+ * Upgrade a stored entry to its schema's current version, rewriting it when
+ * it was out of date and quarantining it when it can't be upgraded
+ */
+const upgradeRecord = async <T>(record: CacheRecord, schema: StorageSchema<T>): Promise<T | null> => {
+  const db = await getDatabase();
+
+  let result: UpgradeResult<T>;
+  try {
+    result = upgrade(schema, record.data);
+  } catch (error) {
+    await setAside(db, record, error instanceof Error ? error.message : String(error));
+    return null;
+  }
+
+  if (result.upgraded) {
+    const data = wrap(schema, result.data);
+    const updated: CacheRecord = { ...record, data, size: estimateSize(data) };
+    await requestToPromise(getEntryStore(db, 'readwrite').put(updated));
+  }
+  return result.data;
+};
 
 export class CacheService {
   /**
-   * Store weather data in localStorage with timestamp
+   * Persist a successful weather query
    */
-  static setCachedWeatherData(cityName: string, currentWeather: CurrentWeather, forecast: ForecastData): void {
+  static async setCachedQuery(queryKey: QueryKey, data: unknown, dataUpdatedAt: number): Promise<void> {
+    const info = describeWeatherKey(queryKey);
+    if (!info) return;
+
     try {
-      const cacheData: CachedWeatherData = {
-        currentWeather,
-        forecast,
-        timestamp: Date.now(),
-        cityName: cityName.toLowerCase(),
-      };
-      
-      const key = `${CACHE_KEY_PREFIX}${cityName.toLowerCase()}`;
-      localStorage.setItem(key, JSON.stringify(cacheData));
+      const entry: PersistedQuery = { queryKey, data, dataUpdatedAt };
+      await this.writeRecord(getQueryRecordKey(queryKey), info.city, wrap(QUERY_CACHE_SCHEMA, entry));
     } catch (error) {
       console.error('Error caching weather data:', error);
     }
   }
 
   /**
-   * Get cached weather data for a city
+   * Every persisted query that is still within the maximum age. Entries can
+   * be corrupted or predate the current models; anything that doesn't
+   * upgrade and validate is quarantined rather than restored.
    */
-  static getCachedWeatherData(cityName: string): CachedWeatherData | null {
+  static async getCachedQueries(): Promise<PersistedQuery[]> {
     try {
-      const key = `${CACHE_KEY_PREFIX}${cityName.toLowerCase()}`;
-      const cached = localStorage.getItem(key);
-      
-      if (!cached) return null;
-      
-      const data: CachedWeatherData = JSON.parse(cached);
-      return data;
+      const db = await getDatabase();
+      const queries: PersistedQuery[] = [];
+      const expired: string[] = [];
+
+      for (const record of await getAllRecords(db)) {
+        if (!record.key.startsWith(QUERY_KEY_PREFIX)) continue;
+
+        const query = await upgradeRecord(record, QUERY_CACHE_SCHEMA);
+        if (!query) continue;
+        if (Date.now() - query.dataUpdatedAt > CACHE_MAX_AGE_MS) {
+          expired.push(record.key);
+        } else {
+          queries.push(query);
+        }
+      }
+
+      if (expired.length > 0) {
+        const store = getEntryStore(db, 'readwrite');
+        expired.forEach(key => store.delete(key));
+        await transactionDone(store.transaction);
+      }
+      return queries;
     } catch (error) {
       console.error('Error getting cached weather data:', error);
-      return null;
+      return [];
     }
   }
 
   /**
    * Check if cached data is still fresh (not expired)
    */
-  static isCacheDataFresh(cachedData: CachedWeatherData): boolean {
+  static isCacheDataFresh(dataUpdatedAt: number): boolean {
     const now = Date.now();
-    return (now - cachedData.timestamp) < CACHE_EXPIRY_MS;
+    return (now - dataUpdatedAt) < CACHE_EXPIRY_MS;
   }
 
   /**
    * Get the age of cached data in minutes
    */
-  static getCacheAge(cachedData: CachedWeatherData): number {
+  static getCacheAge(dataUpdatedAt: number): number {
     const now = Date.now();
-    return Math.floor((now - cachedData.timestamp) / (1000 * 60));
+    return Math.floor((now - dataUpdatedAt) / (1000 * 60));
   }
 
   /**
-   * Remove cached data for a specific city
+   * Remove cached data for a specific city in every unit system and language
    */
-  static removeCachedData(cityName: string): void {
+  static async removeCachedData(cityName: string): Promise<void> {
     try {
-      const key = `${CACHE_KEY_PREFIX}${cityName.toLowerCase()}`;
-      localStorage.removeItem(key);
+      const db = await getDatabase();
+      const records = (await getAllRecords(db)).filter(record => record.cityName === cityName.toLowerCase());
+      const store = getEntryStore(db, 'readwrite');
+      records.forEach(record => store.delete(record.key));
+      await transactionDone(store.transaction);
+
+      const queryKeys = records
+        .map(record => readStoredQuery(record)?.queryKey)
+        .filter((queryKey): queryKey is QueryKey => queryKey !== undefined);
+      broadcastToTabs({ type: 'queries-removed', queryKeys });
     } catch (error) {
       console.error('Error removing cached data:', error);
     }
@@ -79,46 +412,167 @@ export class CacheService {
   /**
    * Get all cached cities
    */
-  static getAllCachedCities(): string[] {
+  static async getAllCachedCities(): Promise<string[]> {
     try {
-      const cities: string[] = [];
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key && key.startsWith(CACHE_KEY_PREFIX)) {
-          const cityName = key.replace(CACHE_KEY_PREFIX, '');
-          cities.push(cityName);
+      const db = await getDatabase();
+      const records = await getAllRecords(db);
+      const cities = new Set<string>();
+      records.forEach(record => {
+        if (record.cityName) {
+          cities.add(record.cityName);
         }
-      }
-      return cities;
+      });
+      return [...cities];
     } catch (error) {
       console.error('Error getting cached cities:', error);
       return [];
     }
   }
 
+  /**
+   * Every cached place with its entries, largest first
+   */
+  static async getCachedLocations(): Promise<CachedLocation[]> {
+    try {
+      const db = await getDatabase();
+      return groupByLocation(await getAllRecords(db)).sort((a, b) => b.size - a.size);
+    } catch (error) {
+      console.error('Error listing cached locations:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Delete specific entries, e.g. every entry of one cached location
+   */
+  static async removeCachedEntries(entries: CachedEntry[]): Promise<void> {
+    try {
+      const db = await getDatabase();
+      const store = getEntryStore(db, 'readwrite');
+      entries.forEach(entry => store.delete(entry.recordKey));
+      await transactionDone(store.transaction);
+
+      broadcastToTabs({ type: 'queries-removed', queryKeys: entries.map(entry => entry.queryKey) });
+    } catch (error) {
+      console.error('Error removing cached entries:', error);
+    }
+  }
+
   /**
    * Clear all cached weather data
    */
-  static clearAllCache(): void {
+  static async clearAllCache(): Promise<void> {
+    try {
+      const db = await getDatabase();
+      await requestToPromise(getEntryStore(db, 'readwrite').clear());
+      broadcastToTabs({ type: 'cache-cleared' });
+    } catch (error) {
+      console.error('Error clearing cache:', error);
+    }
+  }
+
+  /**
+   * Upgrade every cached entry to its current version, converting per-city
+   * entries from before the query cache was persisted and quarantining what
+   * can't be upgraded. Run once on startup.
+   */
+  static async migrateEntries(): Promise<void> {
     try {
-      const keysToRemove: string[] = [];
-      for (let i = 0; i < localStorage.length; i++) {
-        const key = localStorage.key(i);
-        if (key && key.startsWith(CACHE_KEY_PREFIX)) {
-          keysToRemove.push(key);
+      const db = await getDatabase();
+
+      for (const record of await getAllRecords(db)) {
+        if (record.key.startsWith(QUERY_KEY_PREFIX)) {
+          await upgradeRecord(record, QUERY_CACHE_SCHEMA);
+          continue;
+        }
+
+        // Legacy air quality entries were keyed by rounded coordinates that
+        // can't be mapped back to a query; they are simply refetched
+        if (record.key.startsWith(LEGACY_AIR_QUALITY_KEY_PREFIX)) {
+          await requestToPromise(getEntryStore(db, 'readwrite').delete(record.key));
+          continue;
+        }
+
+        let queries: PersistedQuery[] | null;
+        try {
+          queries = splitLegacyRecord(record);
+        } catch (error) {
+          await setAside(db, record, error instanceof Error ? error.message : String(error));
+          continue;
         }
+        if (!queries) {
+          await setAside(db, record, 'unrecognized cache key');
+          continue;
+        }
+
+        for (const query of queries) {
+          await this.setCachedQuery(query.queryKey, query.data, query.dataUpdatedAt);
+        }
+        await requestToPromise(getEntryStore(db, 'readwrite').delete(record.key));
       }
-      
-      keysToRemove.forEach(key => localStorage.removeItem(key));
     } catch (error) {
-      console.error('Error clearing cache:', error);
+      console.error('Error migrating cached weather data:', error);
     }
   }
 
   /**
-   * Check if the user is currently online
+   * Check if weather can currently be fetched, as judged by the connectivity
+   * monitor rather than the browser alone
    */
   static isOnline(): boolean {
-    return navigator.onLine;
+    return getConnectivity() !== 'offline';
+  }
+
+  /**
+   * Write an entry and bring the cache back under budget. If the browser
+   * itself runs out of quota, evict down to half the budget and retry once.
+   */
+  private static async writeRecord(key: string, cityName: string | null, data: unknown): Promise<void> {
+    const db = await getDatabase();
+    const record: CacheRecord = { key, cityName, data, size: estimateSize(data), lastAccessed: Date.now() };
+
+    try {
+      await putRecord(db, record);
+    } catch (error) {
+      if (!isQuotaExceeded(error)) throw error;
+      await this.evict(db, CACHE_BUDGET_BYTES / 2, key);
+      await putRecord(db, record);
+    }
+
+    await this.evict(db, CACHE_BUDGET_BYTES, key);
+  }
+
+  /**
+   * Delete the least recently written entries until the cache fits in
+   * `budget` bytes. Queries in use are refetched as they go stale, so this
+   * mostly removes places nobody has looked at in a while. Favorites, pinned
+   * locations and the entry just written are never evicted, so the cache may
+   * stay over budget when they alone exceed it.
+   */
+  private static async evict(db: IDBDatabase, budget: number, keepKey: string): Promise<void> {
+    const records = await requestToPromise<CacheRecord[]>(getEntryStore(db, 'readonly').getAll());
+    let total = records.reduce((sum, record) => sum + record.size, 0);
+    if (total <= budget) return;
+
+    const keptIds = new Set([
+      ...StorageService.getFavorites().map(favorite => favorite.id),
+      ...StorageService.getPinnedLocations(),
+    ]);
+    const keptKeys = new Set(
+      groupByLocation(records)
+        .filter(location => keptIds.has(location.id))
+        .flatMap(location => location.entries.map(entry => entry.recordKey))
+    );
+    const candidates = records
+      .filter(record => record.key !== keepKey && !keptKeys.has(record.key))
+      .sort((a, b) => a.lastAccessed - b.lastAccessed);
+
+    const store = getEntryStore(db, 'readwrite');
+    for (const record of candidates) {
+      if (total <= budget) break;
+      store.delete(record.key);
+      total -= record.size;
+    }
+    await transactionDone(store.transaction);
   }
-} 
\ No newline at end of file
+}
@@ -0,0 +1,173 @@
+import { useSyncExternalStore } from 'react';
+import { onlineManager } from '@tanstack/react-query';
+import { isWeatherApiError } from './weatherErrors';
+
+/**
+ * `degraded` means requests have started failing but the network still
+ * answers; `offline` means nothing can be fetched and stored data should be
+ * used instead
+ */
+export type ConnectivityState = 'online' | 'degraded' | 'offline';
+
+// A small static file of our own. Captive portals answer for it with their
+// login page, so it must also parse as the manifest to count.
+const PROBE_URL = `${import.meta.env.BASE_URL}manifest.webmanifest`;
+const PROBE_TIMEOUT_MS = 5000;
+// How often reachability is checked again while not fully online
+const RECHECK_INTERVAL_MS = 30 * 1000;
+// Failed requests older than this no longer count against the connection
+const FAILURE_WINDOW_MS = 2 * 60 * 1000;
+// This many failed requests within the window with none succeeding in between
+// is treated as being offline, e.g. during an outage of the weather provider
+const OFFLINE_FAILURE_THRESHOLD = 3;
+
+let browserOnline = navigator.onLine;
+let probeFailed = false;
+// When each request failed since the last one that succeeded
+let failureTimes: number[] = [];
+let pendingProbe: Promise<void> | null = null;
+let recheckTimer: ReturnType<typeof setInterval> | null = null;
+const listeners = new Set<() => void>();
+
+const computeState = (): ConnectivityState => {
+  if (!browserOnline || probeFailed) return 'offline';
+
+  const now = Date.now();
+  failureTimes = failureTimes.filter(time => now - time < FAILURE_WINDOW_MS);
+  if (failureTimes.length >= OFFLINE_FAILURE_THRESHOLD) return 'offline';
+  return failureTimes.length > 0 ? 'degraded' : 'online';
+};
+
+let state: ConnectivityState = computeState();
+
+const update = () => {
+  const next = computeState();
+  if (next !== state) {
+    state = next;
+    listeners.forEach(listener => listener());
+  }
+
+  // Keep checking until back online; the browser's own event covers the
+  // case where it knows there is no network
+  if (state !== 'online' && browserOnline) {
+    if (!recheckTimer) recheckTimer = setInterval(() => void checkConnectivity(), RECHECK_INTERVAL_MS);
+  } else if (recheckTimer) {
+    clearInterval(recheckTimer);
+    recheckTimer = null;
+  }
+};
+
+const probe = async (): Promise<boolean> => {
+  const controller = new AbortController();
+  const timeout = setTimeout(() => controller.abort(), PROBE_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(`${PROBE_URL}?probe=${Date.now()}`, {
+      cache: 'no-store',
+      signal: controller.signal,
+    });
+    if (!response.ok) return false;
+    const manifest = await response.json();
+    return typeof manifest?.name === 'string';
+  } catch {
+    return false;
+  } finally {
+    clearTimeout(timeout);
+  }
+};
+
+/**
+ * Failures that say something about the connection rather than the request
+ */
+const isConnectivityFailure = (error: unknown): boolean =>
+  isWeatherApiError(error)
+    ? error.category === 'network' || error.category === 'server' || error.category === 'invalid-response'
+    : error instanceof TypeError;
+
+export function getConnectivity(): ConnectivityState {
+  return state;
+}
+
+/**
+ * Listen for connectivity changes. Returns an unsubscribe function.
+ */
+export function subscribeToConnectivity(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+/**
+ * Probe reachability now. Concurrent calls share one probe.
+ */
+export function checkConnectivity(): Promise<void> {
+  if (!browserOnline) {
+    update();
+    return Promise.resolve();
+  }
+
+  if (!pendingProbe) {
+    pendingProbe = probe()
+      .then(reachable => {
+        probeFailed = !reachable;
+        update();
+      })
+      .finally(() => {
+        pendingProbe = null;
+      });
+  }
+  return pendingProbe;
+}
+
+/**
+ * Record a request that failed after its retries
+ */
+export function reportRequestFailure(error: unknown): void {
+  if (!isConnectivityFailure(error)) return;
+
+  failureTimes.push(Date.now());
+  update();
+  void checkConnectivity();
+}
+
+/**
+ * Record a request that succeeded, which proves the connection works
+ */
+export function reportRequestSuccess(): void {
+  if (failureTimes.length === 0 && !probeFailed) return;
+
+  failureTimes = [];
+  probeFailed = false;
+  update();
+}
+
+/**
+ * Follow the browser's online and offline events, probe once and let React
+ * Query pause its fetches whenever the monitor considers the app offline, so
+ * queries keep serving stored data instead of failing
+ */
+export function startConnectivityMonitor(): void {
+  window.addEventListener('online', () => {
+    browserOnline = true;
+    void checkConnectivity();
+  });
+  window.addEventListener('offline', () => {
+    browserOnline = false;
+    update();
+  });
+
+  onlineManager.setEventListener(setOnline => {
+    setOnline(state !== 'offline');
+    return subscribeToConnectivity(() => setOnline(state !== 'offline'));
+  });
+
+  void checkConnectivity();
+}
+
+/**
+ * Current connectivity state, re-rendering when it changes
+ */
+export function useConnectivity(): ConnectivityState {
+  return useSyncExternalStore(subscribeToConnectivity, getConnectivity);
+}
@@ -0,0 +1,39 @@
+import type { FavoriteGroup, FavoriteLocation } from './storage';
+
+export const PINNED_SECTION_ID = ':pinned';
+export const UNGROUPED_SECTION_ID = ':ungrouped';
+
+export interface FavoriteSection {
+  // One of the ids above or a group's id, which never start with a colon
+  id: string;
+  // Set for sections that show a user-defined group
+  group: FavoriteGroup | null;
+  favorites: FavoriteLocation[];
+}
+
+/**
+ * Split favorites into the sections the Favorites tab shows: pinned ones
+ * first, then ungrouped ones, then each group. Favorites keep the user's
+ * order within a section, and empty sections are left out.
+ */
+export function getFavoriteSections(favorites: FavoriteLocation[], groups: FavoriteGroup[]): FavoriteSection[] {
+  const unpinned = favorites.filter(favorite => !favorite.pinnedToTop);
+
+  return [
+    { id: PINNED_SECTION_ID, group: null, favorites: favorites.filter(favorite => favorite.pinnedToTop) },
+    { id: UNGROUPED_SECTION_ID, group: null, favorites: unpinned.filter(favorite => !favorite.groupId) },
+    ...groups.map(group => ({
+      id: group.id,
+      group,
+      favorites: unpinned.filter(favorite => favorite.groupId === group.id),
+    })),
+  ].filter(section => section.favorites.length > 0);
+}
+
+/**
+ * Favorites in the order the Favorites tab lists them, which is also the
+ * order they are refreshed in
+ */
+export function orderFavorites(favorites: FavoriteLocation[], groups: FavoriteGroup[]): FavoriteLocation[] {
+  return getFavoriteSections(favorites, groups).flatMap(section => section.favorites);
+}
@@ -0,0 +1,144 @@
+export interface FixtureClimate {
+  temp: number; // daily mean in °C
+  range: number; // half the day/night swing in °C
+  humidity: number;
+  pressure: number;
+  windSpeed: number; // m/s
+  windDeg: number;
+  visibility: number; // meters
+  clouds: number;
+  conditionId: number;
+  pop: number;
+}
+
+export interface FixtureCity {
+  id: number;
+  name: string;
+  country: string;
+  state?: string;
+  lat: number;
+  lon: number;
+  timezone: number; // seconds east of UTC
+  population: number;
+  local_names?: { [key: string]: string };
+  climate: FixtureClimate;
+}
+
+export const FIXTURE_CITIES: FixtureCity[] = [
+  {
+    id: 2643743,
+    name: 'London',
+    country: 'GB',
+    state: 'England',
+    lat: 51.5073,
+    lon: -0.1276,
+    timezone: 3600,
+    population: 8961989,
+    local_names: { en: 'London', de: 'London', fr: 'Londres', es: 'Londres', ja: 'ロンドン' },
+    climate: { temp: 14, range: 4, humidity: 78, pressure: 1012, windSpeed: 4.6, windDeg: 240, visibility: 10000, clouds: 75, conditionId: 803, pop: 0.35 },
+  },
+  {
+    id: 2988507,
+    name: 'Paris',
+    country: 'FR',
+    state: 'Ile-de-France',
+    lat: 48.8589,
+    lon: 2.32,
+    timezone: 7200,
+    population: 2138551,
+    local_names: { en: 'Paris', de: 'Paris', fr: 'Paris', es: 'París', ja: 'パリ' },
+    climate: { temp: 17, range: 5, humidity: 65, pressure: 1016, windSpeed: 3.1, windDeg: 200, visibility: 10000, clouds: 20, conditionId: 801, pop: 0.15 },
+  },
+  {
+    id: 4717560,
+    name: 'Paris',
+    country: 'US',
+    state: 'Texas',
+    lat: 33.6609,
+    lon: -95.5555,
+    timezone: -18000,
+    population: 24171,
+    climate: { temp: 24, range: 7, humidity: 60, pressure: 1014, windSpeed: 5.2, windDeg: 170, visibility: 10000, clouds: 0, conditionId: 800, pop: 0.05 },
+  },
+  {
+    id: 2950159,
+    name: 'Berlin',
+    country: 'DE',
+    state: 'Berlin',
+    lat: 52.517,
+    lon: 13.3889,
+    timezone: 7200,
+    population: 3426354,
+    local_names: { en: 'Berlin', de: 'Berlin', fr: 'Berlin', es: 'Berlín', ja: 'ベルリン' },
+    climate: { temp: 12, range: 5, humidity: 70, pressure: 1010, windSpeed: 3.8, windDeg: 270, visibility: 9000, clouds: 90, conditionId: 500, pop: 0.6 },
+  },
+  {
+    id: 5128581,
+    name: 'New York',
+    country: 'US',
+    state: 'New York',
+    lat: 40.7127,
+    lon: -74.006,
+    timezone: -14400,
+    population: 8175133,
+    local_names: { en: 'New York', de: 'New York', fr: 'New York', es: 'Nueva York', ja: 'ニューヨーク' },
+    climate: { temp: 19, range: 5, humidity: 58, pressure: 1018, windSpeed: 5.7, windDeg: 310, visibility: 10000, clouds: 40, conditionId: 802, pop: 0.2 },
+  },
+  {
+    id: 1850147,
+    name: 'Tokyo',
+    country: 'JP',
+    lat: 35.6828,
+    lon: 139.759,
+    timezone: 32400,
+    population: 12445327,
+    local_names: { en: 'Tokyo', de: 'Tokio', fr: 'Tokyo', es: 'Tokio', ja: '東京都' },
+    climate: { temp: 21, range: 4, humidity: 72, pressure: 1009, windSpeed: 3.4, windDeg: 150, visibility: 10000, clouds: 60, conditionId: 300, pop: 0.45 },
+  },
+  {
+    id: 2147714,
+    name: 'Sydney',
+    country: 'AU',
+    state: 'New South Wales',
+    lat: -33.8698,
+    lon: 151.2083,
+    timezone: 36000,
+    population: 4627345,
+    local_names: { en: 'Sydney', de: 'Sydney', fr: 'Sydney', es: 'Sídney', ja: 'シドニー' },
+    climate: { temp: 16, range: 5, humidity: 62, pressure: 1021, windSpeed: 6.1, windDeg: 120, visibility: 10000, clouds: 10, conditionId: 800, pop: 0.1 },
+  },
+  {
+    id: 5391760,
+    name: 'San Francisco',
+    country: 'US',
+    state: 'California',
+    lat: 37.7749,
+    lon: -122.4194,
+    timezone: -25200,
+    population: 864816,
+    climate: { temp: 15, range: 3, humidity: 88, pressure: 1015, windSpeed: 7.2, windDeg: 280, visibility: 1200, clouds: 100, conditionId: 741, pop: 0.1 },
+  },
+  // Extreme climates, always available regardless of the scenario
+  {
+    id: 5345609,
+    name: 'Death Valley',
+    country: 'US',
+    state: 'California',
+    lat: 36.4622,
+    lon: -116.8669,
+    timezone: -25200,
+    population: 576,
+    climate: { temp: 46, range: 7, humidity: 4, pressure: 1002, windSpeed: 8.4, windDeg: 190, visibility: 10000, clouds: 0, conditionId: 800, pop: 0 },
+  },
+  {
+    id: 2122311,
+    name: 'Oymyakon',
+    country: 'RU',
+    state: 'Sakha',
+    lat: 63.4608,
+    lon: 142.7858,
+    timezone: 36000,
+    population: 462,
+    climate: { temp: -48, range: 4, humidity: 70, pressure: 1042, windSpeed: 1.2, windDeg: 20, visibility: 4000, clouds: 90, conditionId: 600, pop: 0.3 },
+  },
+];
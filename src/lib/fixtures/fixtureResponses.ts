@@ -0,0 +1,247 @@
+import type { OwmAirPollution, OwmCurrentWeather, OwmForecastData } from '../openWeatherMapProvider';
+import type { CitySearchResult } from '../weatherService';
+import { convertTemperatureFromCelsius, convertWindSpeed, type UnitSystem } from '../units';
+import type { FixtureCity, FixtureClimate } from './fixtureCities';
+
+// Builders for OpenWeatherMap-shaped payloads. Values are derived only from
+// the city, the slot time and the unit system, so the same request always
+// produces the same response within a 3-hour window.
+
+const SLOT_S = 3 * 60 * 60;
+const DAY_S = 24 * 60 * 60;
+const FORECAST_SLOTS = 40;
+const AIR_POLLUTION_FORECAST_HOURS = 96;
+
+const CONDITIONS: Record<number, { main: string; description: string; icon: string }> = {
+  200: { main: 'Thunderstorm', description: 'thunderstorm with light rain', icon: '11' },
+  211: { main: 'Thunderstorm', description: 'thunderstorm', icon: '11' },
+  300: { main: 'Drizzle', description: 'light intensity drizzle', icon: '09' },
+  500: { main: 'Rain', description: 'light rain', icon: '10' },
+  502: { main: 'Rain', description: 'heavy intensity rain', icon: '10' },
+  600: { main: 'Snow', description: 'light snow', icon: '13' },
+  602: { main: 'Snow', description: 'heavy snow', icon: '13' },
+  741: { main: 'Fog', description: 'fog', icon: '50' },
+  800: { main: 'Clear', description: 'clear sky', icon: '01' },
+  801: { main: 'Clouds', description: 'few clouds', icon: '02' },
+  802: { main: 'Clouds', description: 'scattered clouds', icon: '03' },
+  803: { main: 'Clouds', description: 'broken clouds', icon: '04' },
+  804: { main: 'Clouds', description: 'overcast clouds', icon: '04' },
+};
+
+const isWet = (conditionId: number): boolean => conditionId < 700;
+const isSnow = (conditionId: number): boolean => conditionId >= 600 && conditionId < 700;
+
+const localHour = (time: number, city: FixtureCity): number =>
+  (((time + city.timezone) % DAY_S) + DAY_S) % DAY_S / 3600;
+
+const localMidnight = (time: number, city: FixtureCity): number =>
+  time - (((time + city.timezone) % DAY_S) + DAY_S) % DAY_S;
+
+/**
+ * Weather for one moment: a diurnal temperature curve peaking mid-afternoon,
+ * plus a condition that changes from day to day
+ */
+const sample = (city: FixtureCity, climate: FixtureClimate, time: number, now: number) => {
+  const hour = localHour(time, city);
+  const day = Math.floor((time - localMidnight(now, city)) / DAY_S);
+  const dayOffset = (((day * 7 + city.id) % 5) - 2) * 0.8;
+  const temp = climate.temp + dayOffset + climate.range * Math.sin((2 * Math.PI * (hour - 9)) / 24);
+
+  // Every third day clears up or clouds over compared to the city's usual weather
+  const conditionId = day % 3 === 2
+    ? (isWet(climate.conditionId) ? 803 : climate.conditionId === 800 ? 801 : 500)
+    : climate.conditionId;
+  const isDay = hour >= 6 && hour < 18;
+  const condition = CONDITIONS[conditionId] ?? CONDITIONS[800];
+
+  return {
+    temp,
+    feelsLike: temp - climate.windSpeed * 0.3 + (climate.humidity > 70 && temp > 25 ? 3 : 0),
+    conditionId,
+    condition: { id: conditionId, main: condition.main, description: condition.description, icon: `${condition.icon}${isDay ? 'd' : 'n'}` },
+    isDay,
+    pop: isWet(conditionId) ? Math.max(climate.pop, 0.6) : climate.pop,
+    precipitation: isWet(conditionId) ? (conditionId === 502 || conditionId === 602 ? 12.4 : 1.3) : 0,
+    windSpeed: climate.windSpeed + (hour >= 12 && hour < 18 ? 1.5 : 0),
+  };
+};
+
+const temperature = (celsius: number, units: UnitSystem): number =>
+  Math.round(convertTemperatureFromCelsius(celsius, units) * 100) / 100;
+
+const windSpeed = (metersPerSecond: number, units: UnitSystem): number =>
+  Math.round(convertWindSpeed(metersPerSecond, 'metric', units === 'imperial' ? 'mph' : 'm/s') * 100) / 100;
+
+const sunTimes = (city: FixtureCity, now: number) => {
+  const midnight = localMidnight(now, city);
+  return { sunrise: midnight + 6 * 3600 + 840, sunset: midnight + 18 * 3600 + 1260 };
+};
+
+export function buildCurrentWeather(
+  city: FixtureCity,
+  climate: FixtureClimate,
+  units: UnitSystem,
+  now = Math.floor(Date.now() / 1000)
+): OwmCurrentWeather {
+  const observedAt = now - (now % 600);
+  const current = sample(city, climate, observedAt, now);
+  const { sunrise, sunset } = sunTimes(city, now);
+  const precipitation = current.precipitation ? { '1h': Math.round((current.precipitation / 3) * 100) / 100 } : undefined;
+
+  return {
+    coord: { lon: city.lon, lat: city.lat },
+    weather: [current.condition],
+    base: 'stations',
+    main: {
+      temp: temperature(current.temp, units),
+      feels_like: temperature(current.feelsLike, units),
+      temp_min: temperature(current.temp - 1.5, units),
+      temp_max: temperature(current.temp + 1.5, units),
+      pressure: climate.pressure,
+      humidity: climate.humidity,
+    },
+    visibility: climate.visibility,
+    wind: {
+      speed: windSpeed(current.windSpeed, units),
+      deg: climate.windDeg,
+      gust: windSpeed(current.windSpeed * 1.6, units),
+    },
+    clouds: { all: climate.clouds },
+    ...(precipitation && (isSnow(current.conditionId) ? { snow: precipitation } : { rain: precipitation })),
+    dt: observedAt,
+    sys: { type: 2, id: city.id % 100000, country: city.country, sunrise, sunset },
+    timezone: city.timezone,
+    id: city.id,
+    name: city.name,
+    cod: 200,
+  };
+}
+
+export function buildForecast(
+  city: FixtureCity,
+  climate: FixtureClimate,
+  units: UnitSystem,
+  now = Math.floor(Date.now() / 1000)
+): OwmForecastData {
+  const firstSlot = now - (now % SLOT_S) + SLOT_S;
+  const { sunrise, sunset } = sunTimes(city, now);
+
+  const list = Array.from({ length: FORECAST_SLOTS }, (_, index) => {
+    const dt = firstSlot + index * SLOT_S;
+    const slot = sample(city, climate, dt, now);
+    const precipitation = slot.precipitation ? { '3h': slot.precipitation } : undefined;
+
+    return {
+      dt,
+      main: {
+        temp: temperature(slot.temp, units),
+        feels_like: temperature(slot.feelsLike, units),
+        temp_min: temperature(slot.temp - 0.5, units),
+        temp_max: temperature(slot.temp + 0.5, units),
+        pressure: climate.pressure,
+        humidity: climate.humidity,
+      },
+      weather: [slot.condition],
+      clouds: { all: climate.clouds },
+      wind: {
+        speed: windSpeed(slot.windSpeed, units),
+        deg: climate.windDeg,
+        gust: windSpeed(slot.windSpeed * 1.6, units),
+      },
+      visibility: climate.visibility,
+      pop: Math.round(slot.pop * 100) / 100,
+      ...(precipitation && (isSnow(slot.conditionId) ? { snow: precipitation } : { rain: precipitation })),
+      sys: { pod: slot.isDay ? 'd' as const : 'n' as const },
+      dt_txt: new Date(dt * 1000).toISOString().replace('T', ' ').slice(0, 19),
+    };
+  });
+
+  return {
+    cod: '200',
+    message: 0,
+    cnt: list.length,
+    list,
+    city: {
+      id: city.id,
+      name: city.name,
+      coord: { lat: city.lat, lon: city.lon },
+      country: city.country,
+      population: city.population,
+      timezone: city.timezone,
+      sunrise,
+      sunset,
+    },
+  };
+}
+
+export function buildCitySearchResult(city: FixtureCity): CitySearchResult {
+  return {
+    name: city.name,
+    local_names: city.local_names,
+    lat: city.lat,
+    lon: city.lon,
+    country: city.country,
+    state: city.state,
+  };
+}
+
+// Upper bounds of OpenWeatherMap's index levels 1-4 for each pollutant
+const AQI_THRESHOLDS = {
+  pm2_5: [10, 25, 50, 75],
+  pm10: [20, 50, 100, 200],
+  o3: [60, 100, 140, 180],
+  no2: [40, 70, 150, 200],
+};
+
+const round = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Pollution for one hour: larger cities are dirtier, NO2 peaks with the
+ * morning and evening rush hours and O3 builds up through the afternoon
+ */
+const samplePollution = (city: FixtureCity, time: number, now: number) => {
+  const hour = localHour(time, city);
+  const day = Math.floor((time - localMidnight(now, city)) / DAY_S);
+  const urban = Math.max(0, Math.log10(city.population) - 2);
+  const dayFactor = 1 + (((day * 5 + city.id) % 4) - 1) * 0.25;
+  const rushHour = Math.exp(-((hour - 8) ** 2) / 4) + Math.exp(-((hour - 18) ** 2) / 4);
+  const sunshine = Math.max(0, Math.sin((Math.PI * (hour - 7)) / 12));
+
+  const components = {
+    co: round((150 + urban * 60) * dayFactor),
+    no: round(urban * 2 * (0.2 + rushHour)),
+    no2: round((3 + urban * 6 * (0.4 + rushHour)) * dayFactor),
+    o3: round(35 + sunshine * 50 - urban * 2),
+    so2: round((1 + urban * 1.5) * dayFactor),
+    pm2_5: round((2 + urban * 4 * (0.8 + rushHour * 0.3)) * dayFactor),
+    pm10: round((4 + urban * 6 * (0.8 + rushHour * 0.3)) * dayFactor),
+    nh3: round(1 + urban * 0.4),
+  };
+
+  const aqi = Math.max(
+    ...(Object.keys(AQI_THRESHOLDS) as (keyof typeof AQI_THRESHOLDS)[]).map(pollutant => {
+      const level = AQI_THRESHOLDS[pollutant].findIndex(limit => components[pollutant] < limit);
+      return level === -1 ? 5 : level + 1;
+    })
+  );
+
+  return { dt: time, main: { aqi }, components };
+};
+
+export function buildAirPollution(city: FixtureCity, now = Math.floor(Date.now() / 1000)): OwmAirPollution {
+  const observedAt = now - (now % 3600);
+  return {
+    coord: { lon: city.lon, lat: city.lat },
+    list: [samplePollution(city, observedAt, now)],
+  };
+}
+
+export function buildAirPollutionForecast(city: FixtureCity, now = Math.floor(Date.now() / 1000)): OwmAirPollution {
+  const firstHour = now - (now % 3600) + 3600;
+  return {
+    coord: { lon: city.lon, lat: city.lat },
+    list: Array.from({ length: AIR_POLLUTION_FORECAST_HOURS }, (_, index) =>
+      samplePollution(city, firstHour + index * 3600, now)
+    ),
+  };
+}
@@ -0,0 +1,194 @@
+import { isUnitSystem } from '../units';
+import { FIXTURE_CITIES, type FixtureCity, type FixtureClimate } from './fixtureCities';
+import {
+  buildAirPollution,
+  buildAirPollutionForecast,
+  buildCitySearchResult,
+  buildCurrentWeather,
+  buildForecast,
+} from './fixtureResponses';
+import { FIXTURE_BASE_URL, FIXTURE_GEO_URL } from './fixtureUrls';
+
+// In-browser stand-in for the OpenWeatherMap API. The adapter is pointed at
+// these base URLs and given `fixtureFetch` instead of the global fetch, so the
+// whole request path (URL building, status handling, parsing) is exercised.
+
+export type FixtureScenario =
+  | 'normal'
+  | 'slow'
+  | 'rate-limit'
+  | 'server-error'
+  | 'unauthorized'
+  | 'not-found'
+  | 'network-error'
+  | 'heatwave'
+  | 'blizzard'
+  | 'storm';
+
+export const FIXTURE_SCENARIOS: FixtureScenario[] = [
+  'normal',
+  'slow',
+  'rate-limit',
+  'server-error',
+  'unauthorized',
+  'not-found',
+  'network-error',
+  'heatwave',
+  'blizzard',
+  'storm',
+];
+
+const SLOW_RESPONSE_MS = 3000;
+const RATE_LIMIT_RETRY_AFTER_S = 5;
+
+// Weather overrides applied to every city by the extreme weather scenarios
+const EXTREME_CLIMATES: Partial<Record<FixtureScenario, Partial<FixtureClimate>>> = {
+  heatwave: { temp: 44, range: 6, humidity: 12, conditionId: 800, clouds: 0, pop: 0, windSpeed: 2.1 },
+  blizzard: { temp: -22, range: 2, humidity: 92, conditionId: 602, clouds: 100, pop: 1, windSpeed: 19.5, visibility: 150 },
+  storm: { temp: 18, range: 1, humidity: 96, conditionId: 211, clouds: 100, pop: 1, windSpeed: 32.6, pressure: 962, visibility: 800 },
+};
+
+const isScenario = (value: unknown): value is FixtureScenario =>
+  FIXTURE_SCENARIOS.some(scenario => scenario === value);
+
+/**
+ * The scenario comes from VITE_WEATHER_FIXTURE_SCENARIO and can be switched
+ * without a restart by loading the app with `?fixture=<scenario>`
+ */
+export function getFixtureScenario(): FixtureScenario {
+  const fromUrl = new URLSearchParams(window.location.search).get('fixture');
+  if (isScenario(fromUrl)) return fromUrl;
+
+  const fromEnv = import.meta.env.VITE_WEATHER_FIXTURE_SCENARIO;
+  return isScenario(fromEnv) ? fromEnv : 'normal';
+}
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}): Response =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json', ...headers },
+  });
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const findCity = (query: string): FixtureCity | undefined => {
+  // Accept "Paris", "Paris,FR" and "Paris,TX,US" style queries
+  const [name, ...qualifiers] = query.split(',').map(part => part.trim().toLowerCase());
+  const country = qualifiers[qualifiers.length - 1];
+
+  return FIXTURE_CITIES.find(city =>
+    city.name.toLowerCase() === name && (!country || city.country.toLowerCase() === country)
+  );
+};
+
+const findNearestCity = (lat: number, lon: number): FixtureCity =>
+  FIXTURE_CITIES.reduce((nearest, city) => {
+    const distance = (city.lat - lat) ** 2 + (city.lon - lon) ** 2;
+    const nearestDistance = (nearest.lat - lat) ** 2 + (nearest.lon - lon) ** 2;
+    return distance < nearestDistance ? city : nearest;
+  });
+
+/**
+ * Error responses as the real API words them
+ */
+const scenarioError = (scenario: FixtureScenario): Response | null => {
+  switch (scenario) {
+    case 'rate-limit':
+      return json(
+        { cod: 429, message: 'Your account is temporary blocked due to exceeding of requests limitation of your subscription type.' },
+        429,
+        { 'Retry-After': String(RATE_LIMIT_RETRY_AFTER_S) }
+      );
+    case 'server-error':
+      return json({ cod: 503, message: 'Service temporarily unavailable' }, 503);
+    case 'unauthorized':
+      return json({ cod: 401, message: 'Invalid API key. Please see https://openweathermap.org/faq#error401 for more info.' }, 401);
+    case 'not-found':
+      return json({ cod: '404', message: 'city not found' }, 404);
+    default:
+      return null;
+  }
+};
+
+const handleWeatherRequest = (path: string, params: URLSearchParams, scenario: FixtureScenario): Response => {
+  // `lang` is accepted but ignored: fixture descriptions are always English
+  const units = params.get('units');
+  const unitSystem = isUnitSystem(units) ? units : 'standard';
+
+  let city: FixtureCity | undefined;
+  let coords: { lat: number; lon: number } | undefined;
+  const query = params.get('q');
+  if (query) {
+    city = findCity(query);
+  } else if (params.has('lat') && params.has('lon')) {
+    coords = { lat: Number(params.get('lat')), lon: Number(params.get('lon')) };
+    city = findNearestCity(coords.lat, coords.lon);
+  }
+
+  if (!city) {
+    return json({ cod: '404', message: 'city not found' }, 404);
+  }
+
+  const climate = { ...city.climate, ...EXTREME_CLIMATES[scenario] };
+  // Coordinate lookups answer for the exact point asked about
+  const located = coords ? { ...city, ...coords } : city;
+
+  return path.endsWith('/forecast')
+    ? json(buildForecast(located, climate, unitSystem))
+    : json(buildCurrentWeather(located, climate, unitSystem));
+};
+
+const handleAirPollutionRequest = (path: string, params: URLSearchParams): Response => {
+  if (!params.has('lat') || !params.has('lon')) {
+    return json({ cod: '400', message: 'Nothing to geocode' }, 400);
+  }
+
+  const coords = { lat: Number(params.get('lat')), lon: Number(params.get('lon')) };
+  const city = { ...findNearestCity(coords.lat, coords.lon), ...coords };
+
+  return path.endsWith('/forecast')
+    ? json(buildAirPollutionForecast(city))
+    : json(buildAirPollution(city));
+};
+
+const handleGeoRequest = (params: URLSearchParams): Response => {
+  const query = (params.get('q') ?? '').trim().toLowerCase();
+  const limit = Number(params.get('limit') ?? 5);
+
+  const matches = FIXTURE_CITIES
+    .filter(city => query && city.name.toLowerCase().startsWith(query.split(',')[0].trim()))
+    .slice(0, limit)
+    .map(buildCitySearchResult);
+
+  return json(matches);
+};
+
+/**
+ * fetch-compatible handler for requests to FIXTURE_BASE_URL and FIXTURE_GEO_URL
+ */
+export async function fixtureFetch(input: RequestInfo | URL): Promise<Response> {
+  const url = new URL(input instanceof Request ? input.url : input.toString());
+  const scenario = getFixtureScenario();
+
+  if (scenario === 'network-error') {
+    throw new TypeError('Failed to fetch');
+  }
+  if (scenario === 'slow') {
+    await delay(SLOW_RESPONSE_MS);
+  }
+
+  const error = scenarioError(scenario);
+  if (error) return error;
+
+  if (url.href.startsWith(FIXTURE_GEO_URL)) {
+    return handleGeoRequest(url.searchParams);
+  }
+  if (url.href.startsWith(`${FIXTURE_BASE_URL}/air_pollution`)) {
+    return handleAirPollutionRequest(url.pathname, url.searchParams);
+  }
+  if (url.href.startsWith(FIXTURE_BASE_URL)) {
+    return handleWeatherRequest(url.pathname, url.searchParams, scenario);
+  }
+
+  return json({ cod: '404', message: 'Internal error' }, 404);
+}
@@ -0,0 +1,5 @@
+// Base URLs of the fixture backend, kept apart from it so the adapter can be
+// pointed at them without loading the fixtures themselves
+
+export const FIXTURE_BASE_URL = 'http://fixtures.localhost/data/2.5';
+export const FIXTURE_GEO_URL = 'http://fixtures.localhost/geo/1.0';
@@ -0,0 +1,178 @@
+import { describe, expect, it } from 'vitest';
+import { getDailySummaries, getDominantCondition, summarizeDay } from './forecastAggregation';
+import { UNKNOWN_CONDITION } from './weatherValidation';
+import type { ForecastData, ForecastItem, WeatherCondition } from './weatherService';
+
+const HOUR_S = 60 * 60;
+
+const CONDITIONS: Record<string, WeatherCondition> = {
+  clear: { id: 800, main: 'Clear', description: 'clear sky', icon: '01d' },
+  clearNight: { id: 800, main: 'Clear', description: 'clear sky', icon: '01n' },
+  clouds: { id: 803, main: 'Clouds', description: 'broken clouds', icon: '04d' },
+  overcast: { id: 804, main: 'Clouds', description: 'overcast clouds', icon: '04d' },
+  rain: { id: 500, main: 'Rain', description: 'light rain', icon: '10d' },
+  thunderstorm: { id: 211, main: 'Thunderstorm', description: 'thunderstorm', icon: '11d' },
+};
+
+const at = (iso: string): number => Date.parse(iso) / 1000;
+
+const item = (time: number, overrides: Partial<ForecastItem> = {}): ForecastItem => ({
+  time,
+  condition: CONDITIONS.clear,
+  temp: 20,
+  feelsLike: 20,
+  humidity: 50,
+  pressure: 1013,
+  windSpeed: 3,
+  windDeg: 180,
+  cloudiness: 0,
+  visibility: 10000,
+  pop: 0,
+  rain: 0,
+  snow: 0,
+  isDay: true,
+  ...overrides,
+});
+
+const forecast = (timezoneOffset: number, list: ForecastItem[]): ForecastData => ({
+  location: { name: 'Testville', country: 'TS', lat: 0, lon: 0, timezoneOffset },
+  list,
+  sunrise: 0,
+  sunset: 0,
+  units: 'metric',
+});
+
+// Slots with the given conditions, an hour apart
+const slots = (...conditions: WeatherCondition[]): ForecastItem[] =>
+  conditions.map((condition, index) => item(at('2024-06-01T12:00:00Z') + index * HOUR_S, { condition }));
+
+describe('getDailySummaries', () => {
+  it('splits days at midnight in the location, not in UTC', () => {
+    const summaries = getDailySummaries(
+      forecast(5 * HOUR_S, [
+        item(at('2024-06-01T18:00:00Z')), // 23:00 on June 1 at UTC+5
+        item(at('2024-06-01T19:00:00Z')), // 00:00 on June 2
+        item(at('2024-06-01T22:00:00Z')),
+      ])
+    );
+
+    expect(summaries.map(({ date, items }) => [date, items.length])).toEqual([
+      ['2024-06-01', 1],
+      ['2024-06-02', 2],
+    ]);
+    expect(summaries[1].time).toBe(at('2024-06-01T19:00:00Z'));
+  });
+
+  it('keeps slots after UTC midnight on the previous day west of UTC', () => {
+    const summaries = getDailySummaries(
+      forecast(-8 * HOUR_S, [
+        item(at('2024-06-01T20:00:00Z')),
+        item(at('2024-06-02T07:00:00Z')), // 23:00 on June 1 at UTC-8
+        item(at('2024-06-02T08:00:00Z')), // 00:00 on June 2
+      ])
+    );
+
+    expect(summaries.map(({ date, items }) => [date, items.length])).toEqual([
+      ['2024-06-01', 2],
+      ['2024-06-02', 1],
+    ]);
+  });
+
+  it('returns at most the requested number of days, earliest first', () => {
+    const list = Array.from({ length: 6 }, (_, day) => item(at('2024-06-01T12:00:00Z') + day * 24 * HOUR_S));
+
+    expect(getDailySummaries(forecast(0, list), 3).map(summary => summary.date)).toEqual([
+      '2024-06-01',
+      '2024-06-02',
+      '2024-06-03',
+    ]);
+  });
+});
+
+describe('getDominantCondition', () => {
+  it('weights slots by severity', () => {
+    const { clouds, rain } = CONDITIONS;
+    // 3 rain slots count for 6, 5 cloudy slots for 5
+    expect(getDominantCondition(slots(clouds, clouds, rain, clouds, rain, clouds, rain, clouds))).toBe(rain);
+  });
+
+  it('lets a few hours of thunderstorms outweigh a mostly clear day', () => {
+    const { clear, thunderstorm } = CONDITIONS;
+    // 2 thunderstorm slots count for 6, 5 clear slots for 5
+    expect(getDominantCondition(slots(clear, clear, thunderstorm, thunderstorm, clear, clear, clear))).toBe(thunderstorm);
+  });
+
+  it('breaks ties in favor of the more severe condition, whatever the order', () => {
+    const { clear, rain } = CONDITIONS;
+    expect(getDominantCondition(slots(clear, clear, rain))).toBe(rain);
+    expect(getDominantCondition(slots(rain, clear, clear))).toBe(rain);
+  });
+
+  it("picks the group's most common condition", () => {
+    const { clouds, overcast } = CONDITIONS;
+    expect(getDominantCondition(slots(clouds, overcast, overcast))).toBe(overcast);
+  });
+
+  it('prefers the daytime icon', () => {
+    const night = item(at('2024-06-01T02:00:00Z'), { condition: CONDITIONS.clearNight, isDay: false });
+    const day = item(at('2024-06-01T12:00:00Z'), { condition: CONDITIONS.clear });
+
+    expect(getDominantCondition([night, night, day])).toBe(CONDITIONS.clear);
+  });
+
+  it('is unknown without slots', () => {
+    expect(getDominantCondition([])).toBe(UNKNOWN_CONDITION);
+  });
+});
+
+describe('summarizeDay', () => {
+  const day = (offsetHours: number, overrides: Partial<ForecastItem> = {}) =>
+    item(at('2024-06-01T00:00:00Z') + offsetHours * HOUR_S, overrides);
+
+  it('adds up rain and snow over the day', () => {
+    const summary = summarizeDay('2024-06-01', [
+      day(0, { rain: 1.5 }),
+      day(3, { rain: 0.25, snow: 2 }),
+      day(6, { snow: 0.5 }),
+    ]);
+
+    expect(summary.rain).toBe(1.75);
+    expect(summary.snow).toBe(2.5);
+  });
+
+  it('takes the strongest wind and gust', () => {
+    const summary = summarizeDay('2024-06-01', [
+      day(0, { windSpeed: 4, windGust: 9 }),
+      day(3, { windSpeed: 7 }),
+      day(6, { windSpeed: 5, windGust: 12 }),
+    ]);
+
+    expect(summary.windSpeed).toBe(7);
+    expect(summary.windGust).toBe(12);
+  });
+
+  it('leaves out gusts when the provider reports none', () => {
+    expect(summarizeDay('2024-06-01', [day(0), day(3)])).not.toHaveProperty('windGust');
+  });
+
+  it('summarizes the day and night slots separately', () => {
+    const summary = summarizeDay('2024-06-01', [
+      day(0, { temp: 12, isDay: false, condition: CONDITIONS.clearNight }),
+      day(3, { temp: 10, isDay: false, condition: CONDITIONS.clearNight, pop: 0.2 }),
+      day(9, { temp: 18, pop: 0.6, condition: CONDITIONS.rain }),
+      day(12, { temp: 24 }),
+      day(15, { temp: 22, pop: 0.3, condition: CONDITIONS.rain }),
+    ]);
+
+    expect(summary).toMatchObject({ high: 24, low: 10, pop: 0.6 });
+    expect(summary.day).toEqual({ high: 24, low: 18, pop: 0.6, condition: CONDITIONS.rain });
+    expect(summary.night).toEqual({ high: 12, low: 10, pop: 0.2, condition: CONDITIONS.clearNight });
+  });
+
+  it('has no night when the forecast only covers daytime', () => {
+    const summary = summarizeDay('2024-06-01', [day(9), day(12)]);
+
+    expect(summary.day).not.toBeNull();
+    expect(summary.night).toBeNull();
+  });
+});
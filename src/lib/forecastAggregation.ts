@@ -0,0 +1,154 @@
+import type { ForecastData, ForecastItem, WeatherCondition } from './weatherService';
+import { getLocalDateKey } from './localTime';
+import { UNKNOWN_CONDITION } from './weatherValidation';
+
+export interface PeriodSummary {
+  high: number;
+  low: number;
+  condition: WeatherCondition;
+  pop: number; // highest probability of precipitation, 0-1
+}
+
+export interface DailySummary extends PeriodSummary {
+  date: string; // YYYY-MM-DD at the location
+  time: number; // first slot of the day, unix seconds
+  items: ForecastItem[];
+  rain: number; // mm over the day
+  snow: number; // mm over the day
+  windSpeed: number; // strongest sustained wind
+  windGust?: number; // strongest gust, when the provider reports gusts
+  humidity: number; // average, %
+  // Either half is missing when the forecast does not cover it, e.g. for
+  // today's day period late in the evening
+  day: PeriodSummary | null;
+  night: PeriodSummary | null;
+}
+
+// How much one slot of each condition counts towards the day's dominant
+// condition. Weighting by severity keeps a few hours of thunderstorms from
+// being hidden behind a mostly cloudy day.
+const CONDITION_WEIGHTS: Record<string, number> = {
+  Clear: 1,
+  Clouds: 1,
+  Mist: 1.25,
+  Haze: 1.25,
+  Smoke: 1.25,
+  Dust: 1.25,
+  Sand: 1.25,
+  Fog: 1.5,
+  Drizzle: 1.5,
+  Rain: 2,
+  Snow: 2.5,
+  Ash: 2.5,
+  Squall: 3,
+  Thunderstorm: 3,
+  Tornado: 4,
+};
+
+const conditionWeight = (condition: WeatherCondition): number => CONDITION_WEIGHTS[condition.main] ?? 1;
+
+/**
+ * The condition that best describes a set of slots: the condition group with
+ * the highest severity-weighted slot count (severity breaks ties), then that
+ * group's most common condition
+ */
+export function getDominantCondition(items: ForecastItem[]): WeatherCondition {
+  const groups = new Map<string, ForecastItem[]>();
+  items.forEach(item => {
+    const group = groups.get(item.condition.main);
+    if (group) group.push(item);
+    else groups.set(item.condition.main, [item]);
+  });
+
+  let dominant: ForecastItem[] | undefined;
+  let dominantScore = 0;
+  groups.forEach(group => {
+    const weight = conditionWeight(group[0].condition);
+    const score = group.length * weight;
+    if (
+      !dominant ||
+      score > dominantScore ||
+      (score === dominantScore && weight > conditionWeight(dominant[0].condition))
+    ) {
+      dominant = group;
+      dominantScore = score;
+    }
+  });
+  if (!dominant) return UNKNOWN_CONDITION;
+
+  const counts = new Map<number, { item: ForecastItem; count: number }>();
+  dominant.forEach(item => {
+    const entry = counts.get(item.condition.id);
+    if (entry) entry.count++;
+    else counts.set(item.condition.id, { item, count: 1 });
+  });
+  const [{ item }] = [...counts.values()].sort((a, b) => b.count - a.count);
+
+  // Prefer the daytime icon so a day's summary doesn't show a moon
+  const daytime = dominant.find(slot => slot.condition.id === item.condition.id && slot.isDay);
+  return (daytime ?? item).condition;
+}
+
+const summarizePeriod = (items: ForecastItem[]): PeriodSummary | null => {
+  if (items.length === 0) return null;
+  const temps = items.map(item => item.temp);
+  return {
+    high: Math.max(...temps),
+    low: Math.min(...temps),
+    condition: getDominantCondition(items),
+    pop: Math.max(...items.map(item => item.pop)),
+  };
+};
+
+const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+
+/**
+ * Summarize one calendar day's forecast slots
+ */
+export function summarizeDay(date: string, items: ForecastItem[]): DailySummary {
+  const gusts = items.flatMap(item => (item.windGust === undefined ? [] : [item.windGust]));
+
+  return {
+    // Non-empty by construction, so the period summary always exists
+    ...summarizePeriod(items)!,
+    date,
+    time: items[0].time,
+    items,
+    rain: sum(items.map(item => item.rain)),
+    snow: sum(items.map(item => item.snow)),
+    windSpeed: Math.max(...items.map(item => item.windSpeed)),
+    ...(gusts.length > 0 && { windGust: Math.max(...gusts) }),
+    humidity: sum(items.map(item => item.humidity)) / items.length,
+    day: summarizePeriod(items.filter(item => item.isDay)),
+    night: summarizePeriod(items.filter(item => !item.isDay)),
+  };
+}
+
+/**
+ * Group a forecast into calendar days at the forecast location and summarize
+ * each, earliest first
+ */
+export function getDailySummaries(forecast: ForecastData, days = 5): DailySummary[] {
+  const byDay = new Map<string, ForecastItem[]>();
+  forecast.list.forEach(item => {
+    const date = getLocalDateKey(item.time, forecast.location.timezoneOffset);
+    const dayItems = byDay.get(date);
+    if (dayItems) dayItems.push(item);
+    else byDay.set(date, [item]);
+  });
+
+  return [...byDay.entries()]
+    .slice(0, days)
+    .map(([date, items]) => summarizeDay(date, items));
+}
+
+// Chance at which a slot without measured rain still counts as rainy
+const LIKELY_RAIN_POP = 0.5;
+
+/**
+ * The first forecast slot where rain is expected, or null when the forecast
+ * shows none
+ */
+export function getNextRain(forecast: ForecastData): ForecastItem | null {
+  return forecast.list.find(item => item.rain > 0 || (item.pop >= LIKELY_RAIN_POP && item.snow === 0)) ?? null;
+}
@@ -0,0 +1,41 @@
+export interface Coordinates {
+  lat: number;
+  lon: number;
+}
+
+// Two decimal places is about a kilometer, finer than any provider's model
+// grid, so GPS jitter lands on the same cache entry
+export const COORDINATE_DECIMALS = 2;
+
+const EARTH_RADIUS_KM = 6371;
+
+const toRadians = (degrees: number): number => (degrees * Math.PI) / 180;
+
+export function roundCoordinate(value: number): number {
+  const factor = 10 ** COORDINATE_DECIMALS;
+  // Adding 0 turns -0 into 0 so both round to the same key
+  return Math.round(value * factor) / factor + 0;
+}
+
+export function roundCoordinates({ lat, lon }: Coordinates): Coordinates {
+  return { lat: roundCoordinate(lat), lon: roundCoordinate(lon) };
+}
+
+/**
+ * Rounded `lat,lon`, identifying everything stored for one place
+ */
+export function getCoordinatesId(coords: Coordinates): string {
+  const { lat, lon } = roundCoordinates(coords);
+  return `${lat},${lon}`;
+}
+
+/**
+ * Great-circle distance between two points
+ */
+export function getDistanceKm(from: Coordinates, to: Coordinates): number {
+  const dLat = toRadians(to.lat - from.lat);
+  const dLon = toRadians(to.lon - from.lon);
+  const a =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
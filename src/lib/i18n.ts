@@ -0,0 +1,1077 @@
+import type { CitySearchResult } from './weatherService';
+import { differsFromViewerTime, getLocalDayIndex, toLocationDate } from './localTime';
+
+// Locale codes double as the providers' `lang` parameter, so only languages
+// both OpenWeatherMap and Open-Meteo support are offered
+export type Locale = 'en' | 'de' | 'fr' | 'es' | 'ja';
+
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: 'en', label: 'English' },
+  { value: 'de', label: 'Deutsch' },
+  { value: 'fr', label: 'Français' },
+  { value: 'es', label: 'Español' },
+  { value: 'ja', label: '日本語' },
+];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+const en = {
+  'app.tagline': 'Your most favorite weather app!',
+  'app.locationError': 'Could not get your location: {message}',
+  'app.gettingLocation': 'Getting your location...',
+  'app.refreshing': 'Refreshing...',
+  'app.refreshed': 'Data Refreshed!',
+  'app.refresh': 'Refresh Data',
+  'app.attribution': 'Weather data provided by',
+  'app.poweredBy': '⚡ Enhanced with React Query',
+  'tabs.current': 'Current',
+  'tabs.forecast': 'Forecast',
+  'tabs.favorites': 'Favorites',
+  'tabs.compare': 'Compare',
+  'settings.language': 'Language',
+  'settings.temperature': 'Temperature',
+  'settings.windSpeed': 'Wind speed',
+  'settings.pressure': 'Pressure',
+  'weather.noData': 'No weather data available',
+  'weather.useCurrentLocation': 'Use Current Location',
+  'weather.useCurrentLocationHint': 'Use current location',
+  'weather.feelsLike': 'Feels like {temp}',
+  'weather.feels': 'Feels {temp}',
+  'weather.highLow': 'High: {high} / Low: {low}',
+  'weather.unavailable': 'Weather data unavailable',
+  'weather.loading': 'Loading weather data...',
+  'weather.genericError': 'An error occurred',
+  'time.viewerTime': '{time} your time',
+  'weather.sunrise': 'Sunrise',
+  'weather.sunset': 'Sunset',
+  'weather.updated': 'Updated {time}',
+  'settings.showViewerTime': 'Also show my local time',
+  'forecast.title': '5-Day Forecast',
+  'forecast.nextHours': 'Next 24 hours',
+  'forecast.showHours': 'Show hourly forecast for {day}',
+  'forecast.precipitation': 'Chance of precipitation',
+  'forecast.wind': 'Wind',
+  'forecast.rain': 'Rain',
+  'forecast.snow': 'Snow',
+  'forecast.maxWind': 'Max wind',
+  'forecast.gusts': 'gusts {speed}',
+  'forecast.humidity': 'Avg. humidity',
+  'forecast.daytime': 'Day',
+  'forecast.night': 'Night',
+  'airQuality.title': 'Air Quality',
+  'airQuality.index': 'AQI {aqi}',
+  'airQuality.level.1': 'Good',
+  'airQuality.level.2': 'Fair',
+  'airQuality.level.3': 'Moderate',
+  'airQuality.level.4': 'Poor',
+  'airQuality.level.5': 'Very Poor',
+  'airQuality.forecast': 'Coming days',
+  'airQuality.unavailable': 'Air quality data unavailable',
+  'day.today': 'Today',
+  'day.tomorrow': 'Tomorrow',
+  'search.placeholder': 'Search for a city...',
+  'search.searching': 'Searching...',
+  'search.offline': "You're offline. Showing saved locations.",
+  'search.noSavedMatches': 'No saved locations match your search',
+  'search.favorite': 'Favorite',
+  'search.recent': 'Recent',
+  'search.cached': 'Cached',
+  'favorites.title': 'Favorites',
+  'favorites.empty': 'No favorite cities yet. Add some by clicking the heart icon!',
+  'favorites.remove': 'Remove {city} from favorites',
+  'favorites.highLow': 'H {high} · L {low}',
+  'favorites.nextRain': 'Rain {when}',
+  'favorites.noRain': 'No rain in the forecast',
+  'favorites.refresh': 'Refresh {city}',
+  'favorites.edit': 'Edit {city}',
+  'favorites.pinned': 'Pinned',
+  'favorites.ungrouped': 'Other favorites',
+  'favorites.removeGroup': 'Ungroup {group}',
+  'favorites.nickname': 'Nickname',
+  'favorites.nicknamePlaceholder': 'e.g. Home',
+  'favorites.group': 'Group',
+  'favorites.groupPlaceholder': 'e.g. Family',
+  'favorites.pinToTop': 'Pin to top',
+  'favorites.save': 'Save',
+  'favorites.cancel': 'Cancel',
+  'favorites.reorderHint': 'Drag cards, or focus one and press Alt+↑/↓, to reorder',
+  'favorites.hint': '💡 Click on any city to view detailed weather information in a popup',
+  'storage.quarantinedTitle': "Some saved data couldn't be restored",
+  'storage.quarantined': "{count} saved items from an older version couldn't be upgraded and were set aside. Affected settings were reset to their defaults.",
+  'storage.dismiss': 'Dismiss',
+  'storage.open': 'Storage',
+  'storage.title': 'Storage & cache',
+  'storage.usage': '{used} of {budget} used',
+  'storage.locations': 'Cached locations',
+  'storage.empty': 'Nothing is cached yet',
+  'storage.fresh': 'Fresh',
+  'storage.stale': 'Stale',
+  'storage.refresh': 'Refresh {name}',
+  'storage.refreshStale': 'Refresh stale data',
+  'storage.pin': 'Keep {name}',
+  'storage.unpin': 'Stop keeping {name}',
+  'storage.delete': 'Delete {name}',
+  'storage.cleanupTitle': 'Cleanup',
+  'storage.cleanupHint': 'Removes cached cities that are neither favorites nor kept.',
+  'storage.cleanupNow': 'Clean up now',
+  'storage.schedule': 'Automatic cleanup',
+  'storage.scheduleOff': 'Off',
+  'storage.scheduleDaily': 'Daily',
+  'storage.scheduleWeekly': 'Weekly',
+  'storage.lastCleanup': 'Last cleanup {age}',
+  'storage.neverCleaned': 'Never cleaned up',
+  'storage.clearAll': 'Clear all cached data',
+  'transfer.open': 'Import & export',
+  'transfer.title': 'Import & export settings',
+  'transfer.exportTitle': 'Export',
+  'transfer.exportHint': 'Save your settings to a file, or to a link you can open in another browser or send to someone.',
+  'transfer.sectionFavorites': 'Favorites',
+  'transfer.sectionPreferences': 'Units, language and time display',
+  'transfer.sectionHistory': 'Recent searches and storage settings',
+  'transfer.favoriteCount': '{count} favorites',
+  'transfer.download': 'Download file',
+  'transfer.copyLink': 'Copy link',
+  'transfer.linkCopied': 'Link copied',
+  'transfer.linkHint': 'Anyone who opens this link can import these settings.',
+  'transfer.importTitle': 'Import',
+  'transfer.importHint': 'Open a settings file, or paste a settings link.',
+  'transfer.chooseFile': 'Choose file',
+  'transfer.linkPlaceholder': 'Paste a settings link',
+  'transfer.openLink': 'Open',
+  'transfer.importIncludes': 'This import includes:',
+  'transfer.modeMerge': 'Merge with my settings',
+  'transfer.modeReplace': 'Replace my settings',
+  'transfer.modeHint': 'Merging adds imported favorites and searches to yours. Units, language and other single settings are taken from the import either way.',
+  'transfer.import': 'Import',
+  'transfer.imported': 'Settings imported',
+  'transfer.cancel': 'Cancel',
+  'transfer.errorUnreadable': "This file or link couldn't be read.",
+  'transfer.errorNotSettings': "This isn't a Weathery settings file or link.",
+  'transfer.errorInvalid': 'These settings are damaged or come from a newer version of Weathery.',
+  'transfer.errorSave': "The imported settings couldn't be saved.",
+  'compare.title': 'Compare cities',
+  'compare.hint': 'Add 2–4 cities from your favorites or a search to see them side by side.',
+  'compare.fromFavorites': 'From favorites',
+  'compare.add': 'Add {city}',
+  'compare.full': 'Remove a city to add another.',
+  'compare.needMore': 'Add at least one more city to compare.',
+  'compare.remove': 'Remove {city} from the comparison',
+  'compare.now': 'Now',
+  'compare.nextDays': 'Next days',
+  'compare.condition': 'Conditions',
+  'compare.temperature': 'Temperature',
+  'compare.feelsLike': 'Feels like',
+  'compare.humidity': 'Humidity',
+  'compare.wind': 'Wind',
+  'compare.precipitation': 'Precipitation',
+  'compare.warmest': 'Warmest',
+  'compare.wettest': 'Wettest',
+  'compare.windiest': 'Windiest',
+  'offline.title': "You're offline",
+  'offline.noCache': 'No cached data available for this location',
+  'offline.showingCached': 'Showing cached data from {age}',
+  'offline.earlier': 'earlier',
+  'offline.outdated': 'Data may be outdated',
+  'offline.lastUpdated': 'Last updated {age}',
+  'offline.nearby': 'Stored for a spot {distance} away',
+  'offline.degraded': 'Connection unstable',
+  'offline.degradedHint': 'Some requests are failing, so weather may lag behind',
+  'offline.hoursMinutesAgo': '{hours}h {minutes}m ago',
+  'error.auth': "{provider} rejected the API key. Please check the app's API key configuration.",
+  'error.notFoundCity': 'Could not find weather data for "{city}". Please check the city name and try again.',
+  'error.notFoundLocation': 'No weather data is available for this location.',
+  'error.rateLimit': 'Too many requests to the weather service. Please wait a moment and try again.',
+  'error.server': '{provider} is having problems right now. Please try again later.',
+  'error.network': 'Could not reach {provider}. Please check your internet connection.',
+  'error.invalidResponse': '{provider} sent incomplete weather data. Please try again later.',
+  'error.badRequest': '{provider} could not process this request.',
+  'error.badRequestDetail': '{provider} could not process this request: {detail}',
+  'condition.Clear': 'Clear',
+  'condition.Clouds': 'Clouds',
+  'condition.Drizzle': 'Drizzle',
+  'condition.Rain': 'Rain',
+  'condition.Snow': 'Snow',
+  'condition.Thunderstorm': 'Thunderstorm',
+  'condition.Fog': 'Fog',
+  'condition.Mist': 'Mist',
+  'condition.Haze': 'Haze',
+  'condition.Smoke': 'Smoke',
+  'condition.Dust': 'Dust',
+  'condition.Sand': 'Sand',
+  'condition.Ash': 'Ash',
+  'condition.Squall': 'Squall',
+  'condition.Tornado': 'Tornado',
+  'condition.Unknown': 'Unknown',
+};
+
+export type TranslationKey = keyof typeof en;
+
+const TRANSLATIONS: Record<Locale, Record<TranslationKey, string>> = {
+  en,
+  de: {
+    'app.tagline': 'Deine liebste Wetter-App!',
+    'app.locationError': 'Standort konnte nicht ermittelt werden: {message}',
+    'app.gettingLocation': 'Standort wird ermittelt...',
+    'app.refreshing': 'Wird aktualisiert...',
+    'app.refreshed': 'Daten aktualisiert!',
+    'app.refresh': 'Daten aktualisieren',
+    'app.attribution': 'Wetterdaten von',
+    'app.poweredBy': '⚡ Mit React Query',
+    'tabs.current': 'Aktuell',
+    'tabs.forecast': 'Vorhersage',
+    'tabs.favorites': 'Favoriten',
+    'tabs.compare': 'Vergleich',
+    'settings.language': 'Sprache',
+    'settings.temperature': 'Temperatur',
+    'settings.windSpeed': 'Windgeschwindigkeit',
+    'settings.pressure': 'Luftdruck',
+    'weather.noData': 'Keine Wetterdaten verfügbar',
+    'weather.useCurrentLocation': 'Aktuellen Standort verwenden',
+    'weather.useCurrentLocationHint': 'Aktuellen Standort verwenden',
+    'weather.feelsLike': 'Gefühlt {temp}',
+    'weather.feels': 'Gefühlt {temp}',
+    'weather.highLow': 'Max.: {high} / Min.: {low}',
+    'weather.unavailable': 'Wetterdaten nicht verfügbar',
+    'weather.loading': 'Wetterdaten werden geladen...',
+    'weather.genericError': 'Ein Fehler ist aufgetreten',
+    'time.viewerTime': '{time} bei dir',
+    'weather.sunrise': 'Sonnenaufgang',
+    'weather.sunset': 'Sonnenuntergang',
+    'weather.updated': 'Stand {time}',
+    'settings.showViewerTime': 'Auch meine Ortszeit anzeigen',
+    'forecast.title': '5-Tage-Vorhersage',
+    'forecast.nextHours': 'Nächste 24 Stunden',
+    'forecast.showHours': 'Stündliche Vorhersage für {day} anzeigen',
+    'forecast.precipitation': 'Niederschlagswahrscheinlichkeit',
+    'forecast.wind': 'Wind',
+    'forecast.rain': 'Regen',
+    'forecast.snow': 'Schnee',
+    'forecast.maxWind': 'Max. Wind',
+    'forecast.gusts': 'Böen {speed}',
+    'forecast.humidity': 'Mittl. Luftfeuchte',
+    'forecast.daytime': 'Tag',
+    'forecast.night': 'Nacht',
+    'airQuality.title': 'Luftqualität',
+    'airQuality.index': 'LQI {aqi}',
+    'airQuality.level.1': 'Gut',
+    'airQuality.level.2': 'Ausreichend',
+    'airQuality.level.3': 'Mäßig',
+    'airQuality.level.4': 'Schlecht',
+    'airQuality.level.5': 'Sehr schlecht',
+    'airQuality.forecast': 'Nächste Tage',
+    'airQuality.unavailable': 'Keine Daten zur Luftqualität verfügbar',
+    'day.today': 'Heute',
+    'day.tomorrow': 'Morgen',
+    'search.placeholder': 'Stadt suchen...',
+    'search.searching': 'Suche läuft...',
+    'search.offline': 'Du bist offline. Gespeicherte Orte werden angezeigt.',
+    'search.noSavedMatches': 'Keine gespeicherten Orte gefunden',
+    'search.favorite': 'Favorit',
+    'search.recent': 'Zuletzt angesehen',
+    'search.cached': 'Zwischengespeichert',
+    'favorites.title': 'Favoriten',
+    'favorites.empty': 'Noch keine Lieblingsstädte. Füge welche über das Herzsymbol hinzu!',
+    'favorites.remove': '{city} aus den Favoriten entfernen',
+    'favorites.highLow': 'H {high} · T {low}',
+    'favorites.nextRain': 'Regen {when}',
+    'favorites.noRain': 'Kein Regen in der Vorhersage',
+    'favorites.refresh': '{city} aktualisieren',
+    'favorites.edit': '{city} bearbeiten',
+    'favorites.pinned': 'Angeheftet',
+    'favorites.ungrouped': 'Weitere Favoriten',
+    'favorites.removeGroup': 'Gruppe {group} auflösen',
+    'favorites.nickname': 'Spitzname',
+    'favorites.nicknamePlaceholder': 'z. B. Zuhause',
+    'favorites.group': 'Gruppe',
+    'favorites.groupPlaceholder': 'z. B. Familie',
+    'favorites.pinToTop': 'Oben anheften',
+    'favorites.save': 'Speichern',
+    'favorites.cancel': 'Abbrechen',
+    'favorites.reorderHint': 'Karten ziehen oder eine auswählen und Alt+↑/↓ drücken, um sie umzusortieren',
+    'favorites.hint': '💡 Klicke auf eine Stadt, um ausführliche Wetterinformationen anzuzeigen',
+    'storage.quarantinedTitle': 'Einige gespeicherte Daten konnten nicht wiederhergestellt werden',
+    'storage.quarantined': '{count} gespeicherte Einträge aus einer älteren Version konnten nicht aktualisiert werden und wurden beiseitegelegt. Betroffene Einstellungen wurden zurückgesetzt.',
+    'storage.dismiss': 'Schließen',
+    'storage.open': 'Speicher',
+    'storage.title': 'Speicher & Cache',
+    'storage.usage': '{used} von {budget} belegt',
+    'storage.locations': 'Zwischengespeicherte Orte',
+    'storage.empty': 'Noch nichts zwischengespeichert',
+    'storage.fresh': 'Aktuell',
+    'storage.stale': 'Veraltet',
+    'storage.refresh': '{name} aktualisieren',
+    'storage.refreshStale': 'Veraltete Daten aktualisieren',
+    'storage.pin': '{name} behalten',
+    'storage.unpin': '{name} nicht mehr behalten',
+    'storage.delete': '{name} löschen',
+    'storage.cleanupTitle': 'Aufräumen',
+    'storage.cleanupHint': 'Entfernt zwischengespeicherte Städte, die weder Favoriten sind noch behalten werden.',
+    'storage.cleanupNow': 'Jetzt aufräumen',
+    'storage.schedule': 'Automatisch aufräumen',
+    'storage.scheduleOff': 'Aus',
+    'storage.scheduleDaily': 'Täglich',
+    'storage.scheduleWeekly': 'Wöchentlich',
+    'storage.lastCleanup': 'Zuletzt aufgeräumt {age}',
+    'storage.neverCleaned': 'Noch nie aufgeräumt',
+    'storage.clearAll': 'Alle zwischengespeicherten Daten löschen',
+    'transfer.open': 'Import & Export',
+    'transfer.title': 'Einstellungen importieren & exportieren',
+    'transfer.exportTitle': 'Exportieren',
+    'transfer.exportHint': 'Speichere deine Einstellungen in einer Datei oder einem Link, den du in einem anderen Browser öffnen oder weitergeben kannst.',
+    'transfer.sectionFavorites': 'Favoriten',
+    'transfer.sectionPreferences': 'Einheiten, Sprache und Zeitanzeige',
+    'transfer.sectionHistory': 'Letzte Suchen und Speichereinstellungen',
+    'transfer.favoriteCount': '{count} Favoriten',
+    'transfer.download': 'Datei herunterladen',
+    'transfer.copyLink': 'Link kopieren',
+    'transfer.linkCopied': 'Link kopiert',
+    'transfer.linkHint': 'Jeder, der diesen Link öffnet, kann diese Einstellungen importieren.',
+    'transfer.importTitle': 'Importieren',
+    'transfer.importHint': 'Öffne eine Einstellungsdatei oder füge einen Einstellungslink ein.',
+    'transfer.chooseFile': 'Datei auswählen',
+    'transfer.linkPlaceholder': 'Einstellungslink einfügen',
+    'transfer.openLink': 'Öffnen',
+    'transfer.importIncludes': 'Dieser Import enthält:',
+    'transfer.modeMerge': 'Mit meinen Einstellungen zusammenführen',
+    'transfer.modeReplace': 'Meine Einstellungen ersetzen',
+    'transfer.modeHint': 'Beim Zusammenführen kommen importierte Favoriten und Suchen zu deinen hinzu. Einheiten, Sprache und andere einzelne Einstellungen werden in jedem Fall übernommen.',
+    'transfer.import': 'Importieren',
+    'transfer.imported': 'Einstellungen importiert',
+    'transfer.cancel': 'Abbrechen',
+    'transfer.errorUnreadable': 'Diese Datei oder dieser Link konnte nicht gelesen werden.',
+    'transfer.errorNotSettings': 'Das ist keine Weathery-Einstellungsdatei und kein Einstellungslink.',
+    'transfer.errorInvalid': 'Diese Einstellungen sind beschädigt oder stammen aus einer neueren Weathery-Version.',
+    'transfer.errorSave': 'Die importierten Einstellungen konnten nicht gespeichert werden.',
+    'compare.title': 'Städte vergleichen',
+    'compare.hint': 'Füge 2–4 Städte aus deinen Favoriten oder einer Suche hinzu, um sie nebeneinander zu sehen.',
+    'compare.fromFavorites': 'Aus den Favoriten',
+    'compare.add': '{city} hinzufügen',
+    'compare.full': 'Entferne eine Stadt, um eine weitere hinzuzufügen.',
+    'compare.needMore': 'Füge mindestens eine weitere Stadt zum Vergleichen hinzu.',
+    'compare.remove': '{city} aus dem Vergleich entfernen',
+    'compare.now': 'Jetzt',
+    'compare.nextDays': 'Nächste Tage',
+    'compare.condition': 'Wetterlage',
+    'compare.temperature': 'Temperatur',
+    'compare.feelsLike': 'Gefühlt',
+    'compare.humidity': 'Luftfeuchte',
+    'compare.wind': 'Wind',
+    'compare.precipitation': 'Niederschlag',
+    'compare.warmest': 'Am wärmsten',
+    'compare.wettest': 'Am nassesten',
+    'compare.windiest': 'Am windigsten',
+    'offline.title': 'Du bist offline',
+    'offline.noCache': 'Für diesen Ort sind keine zwischengespeicherten Daten vorhanden',
+    'offline.showingCached': 'Zwischengespeicherte Daten von {age}',
+    'offline.earlier': 'früher',
+    'offline.outdated': 'Daten sind möglicherweise veraltet',
+    'offline.lastUpdated': 'Zuletzt aktualisiert {age}',
+    'offline.nearby': 'Gespeichert für einen Ort {distance} entfernt',
+    'offline.degraded': 'Verbindung instabil',
+    'offline.degradedHint': 'Einige Anfragen schlagen fehl, das Wetter ist daher eventuell nicht aktuell',
+    'offline.hoursMinutesAgo': 'vor {hours} Std. {minutes} Min.',
+    'error.auth': '{provider} hat den API-Schlüssel abgelehnt. Bitte prüfe die API-Schlüssel-Konfiguration der App.',
+    'error.notFoundCity': 'Keine Wetterdaten für „{city}“ gefunden. Bitte prüfe den Städtenamen und versuche es erneut.',
+    'error.notFoundLocation': 'Für diesen Ort sind keine Wetterdaten verfügbar.',
+    'error.rateLimit': 'Zu viele Anfragen an den Wetterdienst. Bitte warte einen Moment und versuche es erneut.',
+    'error.server': '{provider} hat gerade Probleme. Bitte versuche es später erneut.',
+    'error.network': '{provider} ist nicht erreichbar. Bitte prüfe deine Internetverbindung.',
+    'error.invalidResponse': '{provider} hat unvollständige Wetterdaten gesendet. Bitte versuche es später erneut.',
+    'error.badRequest': '{provider} konnte diese Anfrage nicht verarbeiten.',
+    'error.badRequestDetail': '{provider} konnte diese Anfrage nicht verarbeiten: {detail}',
+    'condition.Clear': 'Klar',
+    'condition.Clouds': 'Bewölkt',
+    'condition.Drizzle': 'Nieselregen',
+    'condition.Rain': 'Regen',
+    'condition.Snow': 'Schnee',
+    'condition.Thunderstorm': 'Gewitter',
+    'condition.Fog': 'Nebel',
+    'condition.Mist': 'Dunst',
+    'condition.Haze': 'Diesig',
+    'condition.Smoke': 'Rauch',
+    'condition.Dust': 'Staub',
+    'condition.Sand': 'Sand',
+    'condition.Ash': 'Asche',
+    'condition.Squall': 'Böen',
+    'condition.Tornado': 'Tornado',
+    'condition.Unknown': 'Unbekannt',
+  },
+  fr: {
+    'app.tagline': 'Votre application météo préférée !',
+    'app.locationError': 'Impossible d’obtenir votre position : {message}',
+    'app.gettingLocation': 'Recherche de votre position...',
+    'app.refreshing': 'Actualisation...',
+    'app.refreshed': 'Données actualisées !',
+    'app.refresh': 'Actualiser les données',
+    'app.attribution': 'Données météo fournies par',
+    'app.poweredBy': '⚡ Propulsé par React Query',
+    'tabs.current': 'Actuel',
+    'tabs.forecast': 'Prévisions',
+    'tabs.favorites': 'Favoris',
+    'tabs.compare': 'Comparer',
+    'settings.language': 'Langue',
+    'settings.temperature': 'Température',
+    'settings.windSpeed': 'Vitesse du vent',
+    'settings.pressure': 'Pression',
+    'weather.noData': 'Aucune donnée météo disponible',
+    'weather.useCurrentLocation': 'Utiliser ma position',
+    'weather.useCurrentLocationHint': 'Utiliser ma position',
+    'weather.feelsLike': 'Ressenti {temp}',
+    'weather.feels': 'Ressenti {temp}',
+    'weather.highLow': 'Max. : {high} / Min. : {low}',
+    'weather.unavailable': 'Données météo indisponibles',
+    'weather.loading': 'Chargement des données météo...',
+    'weather.genericError': 'Une erreur est survenue',
+    'time.viewerTime': '{time} chez vous',
+    'weather.sunrise': 'Lever du soleil',
+    'weather.sunset': 'Coucher du soleil',
+    'weather.updated': 'Mis à jour à {time}',
+    'settings.showViewerTime': 'Afficher aussi mon heure locale',
+    'forecast.title': 'Prévisions sur 5 jours',
+    'forecast.nextHours': 'Prochaines 24 heures',
+    'forecast.showHours': 'Afficher les prévisions horaires pour {day}',
+    'forecast.precipitation': 'Probabilité de précipitations',
+    'forecast.wind': 'Vent',
+    'forecast.rain': 'Pluie',
+    'forecast.snow': 'Neige',
+    'forecast.maxWind': 'Vent max.',
+    'forecast.gusts': 'rafales {speed}',
+    'forecast.humidity': 'Humidité moy.',
+    'forecast.daytime': 'Jour',
+    'forecast.night': 'Nuit',
+    'airQuality.title': 'Qualité de l’air',
+    'airQuality.index': 'IQA {aqi}',
+    'airQuality.level.1': 'Bonne',
+    'airQuality.level.2': 'Correcte',
+    'airQuality.level.3': 'Moyenne',
+    'airQuality.level.4': 'Mauvaise',
+    'airQuality.level.5': 'Très mauvaise',
+    'airQuality.forecast': 'Jours à venir',
+    'airQuality.unavailable': 'Données de qualité de l’air indisponibles',
+    'day.today': 'Aujourd’hui',
+    'day.tomorrow': 'Demain',
+    'search.placeholder': 'Rechercher une ville...',
+    'search.searching': 'Recherche...',
+    'search.offline': 'Vous êtes hors ligne. Lieux enregistrés affichés.',
+    'search.noSavedMatches': 'Aucun lieu enregistré ne correspond',
+    'search.favorite': 'Favori',
+    'search.recent': 'Récent',
+    'search.cached': 'En cache',
+    'favorites.title': 'Favoris',
+    'favorites.empty': 'Aucune ville favorite pour l’instant. Ajoutez-en avec l’icône en forme de cœur !',
+    'favorites.remove': 'Retirer {city} des favoris',
+    'favorites.highLow': 'Max {high} · Min {low}',
+    'favorites.nextRain': 'Pluie {when}',
+    'favorites.noRain': 'Pas de pluie prévue',
+    'favorites.refresh': 'Actualiser {city}',
+    'favorites.edit': 'Modifier {city}',
+    'favorites.pinned': 'Épinglés',
+    'favorites.ungrouped': 'Autres favoris',
+    'favorites.removeGroup': 'Dissoudre le groupe {group}',
+    'favorites.nickname': 'Surnom',
+    'favorites.nicknamePlaceholder': 'ex. Maison',
+    'favorites.group': 'Groupe',
+    'favorites.groupPlaceholder': 'ex. Famille',
+    'favorites.pinToTop': 'Épingler en haut',
+    'favorites.save': 'Enregistrer',
+    'favorites.cancel': 'Annuler',
+    'favorites.reorderHint': 'Faites glisser les cartes, ou sélectionnez-en une et appuyez sur Alt+↑/↓, pour les réordonner',
+    'favorites.hint': '💡 Cliquez sur une ville pour afficher la météo détaillée',
+    'storage.quarantinedTitle': "Certaines données enregistrées n'ont pas pu être restaurées",
+    'storage.quarantined': "{count} éléments enregistrés par une version précédente n'ont pas pu être mis à jour et ont été mis de côté. Les réglages concernés ont été réinitialisés.",
+    'storage.dismiss': 'Fermer',
+    'storage.open': 'Stockage',
+    'storage.title': 'Stockage et cache',
+    'storage.usage': '{used} utilisés sur {budget}',
+    'storage.locations': 'Lieux en cache',
+    'storage.empty': 'Rien en cache pour le moment',
+    'storage.fresh': 'À jour',
+    'storage.stale': 'Obsolète',
+    'storage.refresh': 'Actualiser {name}',
+    'storage.refreshStale': 'Actualiser les données obsolètes',
+    'storage.pin': 'Conserver {name}',
+    'storage.unpin': 'Ne plus conserver {name}',
+    'storage.delete': 'Supprimer {name}',
+    'storage.cleanupTitle': 'Nettoyage',
+    'storage.cleanupHint': 'Supprime les villes en cache qui ne sont ni favorites ni conservées.',
+    'storage.cleanupNow': 'Nettoyer maintenant',
+    'storage.schedule': 'Nettoyage automatique',
+    'storage.scheduleOff': 'Désactivé',
+    'storage.scheduleDaily': 'Quotidien',
+    'storage.scheduleWeekly': 'Hebdomadaire',
+    'storage.lastCleanup': 'Dernier nettoyage {age}',
+    'storage.neverCleaned': 'Jamais nettoyé',
+    'storage.clearAll': 'Effacer toutes les données en cache',
+    'transfer.open': 'Importer et exporter',
+    'transfer.title': 'Importer et exporter les paramètres',
+    'transfer.exportTitle': 'Exporter',
+    'transfer.exportHint': 'Enregistrez vos paramètres dans un fichier ou un lien à ouvrir dans un autre navigateur ou à partager.',
+    'transfer.sectionFavorites': 'Favoris',
+    'transfer.sectionPreferences': "Unités, langue et affichage de l'heure",
+    'transfer.sectionHistory': 'Recherches récentes et paramètres de stockage',
+    'transfer.favoriteCount': '{count} favoris',
+    'transfer.download': 'Télécharger le fichier',
+    'transfer.copyLink': 'Copier le lien',
+    'transfer.linkCopied': 'Lien copié',
+    'transfer.linkHint': 'Toute personne qui ouvre ce lien peut importer ces paramètres.',
+    'transfer.importTitle': 'Importer',
+    'transfer.importHint': 'Ouvrez un fichier de paramètres ou collez un lien de paramètres.',
+    'transfer.chooseFile': 'Choisir un fichier',
+    'transfer.linkPlaceholder': 'Coller un lien de paramètres',
+    'transfer.openLink': 'Ouvrir',
+    'transfer.importIncludes': 'Cet import contient :',
+    'transfer.modeMerge': 'Fusionner avec mes paramètres',
+    'transfer.modeReplace': 'Remplacer mes paramètres',
+    'transfer.modeHint': "La fusion ajoute les favoris et recherches importés aux vôtres. Les unités, la langue et les autres réglages uniques sont repris de l'import dans tous les cas.",
+    'transfer.import': 'Importer',
+    'transfer.imported': 'Paramètres importés',
+    'transfer.cancel': 'Annuler',
+    'transfer.errorUnreadable': 'Impossible de lire ce fichier ou ce lien.',
+    'transfer.errorNotSettings': "Ce n'est pas un fichier ou un lien de paramètres Weathery.",
+    'transfer.errorInvalid': "Ces paramètres sont endommagés ou proviennent d'une version plus récente de Weathery.",
+    'transfer.errorSave': "Impossible d'enregistrer les paramètres importés.",
+    'compare.title': 'Comparer des villes',
+    'compare.hint': 'Ajoutez 2 à 4 villes depuis vos favoris ou une recherche pour les voir côte à côte.',
+    'compare.fromFavorites': 'Depuis les favoris',
+    'compare.add': 'Ajouter {city}',
+    'compare.full': 'Retirez une ville pour en ajouter une autre.',
+    'compare.needMore': 'Ajoutez au moins une autre ville à comparer.',
+    'compare.remove': 'Retirer {city} de la comparaison',
+    'compare.now': 'Maintenant',
+    'compare.nextDays': 'Prochains jours',
+    'compare.condition': 'Conditions',
+    'compare.temperature': 'Température',
+    'compare.feelsLike': 'Ressenti',
+    'compare.humidity': 'Humidité',
+    'compare.wind': 'Vent',
+    'compare.precipitation': 'Précipitations',
+    'compare.warmest': 'Le plus chaud',
+    'compare.wettest': 'Le plus humide',
+    'compare.windiest': 'Le plus venteux',
+    'offline.title': 'Vous êtes hors ligne',
+    'offline.noCache': 'Aucune donnée en cache pour ce lieu',
+    'offline.showingCached': 'Données en cache de {age}',
+    'offline.earlier': 'plus tôt',
+    'offline.outdated': 'Les données sont peut-être obsolètes',
+    'offline.lastUpdated': 'Dernière mise à jour {age}',
+    'offline.nearby': 'Enregistrées pour un lieu à {distance}',
+    'offline.degraded': 'Connexion instable',
+    'offline.degradedHint': 'Certaines requêtes échouent, la météo peut donc être en retard',
+    'offline.hoursMinutesAgo': 'il y a {hours} h {minutes} min',
+    'error.auth': '{provider} a refusé la clé API. Veuillez vérifier la configuration de la clé API.',
+    'error.notFoundCity': 'Aucune donnée météo trouvée pour « {city} ». Vérifiez le nom de la ville et réessayez.',
+    'error.notFoundLocation': 'Aucune donnée météo n’est disponible pour ce lieu.',
+    'error.rateLimit': 'Trop de requêtes vers le service météo. Patientez un instant puis réessayez.',
+    'error.server': '{provider} rencontre des problèmes. Veuillez réessayer plus tard.',
+    'error.network': 'Impossible de joindre {provider}. Vérifiez votre connexion internet.',
+    'error.invalidResponse': '{provider} a envoyé des données météo incomplètes. Veuillez réessayer plus tard.',
+    'error.badRequest': '{provider} n’a pas pu traiter cette requête.',
+    'error.badRequestDetail': '{provider} n’a pas pu traiter cette requête : {detail}',
+    'condition.Clear': 'Dégagé',
+    'condition.Clouds': 'Nuageux',
+    'condition.Drizzle': 'Bruine',
+    'condition.Rain': 'Pluie',
+    'condition.Snow': 'Neige',
+    'condition.Thunderstorm': 'Orage',
+    'condition.Fog': 'Brouillard',
+    'condition.Mist': 'Brume',
+    'condition.Haze': 'Brume sèche',
+    'condition.Smoke': 'Fumée',
+    'condition.Dust': 'Poussière',
+    'condition.Sand': 'Sable',
+    'condition.Ash': 'Cendres',
+    'condition.Squall': 'Grains',
+    'condition.Tornado': 'Tornade',
+    'condition.Unknown': 'Inconnu',
+  },
+  es: {
+    'app.tagline': '¡Tu app del tiempo favorita!',
+    'app.locationError': 'No se pudo obtener tu ubicación: {message}',
+    'app.gettingLocation': 'Obteniendo tu ubicación...',
+    'app.refreshing': 'Actualizando...',
+    'app.refreshed': '¡Datos actualizados!',
+    'app.refresh': 'Actualizar datos',
+    'app.attribution': 'Datos meteorológicos de',
+    'app.poweredBy': '⚡ Impulsado por React Query',
+    'tabs.current': 'Actual',
+    'tabs.forecast': 'Pronóstico',
+    'tabs.favorites': 'Favoritos',
+    'tabs.compare': 'Comparar',
+    'settings.language': 'Idioma',
+    'settings.temperature': 'Temperatura',
+    'settings.windSpeed': 'Velocidad del viento',
+    'settings.pressure': 'Presión',
+    'weather.noData': 'No hay datos meteorológicos disponibles',
+    'weather.useCurrentLocation': 'Usar ubicación actual',
+    'weather.useCurrentLocationHint': 'Usar ubicación actual',
+    'weather.feelsLike': 'Sensación de {temp}',
+    'weather.feels': 'Sensación {temp}',
+    'weather.highLow': 'Máx.: {high} / Mín.: {low}',
+    'weather.unavailable': 'Datos meteorológicos no disponibles',
+    'weather.loading': 'Cargando datos meteorológicos...',
+    'weather.genericError': 'Se produjo un error',
+    'time.viewerTime': '{time} tu hora',
+    'weather.sunrise': 'Amanecer',
+    'weather.sunset': 'Atardecer',
+    'weather.updated': 'Actualizado a las {time}',
+    'settings.showViewerTime': 'Mostrar también mi hora local',
+    'forecast.title': 'Pronóstico de 5 días',
+    'forecast.nextHours': 'Próximas 24 horas',
+    'forecast.showHours': 'Mostrar el pronóstico por horas de {day}',
+    'forecast.precipitation': 'Probabilidad de precipitación',
+    'forecast.wind': 'Viento',
+    'forecast.rain': 'Lluvia',
+    'forecast.snow': 'Nieve',
+    'forecast.maxWind': 'Viento máx.',
+    'forecast.gusts': 'ráfagas {speed}',
+    'forecast.humidity': 'Humedad media',
+    'forecast.daytime': 'Día',
+    'forecast.night': 'Noche',
+    'airQuality.title': 'Calidad del aire',
+    'airQuality.index': 'ICA {aqi}',
+    'airQuality.level.1': 'Buena',
+    'airQuality.level.2': 'Aceptable',
+    'airQuality.level.3': 'Moderada',
+    'airQuality.level.4': 'Mala',
+    'airQuality.level.5': 'Muy mala',
+    'airQuality.forecast': 'Próximos días',
+    'airQuality.unavailable': 'Datos de calidad del aire no disponibles',
+    'day.today': 'Hoy',
+    'day.tomorrow': 'Mañana',
+    'search.placeholder': 'Buscar una ciudad...',
+    'search.searching': 'Buscando...',
+    'search.offline': 'Estás sin conexión. Se muestran los lugares guardados.',
+    'search.noSavedMatches': 'Ningún lugar guardado coincide con la búsqueda',
+    'search.favorite': 'Favorito',
+    'search.recent': 'Reciente',
+    'search.cached': 'Guardado',
+    'favorites.title': 'Favoritos',
+    'favorites.empty': 'Aún no tienes ciudades favoritas. ¡Añade alguna con el icono del corazón!',
+    'favorites.remove': 'Quitar {city} de favoritos',
+    'favorites.highLow': 'Máx {high} · Mín {low}',
+    'favorites.nextRain': 'Lluvia {when}',
+    'favorites.noRain': 'Sin lluvia en el pronóstico',
+    'favorites.refresh': 'Actualizar {city}',
+    'favorites.edit': 'Editar {city}',
+    'favorites.pinned': 'Fijados',
+    'favorites.ungrouped': 'Otros favoritos',
+    'favorites.removeGroup': 'Desagrupar {group}',
+    'favorites.nickname': 'Apodo',
+    'favorites.nicknamePlaceholder': 'p. ej. Casa',
+    'favorites.group': 'Grupo',
+    'favorites.groupPlaceholder': 'p. ej. Familia',
+    'favorites.pinToTop': 'Fijar arriba',
+    'favorites.save': 'Guardar',
+    'favorites.cancel': 'Cancelar',
+    'favorites.reorderHint': 'Arrastra las tarjetas, o selecciona una y pulsa Alt+↑/↓, para reordenarlas',
+    'favorites.hint': '💡 Haz clic en una ciudad para ver el tiempo detallado',
+    'storage.quarantinedTitle': 'No se pudieron restaurar algunos datos guardados',
+    'storage.quarantined': '{count} elementos guardados de una versión anterior no se pudieron actualizar y se apartaron. Los ajustes afectados se restablecieron.',
+    'storage.dismiss': 'Cerrar',
+    'storage.open': 'Almacenamiento',
+    'storage.title': 'Almacenamiento y caché',
+    'storage.usage': '{used} de {budget} usados',
+    'storage.locations': 'Lugares guardados',
+    'storage.empty': 'Todavía no hay nada guardado',
+    'storage.fresh': 'Actual',
+    'storage.stale': 'Desactualizado',
+    'storage.refresh': 'Actualizar {name}',
+    'storage.refreshStale': 'Actualizar datos obsoletos',
+    'storage.pin': 'Conservar {name}',
+    'storage.unpin': 'Dejar de conservar {name}',
+    'storage.delete': 'Eliminar {name}',
+    'storage.cleanupTitle': 'Limpieza',
+    'storage.cleanupHint': 'Elimina las ciudades guardadas que no son favoritas ni se conservan.',
+    'storage.cleanupNow': 'Limpiar ahora',
+    'storage.schedule': 'Limpieza automática',
+    'storage.scheduleOff': 'Desactivada',
+    'storage.scheduleDaily': 'Diaria',
+    'storage.scheduleWeekly': 'Semanal',
+    'storage.lastCleanup': 'Última limpieza {age}',
+    'storage.neverCleaned': 'Nunca se ha limpiado',
+    'storage.clearAll': 'Borrar todos los datos guardados',
+    'transfer.open': 'Importar y exportar',
+    'transfer.title': 'Importar y exportar ajustes',
+    'transfer.exportTitle': 'Exportar',
+    'transfer.exportHint': 'Guarda tus ajustes en un archivo o en un enlace que puedes abrir en otro navegador o compartir.',
+    'transfer.sectionFavorites': 'Favoritos',
+    'transfer.sectionPreferences': 'Unidades, idioma y formato de hora',
+    'transfer.sectionHistory': 'Búsquedas recientes y ajustes de almacenamiento',
+    'transfer.favoriteCount': '{count} favoritos',
+    'transfer.download': 'Descargar archivo',
+    'transfer.copyLink': 'Copiar enlace',
+    'transfer.linkCopied': 'Enlace copiado',
+    'transfer.linkHint': 'Cualquiera que abra este enlace puede importar estos ajustes.',
+    'transfer.importTitle': 'Importar',
+    'transfer.importHint': 'Abre un archivo de ajustes o pega un enlace de ajustes.',
+    'transfer.chooseFile': 'Elegir archivo',
+    'transfer.linkPlaceholder': 'Pega un enlace de ajustes',
+    'transfer.openLink': 'Abrir',
+    'transfer.importIncludes': 'Esta importación incluye:',
+    'transfer.modeMerge': 'Combinar con mis ajustes',
+    'transfer.modeReplace': 'Reemplazar mis ajustes',
+    'transfer.modeHint': 'Al combinar, los favoritos y búsquedas importados se añaden a los tuyos. Las unidades, el idioma y otros ajustes únicos se toman de la importación en ambos casos.',
+    'transfer.import': 'Importar',
+    'transfer.imported': 'Ajustes importados',
+    'transfer.cancel': 'Cancelar',
+    'transfer.errorUnreadable': 'No se pudo leer este archivo o enlace.',
+    'transfer.errorNotSettings': 'Esto no es un archivo ni un enlace de ajustes de Weathery.',
+    'transfer.errorInvalid': 'Estos ajustes están dañados o proceden de una versión más reciente de Weathery.',
+    'transfer.errorSave': 'No se pudieron guardar los ajustes importados.',
+    'compare.title': 'Comparar ciudades',
+    'compare.hint': 'Añade de 2 a 4 ciudades desde tus favoritos o una búsqueda para verlas lado a lado.',
+    'compare.fromFavorites': 'De favoritos',
+    'compare.add': 'Añadir {city}',
+    'compare.full': 'Quita una ciudad para añadir otra.',
+    'compare.needMore': 'Añade al menos una ciudad más para comparar.',
+    'compare.remove': 'Quitar {city} de la comparación',
+    'compare.now': 'Ahora',
+    'compare.nextDays': 'Próximos días',
+    'compare.condition': 'Condiciones',
+    'compare.temperature': 'Temperatura',
+    'compare.feelsLike': 'Sensación',
+    'compare.humidity': 'Humedad',
+    'compare.wind': 'Viento',
+    'compare.precipitation': 'Precipitación',
+    'compare.warmest': 'Más cálido',
+    'compare.wettest': 'Más lluvioso',
+    'compare.windiest': 'Más ventoso',
+    'offline.title': 'Estás sin conexión',
+    'offline.noCache': 'No hay datos guardados para esta ubicación',
+    'offline.showingCached': 'Mostrando datos guardados de {age}',
+    'offline.earlier': 'antes',
+    'offline.outdated': 'Los datos pueden estar desactualizados',
+    'offline.lastUpdated': 'Última actualización {age}',
+    'offline.nearby': 'Guardados para un lugar a {distance}',
+    'offline.degraded': 'Conexión inestable',
+    'offline.degradedHint': 'Algunas solicitudes fallan, así que el tiempo puede no estar al día',
+    'offline.hoursMinutesAgo': 'hace {hours} h {minutes} min',
+    'error.auth': '{provider} rechazó la clave de API. Revisa la configuración de la clave de API de la app.',
+    'error.notFoundCity': 'No se encontraron datos para "{city}". Revisa el nombre de la ciudad e inténtalo de nuevo.',
+    'error.notFoundLocation': 'No hay datos meteorológicos para esta ubicación.',
+    'error.rateLimit': 'Demasiadas solicitudes al servicio meteorológico. Espera un momento e inténtalo de nuevo.',
+    'error.server': '{provider} tiene problemas en este momento. Inténtalo más tarde.',
+    'error.network': 'No se pudo conectar con {provider}. Revisa tu conexión a internet.',
+    'error.invalidResponse': '{provider} envió datos meteorológicos incompletos. Inténtalo más tarde.',
+    'error.badRequest': '{provider} no pudo procesar esta solicitud.',
+    'error.badRequestDetail': '{provider} no pudo procesar esta solicitud: {detail}',
+    'condition.Clear': 'Despejado',
+    'condition.Clouds': 'Nublado',
+    'condition.Drizzle': 'Llovizna',
+    'condition.Rain': 'Lluvia',
+    'condition.Snow': 'Nieve',
+    'condition.Thunderstorm': 'Tormenta',
+    'condition.Fog': 'Niebla',
+    'condition.Mist': 'Neblina',
+    'condition.Haze': 'Calima',
+    'condition.Smoke': 'Humo',
+    'condition.Dust': 'Polvo',
+    'condition.Sand': 'Arena',
+    'condition.Ash': 'Ceniza',
+    'condition.Squall': 'Turbonada',
+    'condition.Tornado': 'Tornado',
+    'condition.Unknown': 'Desconocido',
+  },
+  ja: {
+    'app.tagline': 'いちばんお気に入りの天気アプリ！',
+    'app.locationError': '現在地を取得できませんでした: {message}',
+    'app.gettingLocation': '現在地を取得しています...',
+    'app.refreshing': '更新しています...',
+    'app.refreshed': 'データを更新しました！',
+    'app.refresh': 'データを更新',
+    'app.attribution': '気象データ提供:',
+    'app.poweredBy': '⚡ React Query で強化',
+    'tabs.current': '現在',
+    'tabs.forecast': '予報',
+    'tabs.favorites': 'お気に入り',
+    'tabs.compare': '比較',
+    'settings.language': '言語',
+    'settings.temperature': '気温',
+    'settings.windSpeed': '風速',
+    'settings.pressure': '気圧',
+    'weather.noData': '気象データがありません',
+    'weather.useCurrentLocation': '現在地を使用',
+    'weather.useCurrentLocationHint': '現在地を使用',
+    'weather.feelsLike': '体感 {temp}',
+    'weather.feels': '体感 {temp}',
+    'weather.highLow': '最高: {high} / 最低: {low}',
+    'weather.unavailable': '気象データを取得できません',
+    'weather.loading': '気象データを読み込んでいます...',
+    'weather.genericError': 'エラーが発生しました',
+    'time.viewerTime': 'あなたの時刻 {time}',
+    'weather.sunrise': '日の出',
+    'weather.sunset': '日の入り',
+    'weather.updated': '{time} 更新',
+    'settings.showViewerTime': '自分の現地時刻も表示',
+    'forecast.title': '5日間予報',
+    'forecast.nextHours': '今後24時間',
+    'forecast.showHours': '{day}の1時間ごとの予報を表示',
+    'forecast.precipitation': '降水確率',
+    'forecast.wind': '風',
+    'forecast.rain': '雨量',
+    'forecast.snow': '降雪量',
+    'forecast.maxWind': '最大風速',
+    'forecast.gusts': '突風 {speed}',
+    'forecast.humidity': '平均湿度',
+    'forecast.daytime': '昼',
+    'forecast.night': '夜',
+    'airQuality.title': '大気質',
+    'airQuality.index': 'AQI {aqi}',
+    'airQuality.level.1': '良い',
+    'airQuality.level.2': '普通',
+    'airQuality.level.3': 'やや悪い',
+    'airQuality.level.4': '悪い',
+    'airQuality.level.5': '非常に悪い',
+    'airQuality.forecast': '今後数日',
+    'airQuality.unavailable': '大気質データを取得できません',
+    'day.today': '今日',
+    'day.tomorrow': '明日',
+    'search.placeholder': '都市を検索...',
+    'search.searching': '検索しています...',
+    'search.offline': 'オフラインです。保存済みの場所を表示しています。',
+    'search.noSavedMatches': '一致する保存済みの場所はありません',
+    'search.favorite': 'お気に入り',
+    'search.recent': '最近',
+    'search.cached': 'キャッシュ',
+    'favorites.title': 'お気に入り',
+    'favorites.empty': 'お気に入りの都市はまだありません。ハートのアイコンで追加しましょう！',
+    'favorites.remove': '{city} をお気に入りから削除',
+    'favorites.highLow': '最高 {high} · 最低 {low}',
+    'favorites.nextRain': '雨: {when}',
+    'favorites.noRain': '予報期間中に雨はありません',
+    'favorites.refresh': '{city}を更新',
+    'favorites.edit': '{city}を編集',
+    'favorites.pinned': 'ピン留め',
+    'favorites.ungrouped': 'その他のお気に入り',
+    'favorites.removeGroup': 'グループ「{group}」を解除',
+    'favorites.nickname': 'ニックネーム',
+    'favorites.nicknamePlaceholder': '例: 自宅',
+    'favorites.group': 'グループ',
+    'favorites.groupPlaceholder': '例: 家族',
+    'favorites.pinToTop': '先頭にピン留め',
+    'favorites.save': '保存',
+    'favorites.cancel': 'キャンセル',
+    'favorites.reorderHint': 'カードをドラッグするか、選択してAlt+↑/↓で並べ替えます',
+    'favorites.hint': '💡 都市をクリックすると詳しい天気が表示されます',
+    'storage.quarantinedTitle': '一部の保存データを復元できませんでした',
+    'storage.quarantined': '以前のバージョンで保存された {count} 件のデータを更新できなかったため、別に保管しました。該当する設定は初期値に戻りました。',
+    'storage.dismiss': '閉じる',
+    'storage.open': 'ストレージ',
+    'storage.title': 'ストレージとキャッシュ',
+    'storage.usage': '{budget}中{used}を使用',
+    'storage.locations': 'キャッシュされた場所',
+    'storage.empty': 'キャッシュはまだありません',
+    'storage.fresh': '最新',
+    'storage.stale': '古いデータ',
+    'storage.refresh': '{name}を更新',
+    'storage.refreshStale': '古いデータを更新',
+    'storage.pin': '{name}を保持',
+    'storage.unpin': '{name}の保持を解除',
+    'storage.delete': '{name}を削除',
+    'storage.cleanupTitle': 'クリーンアップ',
+    'storage.cleanupHint': 'お気に入りでも保持対象でもないキャッシュ済みの都市を削除します。',
+    'storage.cleanupNow': '今すぐクリーンアップ',
+    'storage.schedule': '自動クリーンアップ',
+    'storage.scheduleOff': 'オフ',
+    'storage.scheduleDaily': '毎日',
+    'storage.scheduleWeekly': '毎週',
+    'storage.lastCleanup': '前回のクリーンアップ: {age}',
+    'storage.neverCleaned': 'クリーンアップ未実行',
+    'storage.clearAll': 'キャッシュデータをすべて削除',
+    'transfer.open': 'インポートとエクスポート',
+    'transfer.title': '設定のインポートとエクスポート',
+    'transfer.exportTitle': 'エクスポート',
+    'transfer.exportHint': '設定をファイルまたはリンクに保存して、別のブラウザで開いたり他の人に送ったりできます。',
+    'transfer.sectionFavorites': 'お気に入り',
+    'transfer.sectionPreferences': '単位、言語、時刻表示',
+    'transfer.sectionHistory': '最近の検索とストレージ設定',
+    'transfer.favoriteCount': 'お気に入り {count} 件',
+    'transfer.download': 'ファイルをダウンロード',
+    'transfer.copyLink': 'リンクをコピー',
+    'transfer.linkCopied': 'リンクをコピーしました',
+    'transfer.linkHint': 'このリンクを開いた人は誰でもこれらの設定をインポートできます。',
+    'transfer.importTitle': 'インポート',
+    'transfer.importHint': '設定ファイルを開くか、設定リンクを貼り付けてください。',
+    'transfer.chooseFile': 'ファイルを選択',
+    'transfer.linkPlaceholder': '設定リンクを貼り付け',
+    'transfer.openLink': '開く',
+    'transfer.importIncludes': 'このインポートに含まれるもの:',
+    'transfer.modeMerge': '現在の設定と統合',
+    'transfer.modeReplace': '現在の設定を置き換え',
+    'transfer.modeHint': '統合すると、インポートしたお気に入りと検索が現在のものに追加されます。単位や言語などの単一の設定はどちらの場合もインポートの値になります。',
+    'transfer.import': 'インポート',
+    'transfer.imported': '設定をインポートしました',
+    'transfer.cancel': 'キャンセル',
+    'transfer.errorUnreadable': 'このファイルまたはリンクを読み込めませんでした。',
+    'transfer.errorNotSettings': 'Weathery の設定ファイルまたはリンクではありません。',
+    'transfer.errorInvalid': '設定が破損しているか、より新しいバージョンの Weathery のものです。',
+    'transfer.errorSave': 'インポートした設定を保存できませんでした。',
+    'compare.title': '都市を比較',
+    'compare.hint': 'お気に入りや検索から 2～4 都市を追加すると、並べて比較できます。',
+    'compare.fromFavorites': 'お気に入りから',
+    'compare.add': '{city} を追加',
+    'compare.full': '別の都市を追加するには、いずれかの都市を外してください。',
+    'compare.needMore': '比較するにはもう 1 都市以上追加してください。',
+    'compare.remove': '{city} を比較から外す',
+    'compare.now': '現在',
+    'compare.nextDays': 'この先の数日',
+    'compare.condition': '天気',
+    'compare.temperature': '気温',
+    'compare.feelsLike': '体感',
+    'compare.humidity': '湿度',
+    'compare.wind': '風',
+    'compare.precipitation': '降水量',
+    'compare.warmest': '最も暖かい',
+    'compare.wettest': '最も雨が多い',
+    'compare.windiest': '最も風が強い',
+    'offline.title': 'オフラインです',
+    'offline.noCache': 'この場所のキャッシュデータはありません',
+    'offline.showingCached': '{age}のキャッシュデータを表示しています',
+    'offline.earlier': '以前',
+    'offline.outdated': 'データが古い可能性があります',
+    'offline.lastUpdated': '最終更新: {age}',
+    'offline.nearby': '{distance}離れた地点のデータです',
+    'offline.degraded': '接続が不安定です',
+    'offline.degradedHint': '一部のリクエストが失敗しているため、天気が最新でない可能性があります',
+    'offline.hoursMinutesAgo': '{hours}時間{minutes}分前',
+    'error.auth': '{provider} が API キーを拒否しました。アプリの API キー設定を確認してください。',
+    'error.notFoundCity': '「{city}」の気象データが見つかりません。都市名を確認して、もう一度お試しください。',
+    'error.notFoundLocation': 'この場所の気象データはありません。',
+    'error.rateLimit': '気象サービスへのリクエストが多すぎます。しばらく待ってから、もう一度お試しください。',
+    'error.server': '{provider} で問題が発生しています。しばらくしてから、もう一度お試しください。',
+    'error.network': '{provider} に接続できません。インターネット接続を確認してください。',
+    'error.invalidResponse': '{provider} から不完全な気象データが届きました。しばらくしてから、もう一度お試しください。',
+    'error.badRequest': '{provider} はこのリクエストを処理できませんでした。',
+    'error.badRequestDetail': '{provider} はこのリクエストを処理できませんでした: {detail}',
+    'condition.Clear': '晴れ',
+    'condition.Clouds': '曇り',
+    'condition.Drizzle': '霧雨',
+    'condition.Rain': '雨',
+    'condition.Snow': '雪',
+    'condition.Thunderstorm': '雷雨',
+    'condition.Fog': '霧',
+    'condition.Mist': 'もや',
+    'condition.Haze': '煙霧',
+    'condition.Smoke': '煙',
+    'condition.Dust': '砂ぼこり',
+    'condition.Sand': '砂',
+    'condition.Ash': '火山灰',
+    'condition.Squall': 'スコール',
+    'condition.Tornado': '竜巻',
+    'condition.Unknown': '不明',
+  },
+};
+
+export type Translator = (key: TranslationKey, params?: Record<string, string | number>) => string;
+
+export function isLocale(value: unknown): value is Locale {
+  return LOCALES.some(locale => locale.value === value);
+}
+
+/**
+ * Best match for the browser's preferred languages, used until the user picks one
+ */
+export function detectLocale(): Locale {
+  const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+  for (const language of preferred) {
+    const base = language?.split('-')[0].toLowerCase();
+    if (isLocale(base)) return base;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Look up a UI string, substituting `{name}` placeholders from `params`
+ */
+export function translate(
+  locale: Locale,
+  key: TranslationKey,
+  params: Record<string, string | number> = {}
+): string {
+  const template = TRANSLATIONS[locale][key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? String(params[name]) : match
+  );
+}
+
+export function getTranslator(locale: Locale): Translator {
+  return (key, params) => translate(locale, key, params);
+}
+
+/**
+ * Condition groups ("Clouds", "Rain") are always English from the providers;
+ * descriptions are already localized through the `lang` parameter
+ */
+export function translateCondition(main: string, locale: Locale): string {
+  const key = `condition.${main}`;
+  return key in en ? translate(locale, key as TranslationKey) : main;
+}
+
+/**
+ * "Today", "Tomorrow" or the short weekday name of a unix timestamp, judged
+ * by the calendar at the location `offset` seconds east of UTC
+ */
+export function formatDayName(time: number, locale: Locale, offset: number): string {
+  const dayIndex = getLocalDayIndex(time, offset);
+  if (dayIndex === 0) return translate(locale, 'day.today');
+  if (dayIndex === 1) return translate(locale, 'day.tomorrow');
+
+  return toLocationDate(time, offset).toLocaleDateString(locale, { weekday: 'short', timeZone: 'UTC' });
+}
+
+/**
+ * Wall-clock time at the location, or in the viewer's timezone without an offset
+ */
+export function formatTime(time: number, locale: Locale, offset?: number): string {
+  const options: Intl.DateTimeFormatOptions = { hour: 'numeric', minute: '2-digit' };
+  if (offset === undefined) {
+    return new Date(time * 1000).toLocaleTimeString(locale, options);
+  }
+  return toLocationDate(time, offset).toLocaleTimeString(locale, { ...options, timeZone: 'UTC' });
+}
+
+/**
+ * Location time, followed by the viewer's own time when asked for and the
+ * two clocks differ, e.g. "06:12 (23:12 your time)"
+ */
+export function formatLocationTime(time: number, locale: Locale, offset: number, showViewerTime: boolean): string {
+  const local = formatTime(time, locale, offset);
+  if (!showViewerTime || !differsFromViewerTime(offset, time)) return local;
+  return `${local} (${translate(locale, 'time.viewerTime', { time: formatTime(time, locale) })})`;
+}
+
+/**
+ * How long ago something happened, e.g. "5 minutes ago" or "vor 2 Std. 5 Min."
+ */
+export function formatMinutesAgo(minutes: number, locale: Locale): string {
+  const relative = new Intl.RelativeTimeFormat(locale, { numeric: 'always' });
+  if (minutes < 60) {
+    return relative.format(-minutes, 'minute');
+  }
+
+  const hours = Math.floor(minutes / 60);
+  const remainingMinutes = minutes % 60;
+  if (remainingMinutes === 0) {
+    return relative.format(-hours, 'hour');
+  }
+  return translate(locale, 'offline.hoursMinutesAgo', { hours, minutes: remainingMinutes });
+}
+
+/**
+ * Storage sizes, in kilobytes below a megabyte
+ */
+export function formatBytes(bytes: number, locale: Locale): string {
+  const [value, unit] = bytes >= 1024 * 1024 ? [bytes / (1024 * 1024), 'megabyte'] : [bytes / 1024, 'kilobyte'];
+  return new Intl.NumberFormat(locale, { style: 'unit', unit, maximumFractionDigits: 1 }).format(value);
+}
+
+export function formatPercent(value: number, locale: Locale): string {
+  return new Intl.NumberFormat(locale, { style: 'percent', maximumFractionDigits: 0 }).format(value / 100);
+}
+
+/**
+ * The city's name in the chosen language when the geocoder knows one
+ */
+export function getLocalizedCityName(city: CitySearchResult, locale: Locale): string {
+  return city.local_names?.[locale] ?? city.name;
+}
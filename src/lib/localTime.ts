@@ -0,0 +1,39 @@
+// Forecast times are unix seconds and every location carries its UTC offset
+// (seconds east of UTC). Shifting a timestamp by that offset and reading it
+// back in UTC gives the wall-clock time at the location, independent of the
+// viewer's own timezone.
+
+const DAY_S = 24 * 60 * 60;
+
+const nowSeconds = (): number => Math.floor(Date.now() / 1000);
+
+/**
+ * The timestamp as a Date whose UTC fields hold the location's wall-clock time
+ */
+export function toLocationDate(time: number, offset: number): Date {
+  return new Date((time + offset) * 1000);
+}
+
+/**
+ * Calendar date (YYYY-MM-DD) of a timestamp at the location
+ */
+export function getLocalDateKey(time: number, offset: number): string {
+  return toLocationDate(time, offset).toISOString().slice(0, 10);
+}
+
+/**
+ * Whole days between today and the timestamp's date at the location
+ * (0 for today, 1 for tomorrow)
+ */
+export function getLocalDayIndex(time: number, offset: number, now = nowSeconds()): number {
+  const dayOf = (t: number) => Math.floor((t + offset) / DAY_S);
+  return dayOf(time) - dayOf(now);
+}
+
+/**
+ * Whether the location's clock currently reads differently from the viewer's
+ */
+export function differsFromViewerTime(offset: number, now = nowSeconds()): boolean {
+  const viewerOffset = -new Date(now * 1000).getTimezoneOffset() * 60;
+  return viewerOffset !== offset;
+}
@@ -0,0 +1,82 @@
+import type { QueryClient } from '@tanstack/react-query';
+import { CacheService } from './cacheService';
+import { StorageService } from './storage';
+import { weatherKeys } from './weatherKeys';
+import type { CurrentWeather } from './weatherService';
+import type { UnitSystem } from './units';
+import type { Locale } from './i18n';
+import type { Coordinates } from './geo';
+
+export type StoredCitySource = 'favorite' | 'recent' | 'cache';
+
+export interface StoredCityMatch {
+  // Name to search for; it matches the city's cache key
+  name: string;
+  source: StoredCitySource;
+  // Favorites are stored, and should be looked up, by coordinates
+  coords?: Coordinates;
+  weather: CurrentWeather | null;
+  cacheAge?: number; // in minutes
+}
+
+// Offline results shown at most, favorites first
+const MAX_STORED_MATCHES = 5;
+
+/**
+ * Search the cities the app already knows about, for use without a network:
+ * favorites, recently viewed cities and everything in the weather cache. Each
+ * match carries its stored current weather for the given units and language,
+ * if there is any.
+ */
+export async function searchStoredCities(
+  queryClient: QueryClient,
+  query: string,
+  units: UnitSystem,
+  lang: Locale
+): Promise<StoredCityMatch[]> {
+  const needle = query.trim().toLowerCase();
+  const candidates: { name: string; source: StoredCitySource; coords?: Coordinates; id?: string }[] = [
+    ...StorageService.getFavorites().map(({ id, name, lat, lon }) => ({
+      id,
+      name,
+      source: 'favorite' as const,
+      coords: { lat, lon },
+    })),
+    ...StorageService.getRecentLocations().map(name => ({ name, source: 'recent' as const })),
+    ...(await CacheService.getAllCachedCities()).map(name => ({ name, source: 'cache' as const })),
+  ];
+
+  // Favorites are told apart by id, so two sharing a name both show up.
+  // Cities known only by name show up once, and not at all when a favorite
+  // already has that name.
+  const seenIds = new Set<string>();
+  const seenNames = new Set<string>();
+  const matches: StoredCityMatch[] = [];
+
+  for (const { id, name, source, coords } of candidates) {
+    const key = name.toLowerCase();
+    if ((id ? seenIds.has(id) : seenNames.has(key)) || !key.includes(needle)) continue;
+    if (id) seenIds.add(id);
+    seenNames.add(key);
+
+    const state = queryClient.getQueryState<CurrentWeather>(
+      coords
+        ? weatherKeys.currentByCoords(coords.lat, coords.lon, units, lang)
+        : weatherKeys.currentByCity(name, units, lang)
+    );
+    const weather = state?.data ?? null;
+    // Cached names are stored lowercased; the reported name reads better
+    const displayName = source === 'cache' && weather?.location.name.toLowerCase() === key ? weather.location.name : name;
+
+    matches.push({
+      name: displayName,
+      source,
+      coords,
+      weather,
+      cacheAge: weather && state ? CacheService.getCacheAge(state.dataUpdatedAt) : undefined,
+    });
+    if (matches.length === MAX_STORED_MATCHES) break;
+  }
+
+  return matches;
+}
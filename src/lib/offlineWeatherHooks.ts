@@ -1,8 +1,14 @@
-import { useQuery } from '@tanstack/react-query';
-import { useState, useEffect } from 'react';
-import { CacheService, type CachedWeatherData } from './cacheService';
+import { useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import { CacheService } from './cacheService';
 import { WeatherService, type CurrentWeather, type ForecastData } from './weatherService';
-import { weatherKeys } from './weatherHooks';
+import { describeWeatherKey, weatherKeys } from './weatherKeys';
+import { getDistanceKm, roundCoordinates, type Coordinates } from './geo';
+import { PERSISTED_QUERY_GC_TIME } from './queryPersistence';
+import type { UnitSystem } from './units';
+import type { Locale } from './i18n';
+import { getWeatherRetryDelay, shouldRetryWeatherRequest } from './weatherErrors';
+import { useConnectivity, type ConnectivityState } from './connectivity';
+import type { ComparedLocation } from './weatherComparison';
 
 export interface OfflineWeatherResult {
   currentWeather: CurrentWeather | null;
@@ -10,240 +16,273 @@ export interface OfflineWeatherResult {
   isLoading: boolean;
   error: Error | null;
   isOffline: boolean;
+  connectivity: ConnectivityState;
+  // Showing stored data that is past its freshness window
   isCachedData: boolean;
+  // Showing stored data while a newer copy is fetched in the background
+  isRefreshing: boolean;
   cacheAge?: number; // in minutes
+  // Set when the data shown offline was stored for a nearby position instead
+  cachedDistanceKm?: number;
   refetch: () => void;
 }
 
-/**
- * Enhanced hook that provides offline support for weather data by city
- */
-export function useOfflineWeatherData(city: string | null): OfflineWeatherResult {
-  const [isOffline, setIsOffline] = useState(!navigator.onLine);
-  const [cachedData, setCachedData] = useState<CachedWeatherData | null>(null);
-
-  // Listen for online/offline events
-  useEffect(() => {
-    const handleOnline = () => setIsOffline(false);
-    const handleOffline = () => setIsOffline(true);
-
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
-
-    return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
-    };
-  }, []);
-
-  // Load cached data when offline or when city changes
-  useEffect(() => {
-    if (city && (isOffline || !navigator.onLine)) {
-      const cached = CacheService.getCachedWeatherData(city);
-      setCachedData(cached);
-    }
-  }, [city, isOffline]);
+interface WeatherQueryResult<T> {
+  data: T | undefined;
+  dataUpdatedAt: number;
+  isLoading: boolean;
+  isFetching: boolean;
+  error: Error | null;
+  refetch: () => unknown;
+}
 
-  // Online weather queries
-  const currentWeatherQuery = useQuery({
-    queryKey: weatherKeys.currentByCity(city || ''),
-    queryFn: async () => {
-      if (!city) throw new Error('City is required');
-      const data = await WeatherService.getCurrentWeather(city);
-      return data;
-    },
-    enabled: !!city && !isOffline,
-    staleTime: 5 * 60 * 1000,
-    gcTime: 10 * 60 * 1000,
-    retry: 3,
-    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
-  });
+// Offline, a snapshot stored this close to the requested position stands in
+// when there is none for the position itself
+export const DEFAULT_NEARBY_RADIUS_KM = 5;
 
-  const forecastQuery = useQuery({
-    queryKey: weatherKeys.forecastByCity(city || ''),
-    queryFn: async () => {
-      if (!city) throw new Error('City is required');
-      const data = await WeatherService.getForecast(city);
-      return data;
-    },
-    enabled: !!city && !isOffline,
-    staleTime: 10 * 60 * 1000,
-    gcTime: 20 * 60 * 1000,
-    retry: 3,
-    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
-  });
+interface NearbyCachedWeather {
+  currentWeather: CurrentWeather;
+  forecast: ForecastData;
+  dataUpdatedAt: number;
+  distanceKm: number;
+}
 
-  // Cache successful online data
-  useEffect(() => {
-    if (city && currentWeatherQuery.data && forecastQuery.data && !isOffline) {
-      CacheService.setCachedWeatherData(city, currentWeatherQuery.data, forecastQuery.data);
-    }
-  }, [city, currentWeatherQuery.data, forecastQuery.data, isOffline]);
+/**
+ * Restored data is shown straight away; it is only revalidated on mount once
+ * it has outlived the cache's freshness window
+ */
+const revalidateOnMount = (query: { state: { dataUpdatedAt: number } }): boolean =>
+  !CacheService.isCacheDataFresh(query.state.dataUpdatedAt);
 
+/**
+ * Combine the current weather and forecast queries. Both read from the
+ * persisted query cache, so offline they keep serving the last fetched data
+ * while their fetches stay paused until the connection returns. Online, stored
+ * data is shown while it is revalidated, so only a location with nothing
+ * stored shows a loading state.
+ */
+function toOfflineWeatherResult(
+  currentWeatherQuery: WeatherQueryResult<CurrentWeather>,
+  forecastQuery: WeatherQueryResult<ForecastData>,
+  connectivity: ConnectivityState
+): OfflineWeatherResult {
   const refetch = () => {
-    if (isOffline) {
-      // When offline, try to get cached data
-      if (city) {
-        const cached = CacheService.getCachedWeatherData(city);
-        setCachedData(cached);
-      }
-    } else {
-      // When online, refetch from API
-      currentWeatherQuery.refetch();
-      forecastQuery.refetch();
-    }
+    currentWeatherQuery.refetch();
+    forecastQuery.refetch();
   };
 
-  // Return appropriate data based on online/offline status
-  if (isOffline || !navigator.onLine) {
+  const hasData = !!currentWeatherQuery.data && !!forecastQuery.data;
+  const dataUpdatedAt = Math.min(currentWeatherQuery.dataUpdatedAt, forecastQuery.dataUpdatedAt);
+
+  if (connectivity === 'offline') {
     return {
-      currentWeather: cachedData?.currentWeather || null,
-      forecast: cachedData?.forecast || null,
+      currentWeather: currentWeatherQuery.data || null,
+      forecast: forecastQuery.data || null,
       isLoading: false,
-      error: cachedData ? null : new Error('No cached data available'),
+      error: hasData ? null : new Error('No cached data available'),
       isOffline: true,
-      isCachedData: !!cachedData,
-      cacheAge: cachedData ? CacheService.getCacheAge(cachedData) : undefined,
+      connectivity,
+      isCachedData: hasData,
+      isRefreshing: false,
+      cacheAge: hasData ? CacheService.getCacheAge(dataUpdatedAt) : undefined,
       refetch,
     };
   }
 
+  const isRefreshing = hasData && (currentWeatherQuery.isFetching || forecastQuery.isFetching);
+
   return {
     currentWeather: currentWeatherQuery.data || null,
     forecast: forecastQuery.data || null,
     isLoading: currentWeatherQuery.isLoading || forecastQuery.isLoading,
     error: currentWeatherQuery.error || forecastQuery.error || null,
     isOffline: false,
-    isCachedData: false,
+    connectivity,
+    // Still stale once a refresh is no longer running means the refresh failed
+    isCachedData: hasData && !isRefreshing && !CacheService.isCacheDataFresh(dataUpdatedAt),
+    isRefreshing,
+    cacheAge: hasData ? CacheService.getCacheAge(dataUpdatedAt) : undefined,
     refetch,
   };
 }
 
 /**
- * Enhanced hook that provides offline support for weather data by coordinates
+ * The stored coordinate snapshot nearest to `coords`, within `radiusKm`, for
+ * the same units and language. Both current weather and forecast must be
+ * stored for it to count.
  */
-export function useOfflineWeatherDataByCoords(coords: { lat: number; lon: number } | null): OfflineWeatherResult {
-  const [isOffline, setIsOffline] = useState(!navigator.onLine);
-  const [cachedData, setCachedData] = useState<CachedWeatherData | null>(null);
+function findNearestCachedWeather(
+  queryClient: QueryClient,
+  coords: Coordinates,
+  units: UnitSystem,
+  lang: Locale,
+  radiusKm: number
+): NearbyCachedWeather | null {
+  let nearest: NearbyCachedWeather | null = null;
+
+  for (const query of queryClient.getQueryCache().findAll({ queryKey: weatherKeys.current() })) {
+    const position = describeWeatherKey(query.queryKey)?.coords;
+    // Coordinate keys end with the units and language
+    const [keyUnits, keyLang] = query.queryKey.slice(-2);
+    if (!position || keyUnits !== units || keyLang !== lang) continue;
 
-  // Listen for online/offline events
-  useEffect(() => {
-    const handleOnline = () => setIsOffline(false);
-    const handleOffline = () => setIsOffline(true);
+    const distanceKm = getDistanceKm(coords, position);
+    if (distanceKm > radiusKm || (nearest && nearest.distanceKm <= distanceKm)) continue;
 
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
+    // The matching forecast is stored under the same key with its own kind
+    const [scope, , ...target] = query.queryKey;
+    const forecastState = queryClient.getQueryState<ForecastData>([scope, 'forecast', ...target]);
+    const currentWeather = query.state.data as CurrentWeather | undefined;
+    if (!currentWeather || !forecastState?.data) continue;
 
-    return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
+    nearest = {
+      currentWeather,
+      forecast: forecastState.data,
+      dataUpdatedAt: Math.min(query.state.dataUpdatedAt, forecastState.dataUpdatedAt),
+      distanceKm,
     };
-  }, []);
+  }
+
+  return nearest;
+}
+
+/**
+ * Enhanced hook that provides offline support for weather data by city
+ */
+export function useOfflineWeatherData(city: string | null, units: UnitSystem, lang: Locale): OfflineWeatherResult {
+  const connectivity = useConnectivity();
 
-  // Online weather queries
   const currentWeatherQuery = useQuery({
-    queryKey: coords ? weatherKeys.currentByCoords(coords.lat, coords.lon) : [],
+    queryKey: weatherKeys.currentByCity(city || '', units, lang),
     queryFn: async () => {
-      if (!coords) throw new Error('Coordinates are required');
-      const data = await WeatherService.getCurrentWeatherByCoords(coords.lat, coords.lon);
+      if (!city) throw new Error('City is required');
+      const data = await WeatherService.getCurrentWeather(city, units, lang);
       return data;
     },
-    enabled: !!coords && !isOffline,
+    enabled: !!city,
     staleTime: 5 * 60 * 1000,
-    gcTime: 10 * 60 * 1000,
-    retry: 3,
-    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+    gcTime: PERSISTED_QUERY_GC_TIME,
+    refetchOnMount: revalidateOnMount,
+    retry: shouldRetryWeatherRequest,
+    retryDelay: getWeatherRetryDelay,
   });
 
   const forecastQuery = useQuery({
-    queryKey: coords ? weatherKeys.forecastByCoords(coords.lat, coords.lon) : [],
+    queryKey: weatherKeys.forecastByCity(city || '', units, lang),
     queryFn: async () => {
-      if (!coords) throw new Error('Coordinates are required');
-      const data = await WeatherService.getForecastByCoords(coords.lat, coords.lon);
+      if (!city) throw new Error('City is required');
+      const data = await WeatherService.getForecast(city, units, lang);
       return data;
     },
-    enabled: !!coords && !isOffline,
+    enabled: !!city,
     staleTime: 10 * 60 * 1000,
-    gcTime: 20 * 60 * 1000,
-    retry: 3,
-    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+    gcTime: PERSISTED_QUERY_GC_TIME,
+    refetchOnMount: revalidateOnMount,
+    retry: shouldRetryWeatherRequest,
+    retryDelay: getWeatherRetryDelay,
+  });
+
+  return toOfflineWeatherResult(currentWeatherQuery, forecastQuery, connectivity);
+}
+
+/**
+ * Enhanced hook that provides offline support for weather data by coordinates.
+ * Positions are rounded so nearby ones share a cache entry, and offline the
+ * nearest snapshot within `nearbyRadiusKm` is used when there is none for the
+ * position itself.
+ */
+export function useOfflineWeatherDataByCoords(
+  coords: Coordinates | null,
+  units: UnitSystem,
+  lang: Locale,
+  { nearbyRadiusKm = DEFAULT_NEARBY_RADIUS_KM }: { nearbyRadiusKm?: number } = {}
+): OfflineWeatherResult {
+  const connectivity = useConnectivity();
+  const queryClient = useQueryClient();
+  const location = coords && roundCoordinates(coords);
+
+  const currentWeatherQuery = useQuery({
+    queryKey: location ? weatherKeys.currentByCoords(location.lat, location.lon, units, lang) : [],
+    queryFn: async () => {
+      if (!location) throw new Error('Coordinates are required');
+      const data = await WeatherService.getCurrentWeatherByCoords(location.lat, location.lon, units, lang);
+      return data;
+    },
+    enabled: !!location,
+    staleTime: 5 * 60 * 1000,
+    gcTime: PERSISTED_QUERY_GC_TIME,
+    refetchOnMount: revalidateOnMount,
+    retry: shouldRetryWeatherRequest,
+    retryDelay: getWeatherRetryDelay,
   });
 
-  // Cache successful online data using coordinates as city name
-  useEffect(() => {
-    if (coords && currentWeatherQuery.data && forecastQuery.data && !isOffline) {
-      const cityKey = `coords_${coords.lat}_${coords.lon}`;
-      CacheService.setCachedWeatherData(cityKey, currentWeatherQuery.data, forecastQuery.data);
-    }
-  }, [coords, currentWeatherQuery.data, forecastQuery.data, isOffline]);
-
-  // Load cached data when offline
-  useEffect(() => {
-    if (coords && (isOffline || !navigator.onLine)) {
-      const cityKey = `coords_${coords.lat}_${coords.lon}`;
-      const cached = CacheService.getCachedWeatherData(cityKey);
-      setCachedData(cached);
-    }
-  }, [coords, isOffline]);
+  const forecastQuery = useQuery({
+    queryKey: location ? weatherKeys.forecastByCoords(location.lat, location.lon, units, lang) : [],
+    queryFn: async () => {
+      if (!location) throw new Error('Coordinates are required');
+      const data = await WeatherService.getForecastByCoords(location.lat, location.lon, units, lang);
+      return data;
+    },
+    enabled: !!location,
+    staleTime: 10 * 60 * 1000,
+    gcTime: PERSISTED_QUERY_GC_TIME,
+    refetchOnMount: revalidateOnMount,
+    retry: shouldRetryWeatherRequest,
+    retryDelay: getWeatherRetryDelay,
+  });
 
-  const refetch = () => {
-    if (isOffline) {
-      // When offline, try to get cached data
-      if (coords) {
-        const cityKey = `coords_${coords.lat}_${coords.lon}`;
-        const cached = CacheService.getCachedWeatherData(cityKey);
-        setCachedData(cached);
-      }
-    } else {
-      // When online, refetch from API
-      currentWeatherQuery.refetch();
-      forecastQuery.refetch();
-    }
-  };
+  const result = toOfflineWeatherResult(currentWeatherQuery, forecastQuery, connectivity);
+  if (!result.isOffline || !coords || (result.currentWeather && result.forecast)) return result;
 
-  // Return appropriate data based on online/offline status
-  if (isOffline || !navigator.onLine) {
-    return {
-      currentWeather: cachedData?.currentWeather || null,
-      forecast: cachedData?.forecast || null,
-      isLoading: false,
-      error: cachedData ? null : new Error('No cached data available'),
-      isOffline: true,
-      isCachedData: !!cachedData,
-      cacheAge: cachedData ? CacheService.getCacheAge(cachedData) : undefined,
-      refetch,
-    };
-  }
+  const nearby = findNearestCachedWeather(queryClient, coords, units, lang, nearbyRadiusKm);
+  if (!nearby) return result;
 
   return {
-    currentWeather: currentWeatherQuery.data || null,
-    forecast: forecastQuery.data || null,
-    isLoading: currentWeatherQuery.isLoading || forecastQuery.isLoading,
-    error: currentWeatherQuery.error || forecastQuery.error || null,
-    isOffline: false,
-    isCachedData: false,
-    refetch,
+    ...result,
+    currentWeather: nearby.currentWeather,
+    forecast: nearby.forecast,
+    error: null,
+    isCachedData: true,
+    cacheAge: CacheService.getCacheAge(nearby.dataUpdatedAt),
+    cachedDistanceKm: nearby.distanceKm,
   };
 }
 
 /**
- * Hook to check online status
+ * Weather for a place known by coordinates, or else looked up by name
  */
-export function useOnlineStatus() {
-  const [isOnline, setIsOnline] = useState(navigator.onLine);
-
-  useEffect(() => {
-    const handleOnline = () => setIsOnline(true);
-    const handleOffline = () => setIsOnline(false);
-
-    window.addEventListener('online', handleOnline);
-    window.addEventListener('offline', handleOffline);
+function useOfflineLocationWeather(
+  location: ComparedLocation | undefined,
+  units: UnitSystem,
+  lang: Locale
+): OfflineWeatherResult {
+  const byCity = useOfflineWeatherData(location && !location.coords ? location.name : null, units, lang);
+  const byCoords = useOfflineWeatherDataByCoords(location?.coords ?? null, units, lang);
+  return location?.coords ? byCoords : byCity;
+}
 
-    return () => {
-      window.removeEventListener('online', handleOnline);
-      window.removeEventListener('offline', handleOffline);
-    };
-  }, []);
+/**
+ * Weather for each compared location, in order. Hooks can't be called in a
+ * loop, so there is one slot per location up to MAX_COMPARED_LOCATIONS.
+ */
+export function useComparedWeather(
+  locations: ComparedLocation[],
+  units: UnitSystem,
+  lang: Locale
+): OfflineWeatherResult[] {
+  const results = [
+    useOfflineLocationWeather(locations[0], units, lang),
+    useOfflineLocationWeather(locations[1], units, lang),
+    useOfflineLocationWeather(locations[2], units, lang),
+    useOfflineLocationWeather(locations[3], units, lang),
+  ];
+  return results.slice(0, locations.length);
+}
 
-  return isOnline;
-} 
\ No newline at end of file
+/**
+ * Hook to check online status. Degraded still counts as online, since
+ * requests may yet succeed.
+ */
+export function useOnlineStatus() {
+  return useConnectivity() !== 'offline';
+}
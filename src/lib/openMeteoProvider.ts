@@ -0,0 +1,446 @@
+import type { WeatherProvider } from './weatherProvider';
+import type {
+  AirQualityData,
+  AirQualityReading,
+  CitySearchResult,
+  CurrentWeather,
+  ForecastData,
+  ForecastItem,
+  LocationInfo,
+  WeatherCondition,
+} from './weatherService';
+import { convertTemperatureFromCelsius, convertWindSpeed, type UnitSystem } from './units';
+import { InvalidResponseError, NetworkError, NotFoundError, WeatherApiError } from './weatherErrors';
+import type { Locale } from './i18n';
+import { PayloadReader, readItems, readPollutants } from './weatherValidation';
+import { fromEuropeanAqi } from './airQuality';
+
+// Open-Meteo responses are requested in celsius, m/s and unix timestamps.
+// The forecast endpoint answers `{ utc_offset_seconds, current, hourly, daily }`
+// where `hourly` and `daily` hold one array per requested field.
+
+const FORECAST_URL = 'https://api.open-meteo.com/v1/forecast';
+const GEOCODING_URL = 'https://geocoding-api.open-meteo.com/v1/search';
+const AIR_QUALITY_URL = 'https://air-quality-api.open-meteo.com/v1/air-quality';
+
+const CURRENT_FIELDS = [
+  'temperature_2m',
+  'relative_humidity_2m',
+  'apparent_temperature',
+  'is_day',
+  'weather_code',
+  'cloud_cover',
+  'pressure_msl',
+  'visibility',
+  'wind_speed_10m',
+  'wind_direction_10m',
+  'wind_gusts_10m',
+].join(',');
+
+const HOURLY_FIELDS = [
+  'temperature_2m',
+  'relative_humidity_2m',
+  'apparent_temperature',
+  'precipitation_probability',
+  'rain',
+  'showers',
+  'snowfall',
+  'weather_code',
+  'pressure_msl',
+  'cloud_cover',
+  'visibility',
+  'wind_speed_10m',
+  'wind_direction_10m',
+  'wind_gusts_10m',
+  'is_day',
+].join(',');
+
+const DAILY_FIELDS = 'sunrise,sunset,temperature_2m_max,temperature_2m_min';
+const AIR_QUALITY_FIELDS = 'european_aqi,pm2_5,pm10,ozone,nitrogen_dioxide';
+const POLLUTANT_FIELDS = { pm2_5: 'pm2_5', pm10: 'pm10', o3: 'ozone', no2: 'nitrogen_dioxide' };
+const FORECAST_SPAN_S = 5 * 24 * 60 * 60;
+
+// WMO weather interpretation codes mapped onto the OpenWeatherMap condition
+// ids and icons the rest of the app already understands. The icon's day/night
+// suffix is added from `is_day`.
+const WMO_CONDITIONS: Record<number, WeatherCondition> = {
+  0: { id: 800, main: 'Clear', description: 'clear sky', icon: '01' },
+  1: { id: 801, main: 'Clouds', description: 'mainly clear', icon: '02' },
+  2: { id: 802, main: 'Clouds', description: 'partly cloudy', icon: '03' },
+  3: { id: 804, main: 'Clouds', description: 'overcast', icon: '04' },
+  45: { id: 741, main: 'Fog', description: 'fog', icon: '50' },
+  48: { id: 741, main: 'Fog', description: 'depositing rime fog', icon: '50' },
+  51: { id: 300, main: 'Drizzle', description: 'light drizzle', icon: '09' },
+  53: { id: 301, main: 'Drizzle', description: 'drizzle', icon: '09' },
+  55: { id: 302, main: 'Drizzle', description: 'dense drizzle', icon: '09' },
+  56: { id: 311, main: 'Drizzle', description: 'light freezing drizzle', icon: '09' },
+  57: { id: 312, main: 'Drizzle', description: 'dense freezing drizzle', icon: '09' },
+  61: { id: 500, main: 'Rain', description: 'light rain', icon: '10' },
+  63: { id: 501, main: 'Rain', description: 'moderate rain', icon: '10' },
+  65: { id: 502, main: 'Rain', description: 'heavy rain', icon: '10' },
+  66: { id: 511, main: 'Rain', description: 'light freezing rain', icon: '13' },
+  67: { id: 511, main: 'Rain', description: 'heavy freezing rain', icon: '13' },
+  71: { id: 600, main: 'Snow', description: 'light snow', icon: '13' },
+  73: { id: 601, main: 'Snow', description: 'snow', icon: '13' },
+  75: { id: 602, main: 'Snow', description: 'heavy snow', icon: '13' },
+  77: { id: 600, main: 'Snow', description: 'snow grains', icon: '13' },
+  80: { id: 520, main: 'Rain', description: 'light rain showers', icon: '09' },
+  81: { id: 521, main: 'Rain', description: 'rain showers', icon: '09' },
+  82: { id: 522, main: 'Rain', description: 'violent rain showers', icon: '09' },
+  85: { id: 620, main: 'Snow', description: 'light snow showers', icon: '13' },
+  86: { id: 621, main: 'Snow', description: 'heavy snow showers', icon: '13' },
+  95: { id: 211, main: 'Thunderstorm', description: 'thunderstorm', icon: '11' },
+  96: { id: 202, main: 'Thunderstorm', description: 'thunderstorm with light hail', icon: '11' },
+  99: { id: 202, main: 'Thunderstorm', description: 'thunderstorm with heavy hail', icon: '11' },
+};
+
+// Open-Meteo has no `lang` parameter, so descriptions are translated here.
+// Each entry follows the order of the codes in WMO_CONDITIONS.
+const WMO_CODES = Object.keys(WMO_CONDITIONS).map(Number);
+const WMO_DESCRIPTIONS: Record<Exclude<Locale, 'en'>, string[]> = {
+  de: [
+    'klarer Himmel', 'überwiegend klar', 'teilweise bewölkt', 'bedeckt', 'Nebel', 'gefrierender Nebel',
+    'leichter Nieselregen', 'Nieselregen', 'starker Nieselregen', 'leichter gefrierender Nieselregen',
+    'starker gefrierender Nieselregen', 'leichter Regen', 'mäßiger Regen', 'starker Regen',
+    'leichter gefrierender Regen', 'starker gefrierender Regen', 'leichter Schneefall', 'Schneefall',
+    'starker Schneefall', 'Schneegriesel', 'leichte Regenschauer', 'Regenschauer', 'heftige Regenschauer',
+    'leichte Schneeschauer', 'starke Schneeschauer', 'Gewitter', 'Gewitter mit leichtem Hagel',
+    'Gewitter mit starkem Hagel',
+  ],
+  fr: [
+    'ciel dégagé', 'plutôt dégagé', 'partiellement nuageux', 'couvert', 'brouillard', 'brouillard givrant',
+    'bruine légère', 'bruine', 'bruine dense', 'bruine verglaçante légère', 'bruine verglaçante dense',
+    'pluie légère', 'pluie modérée', 'forte pluie', 'pluie verglaçante légère', 'forte pluie verglaçante',
+    'neige légère', 'neige', 'forte neige', 'neige en grains', 'averses de pluie légères', 'averses de pluie',
+    'violentes averses de pluie', 'averses de neige légères', 'fortes averses de neige', 'orage',
+    'orage avec grêle légère', 'orage avec forte grêle',
+  ],
+  es: [
+    'cielo despejado', 'mayormente despejado', 'parcialmente nublado', 'cubierto', 'niebla',
+    'niebla engelante', 'llovizna ligera', 'llovizna', 'llovizna densa', 'llovizna helada ligera',
+    'llovizna helada densa', 'lluvia ligera', 'lluvia moderada', 'lluvia fuerte', 'lluvia helada ligera',
+    'lluvia helada fuerte', 'nevada ligera', 'nevada', 'nevada fuerte', 'granos de nieve',
+    'chubascos ligeros', 'chubascos', 'chubascos violentos', 'chubascos de nieve ligeros',
+    'chubascos de nieve fuertes', 'tormenta', 'tormenta con granizo ligero', 'tormenta con granizo fuerte',
+  ],
+  ja: [
+    '快晴', 'おおむね晴れ', '晴れ時々曇り', '曇り', '霧', '着氷性の霧', '弱い霧雨', '霧雨', '強い霧雨',
+    '弱い着氷性の霧雨', '強い着氷性の霧雨', '小雨', '雨', '大雨', '弱い着氷性の雨', '強い着氷性の雨',
+    '小雪', '雪', '大雪', '霧雪', '弱いにわか雨', 'にわか雨', '激しいにわか雨', '弱いにわか雪',
+    '強いにわか雪', '雷雨', '弱いひょうを伴う雷雨', '強いひょうを伴う雷雨',
+  ],
+};
+
+const toCondition = (code: number, isDay: boolean, lang: Locale): WeatherCondition => {
+  const known = code in WMO_CONDITIONS ? code : 3;
+  const condition = WMO_CONDITIONS[known];
+  const description = lang === 'en' ? condition.description : WMO_DESCRIPTIONS[lang][WMO_CODES.indexOf(known)];
+  return { ...condition, description, icon: `${condition.icon}${isDay ? 'd' : 'n'}` };
+};
+
+const toWindSpeed = (metersPerSecond: number, units: UnitSystem): number =>
+  units === 'imperial' ? convertWindSpeed(metersPerSecond, 'metric', 'mph') : metersPerSecond;
+
+/**
+ * Open-Meteo has no reverse geocoding, so coordinate lookups are named after
+ * the coordinates themselves
+ */
+const coordsLocation = (lat: number, lon: number): Place => ({
+  name: `${lat.toFixed(2)}, ${lon.toFixed(2)}`,
+  country: '',
+  lat,
+  lon,
+});
+
+type Place = Omit<LocationInfo, 'timezoneOffset'>;
+
+const toCurrentWeather = (
+  raw: unknown,
+  place: Place,
+  units: UnitSystem,
+  lang: Locale,
+  provider: string
+): CurrentWeather => {
+  const reader = new PayloadReader();
+  const data = reader.object(raw, 'response');
+  const current = reader.object(data.current, 'current');
+  const daily = reader.object(data.daily, 'daily');
+  const firstOf = (field: string) => reader.array(daily[field], `daily.${field}`)[0];
+  const temperature = (celsius: number) => convertTemperatureFromCelsius(celsius, units);
+  const temp = reader.number(current.temperature_2m, 'current.temperature_2m');
+
+  const weather: CurrentWeather = {
+    location: { ...place, timezoneOffset: reader.number(data.utc_offset_seconds, 'utc_offset_seconds', 0) },
+    observedAt: reader.number(current.time, 'current.time'),
+    condition: toCondition(
+      reader.number(current.weather_code, 'current.weather_code', 3),
+      current.is_day !== 0,
+      lang
+    ),
+    temp: temperature(temp),
+    feelsLike: temperature(reader.number(current.apparent_temperature, 'current.apparent_temperature', temp)),
+    tempMin: temperature(reader.number(firstOf('temperature_2m_min'), 'daily.temperature_2m_min[0]', temp)),
+    tempMax: temperature(reader.number(firstOf('temperature_2m_max'), 'daily.temperature_2m_max[0]', temp)),
+    humidity: reader.number(current.relative_humidity_2m, 'current.relative_humidity_2m'),
+    pressure: reader.number(current.pressure_msl, 'current.pressure_msl'),
+    visibility: reader.number(current.visibility, 'current.visibility', 10000),
+    windSpeed: toWindSpeed(reader.number(current.wind_speed_10m, 'current.wind_speed_10m', 0), units),
+    windDeg: reader.number(current.wind_direction_10m, 'current.wind_direction_10m', 0),
+    windGust: current.wind_gusts_10m === undefined || current.wind_gusts_10m === null
+      ? undefined
+      : toWindSpeed(reader.number(current.wind_gusts_10m, 'current.wind_gusts_10m'), units),
+    cloudiness: reader.number(current.cloud_cover, 'current.cloud_cover', 0),
+    sunrise: reader.number(firstOf('sunrise'), 'daily.sunrise[0]'),
+    sunset: reader.number(firstOf('sunset'), 'daily.sunset[0]'),
+    units,
+  };
+
+  reader.assertValid(provider);
+  return weather;
+};
+
+const toForecastData = (
+  raw: unknown,
+  place: Place,
+  units: UnitSystem,
+  lang: Locale,
+  provider: string
+): ForecastData => {
+  const reader = new PayloadReader();
+  const data = reader.object(raw, 'response');
+  const hourly = reader.object(data.hourly, 'hourly');
+  const daily = reader.object(data.daily, 'daily');
+  // Missing columns surface as per-entry issues below
+  const column = (field: string): unknown[] => (Array.isArray(hourly[field]) ? hourly[field] : []);
+  const temperature = (celsius: number) => convertTemperatureFromCelsius(celsius, units);
+  const now = Date.now() / 1000;
+
+  const slots = reader.array(hourly.time, 'hourly.time').map((_, index) => index);
+  const list = readItems(reader, slots, 'hourly', (itemReader, slot, path): ForecastItem => {
+    const i = Number(slot);
+    const value = (field: string, fallback?: number) =>
+      itemReader.number(column(field)[i], `${path}.${field}`, fallback);
+    const isDay = column('is_day')[i] !== 0;
+    const temp = value('temperature_2m');
+
+    return {
+      time: value('time'),
+      condition: toCondition(value('weather_code', 3), isDay, lang),
+      temp: temperature(temp),
+      feelsLike: temperature(value('apparent_temperature', temp)),
+      humidity: value('relative_humidity_2m', 0),
+      pressure: value('pressure_msl', 0),
+      windSpeed: toWindSpeed(value('wind_speed_10m', 0), units),
+      windDeg: value('wind_direction_10m', 0),
+      windGust: toWindSpeed(value('wind_gusts_10m', 0), units),
+      cloudiness: value('cloud_cover', 0),
+      visibility: value('visibility', 10000),
+      // precipitation_probability is null for hours the model doesn't cover
+      pop: (column('precipitation_probability')[i] === null ? 0 : value('precipitation_probability', 0)) / 100,
+      rain: value('rain', 0) + value('showers', 0),
+      // snowfall is reported in centimeters
+      snow: value('snowfall', 0) * 10,
+      isDay,
+    };
+  })
+    // Hourly data starts at local midnight; keep the five days from now on
+    .filter(item => item.time >= now - 3600 && item.time < now + FORECAST_SPAN_S);
+
+  if (list.length === 0) {
+    reader.fail('hourly', 'no usable forecast entries');
+  }
+
+  const forecast: ForecastData = {
+    location: { ...place, timezoneOffset: reader.number(data.utc_offset_seconds, 'utc_offset_seconds', 0) },
+    list,
+    sunrise: reader.number(reader.array(daily.sunrise, 'daily.sunrise')[0], 'daily.sunrise[0]', 0),
+    sunset: reader.number(reader.array(daily.sunset, 'daily.sunset')[0], 'daily.sunset[0]', 0),
+    units,
+  };
+
+  reader.assertValid(provider);
+  return forecast;
+};
+
+const toAirQualityData = (raw: unknown, lat: number, lon: number, provider: string): AirQualityData => {
+  const reader = new PayloadReader();
+  const data = reader.object(raw, 'response');
+  const current = reader.object(data.current, 'current');
+  const hourly = reader.object(data.hourly, 'hourly');
+  const column = (field: string): unknown[] => (Array.isArray(hourly[field]) ? hourly[field] : []);
+  const now = Date.now() / 1000;
+
+  const slots = reader.array(hourly.time, 'hourly.time').map((_, index) => index);
+  const forecast = readItems(reader, slots, 'hourly', (itemReader, slot, path): AirQualityReading => {
+    const i = Number(slot);
+    const values = Object.fromEntries(
+      ['time', 'european_aqi', ...Object.values(POLLUTANT_FIELDS)].map(field => [field, column(field)[i]])
+    );
+    return {
+      time: itemReader.number(values.time, `${path}.time`),
+      aqi: fromEuropeanAqi(itemReader.number(values.european_aqi, `${path}.european_aqi`)),
+      components: readPollutants(itemReader, values, path, POLLUTANT_FIELDS),
+    };
+  }).filter(reading => reading.time > now);
+
+  const airQuality: AirQualityData = {
+    lat,
+    lon,
+    current: {
+      time: reader.number(current.time, 'current.time'),
+      aqi: fromEuropeanAqi(reader.number(current.european_aqi, 'current.european_aqi')),
+      components: readPollutants(reader, current, 'current', POLLUTANT_FIELDS),
+    },
+    forecast,
+  };
+
+  reader.assertValid(provider);
+  return airQuality;
+};
+
+const toCitySearchResults = (raw: unknown, provider: string): CitySearchResult[] => {
+  const reader = new PayloadReader();
+  const data = reader.object(raw, 'response');
+  // Open-Meteo leaves `results` out entirely when nothing matches
+  const results = data.results === undefined
+    ? []
+    : readItems(reader, data.results, 'results', (itemReader, value, path) => {
+      const result = itemReader.object(value, path);
+      const state = result.admin1 === undefined ? undefined : itemReader.string(result.admin1, `${path}.admin1`);
+      return {
+        name: itemReader.string(result.name, `${path}.name`),
+        lat: itemReader.number(result.latitude, `${path}.latitude`),
+        lon: itemReader.number(result.longitude, `${path}.longitude`),
+        country: itemReader.string(result.country_code, `${path}.country_code`, ''),
+        ...(state !== undefined && { state }),
+      };
+    });
+
+  reader.assertValid(provider);
+  return results;
+};
+
+/**
+ * Adapter for the keyless Open-Meteo forecast and geocoding APIs
+ */
+export class OpenMeteoProvider implements WeatherProvider {
+  readonly id = 'open-meteo';
+  readonly name = 'Open-Meteo';
+  readonly attributionUrl = 'https://open-meteo.com';
+
+  async getCurrentWeather(city: string, units: UnitSystem, lang: Locale): Promise<CurrentWeather> {
+    try {
+      const place = await this.resolveCity(city, lang);
+      const data = await this.requestForecast(place.lat, place.lon, 'current');
+      return toCurrentWeather(data, place, units, lang, this.name);
+    } catch (error) {
+      console.error('Error fetching current weather:', error);
+      throw error;
+    }
+  }
+
+  async getCurrentWeatherByCoords(
+    lat: number,
+    lon: number,
+    units: UnitSystem,
+    lang: Locale
+  ): Promise<CurrentWeather> {
+    try {
+      const data = await this.requestForecast(lat, lon, 'current');
+      return toCurrentWeather(data, coordsLocation(lat, lon), units, lang, this.name);
+    } catch (error) {
+      console.error('Error fetching current weather by coordinates:', error);
+      throw error;
+    }
+  }
+
+  async getForecast(city: string, units: UnitSystem, lang: Locale): Promise<ForecastData> {
+    try {
+      const place = await this.resolveCity(city, lang);
+      const data = await this.requestForecast(place.lat, place.lon, 'hourly');
+      return toForecastData(data, place, units, lang, this.name);
+    } catch (error) {
+      console.error('Error fetching forecast:', error);
+      throw error;
+    }
+  }
+
+  async getForecastByCoords(lat: number, lon: number, units: UnitSystem, lang: Locale): Promise<ForecastData> {
+    try {
+      const data = await this.requestForecast(lat, lon, 'hourly');
+      return toForecastData(data, coordsLocation(lat, lon), units, lang, this.name);
+    } catch (error) {
+      console.error('Error fetching forecast by coordinates:', error);
+      throw error;
+    }
+  }
+
+  async getAirQuality(lat: number, lon: number): Promise<AirQualityData> {
+    try {
+      const data = await this.request(
+        `${AIR_QUALITY_URL}?latitude=${lat}&longitude=${lon}&current=${AIR_QUALITY_FIELDS}` +
+          `&hourly=${AIR_QUALITY_FIELDS}&forecast_days=5&timeformat=unixtime`
+      );
+      return toAirQualityData(data, lat, lon, this.name);
+    } catch (error) {
+      console.error('Error fetching air quality:', error);
+      throw error;
+    }
+  }
+
+  async searchCities(query: string, lang: Locale): Promise<CitySearchResult[]> {
+    try {
+      const data = await this.request(
+        `${GEOCODING_URL}?name=${encodeURIComponent(query)}&count=5&language=${lang}&format=json`
+      );
+      return toCitySearchResults(data, this.name);
+    } catch (error) {
+      console.error('Error searching cities:', error);
+      throw error;
+    }
+  }
+
+  private async resolveCity(city: string, lang: Locale): Promise<Place> {
+    const [match] = await this.searchCities(city, lang);
+    if (!match) {
+      throw new NotFoundError(this.name, `No location matches "${city}"`);
+    }
+    return { name: match.name, country: match.country, state: match.state, lat: match.lat, lon: match.lon };
+  }
+
+  private async requestForecast(
+    lat: number,
+    lon: number,
+    section: 'current' | 'hourly'
+  ): Promise<unknown> {
+    const params = section === 'current'
+      ? `current=${CURRENT_FIELDS}&forecast_days=1`
+      : `hourly=${HOURLY_FIELDS}&forecast_days=6`;
+    return this.request(
+      `${FORECAST_URL}?latitude=${lat}&longitude=${lon}&${params}&daily=${DAILY_FIELDS}` +
+        '&timezone=auto&timeformat=unixtime&wind_speed_unit=ms'
+    );
+  }
+
+  private async request(url: string): Promise<unknown> {
+    let response: Response;
+    try {
+      response = await fetch(url);
+    } catch (error) {
+      console.error(`Network error requesting ${this.name}:`, error);
+      throw new NetworkError(this.name);
+    }
+
+    if (!response.ok) {
+      throw await WeatherApiError.fromResponse(response, this.name);
+    }
+
+    // A captive portal or proxy can answer 200 with an HTML page
+    try {
+      return await response.json();
+    } catch (error) {
+      console.error(`Unreadable response from ${this.name}:`, error);
+      throw new InvalidResponseError(this.name, ['response: body is not valid JSON']);
+    }
+  }
+}
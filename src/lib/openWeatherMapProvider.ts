@@ -0,0 +1,449 @@
+import type { WeatherProvider } from './weatherProvider';
+import type {
+  AirQualityData,
+  AirQualityReading,
+  CitySearchResult,
+  CurrentWeather,
+  ForecastData,
+  ForecastItem,
+  LocationInfo,
+  WeatherCondition,
+} from './weatherService';
+import type { UnitSystem } from './units';
+import type { Locale } from './i18n';
+import { InvalidResponseError, NetworkError, WeatherApiError } from './weatherErrors';
+import {
+  PayloadReader,
+  UNKNOWN_CONDITION,
+  readAirQualityLevel,
+  readItems,
+  readPollutants,
+} from './weatherValidation';
+
+// Raw OpenWeatherMap response shapes, as documented by the API. Responses
+// are read as `unknown` and checked field by field while being normalized
+// into the app-level models; these types describe what a valid one holds.
+
+interface OwmWeatherData {
+  id: number;
+  main: string;
+  description: string;
+  icon: string;
+}
+
+interface OwmMainWeatherInfo {
+  temp: number;
+  feels_like: number;
+  temp_min: number;
+  temp_max: number;
+  pressure: number;
+  humidity: number;
+}
+
+interface OwmWindInfo {
+  speed: number;
+  deg: number;
+  gust?: number;
+}
+
+interface OwmCloudsInfo {
+  all: number;
+}
+
+interface OwmSysInfo {
+  type: number;
+  id: number;
+  country: string;
+  sunrise: number;
+  sunset: number;
+}
+
+interface OwmPrecipitation {
+  '1h'?: number;
+  '3h'?: number;
+}
+
+export interface OwmCurrentWeather {
+  coord: {
+    lon: number;
+    lat: number;
+  };
+  weather: OwmWeatherData[];
+  base: string;
+  main: OwmMainWeatherInfo;
+  visibility: number;
+  wind: OwmWindInfo;
+  clouds: OwmCloudsInfo;
+  rain?: OwmPrecipitation;
+  snow?: OwmPrecipitation;
+  dt: number;
+  sys: OwmSysInfo;
+  timezone: number;
+  id: number;
+  name: string;
+  cod: number;
+}
+
+interface OwmForecastItem {
+  dt: number;
+  main: OwmMainWeatherInfo;
+  weather: OwmWeatherData[];
+  clouds: OwmCloudsInfo;
+  wind: OwmWindInfo;
+  visibility: number;
+  pop: number;
+  rain?: OwmPrecipitation;
+  snow?: OwmPrecipitation;
+  sys?: { pod: 'd' | 'n' };
+  dt_txt: string;
+}
+
+export interface OwmForecastData {
+  cod: string;
+  message: number;
+  cnt: number;
+  list: OwmForecastItem[];
+  city: {
+    id: number;
+    name: string;
+    coord: {
+      lat: number;
+      lon: number;
+    };
+    country: string;
+    population: number;
+    timezone: number;
+    sunrise: number;
+    sunset: number;
+  };
+}
+
+// Same shape for the current reading (one entry) and the hourly forecast
+export interface OwmAirPollution {
+  coord: {
+    lon: number;
+    lat: number;
+  };
+  list: {
+    dt: number;
+    main: { aqi: number };
+    components: {
+      co: number;
+      no: number;
+      no2: number;
+      o3: number;
+      so2: number;
+      pm2_5: number;
+      pm10: number;
+      nh3: number;
+    };
+  }[];
+}
+
+export interface OpenWeatherMapConfig {
+  apiKey: string;
+  // Overrides used by the local fixture backend
+  name?: string;
+  baseUrl?: string;
+  geoUrl?: string;
+  fetch?: typeof fetch;
+}
+
+const BASE_URL = 'https://api.openweathermap.org/data/2.5';
+const GEO_URL = 'https://api.openweathermap.org/geo/1.0';
+
+// Normalizers read the raw payload defensively: optional extras are repaired
+// with defaults, while missing essentials are collected and reported together
+
+const readCondition = (reader: PayloadReader, weather: unknown, path: string): WeatherCondition => {
+  const [first] = reader.array(weather, path);
+  if (first === undefined) {
+    reader.repair(path, 'no condition entries; using unknown conditions');
+    return UNKNOWN_CONDITION;
+  }
+  const condition = reader.object(first, `${path}[0]`);
+  return {
+    id: reader.number(condition.id, `${path}[0].id`, UNKNOWN_CONDITION.id),
+    main: reader.string(condition.main, `${path}[0].main`, UNKNOWN_CONDITION.main),
+    description: reader.string(condition.description, `${path}[0].description`, UNKNOWN_CONDITION.description),
+    icon: reader.string(condition.icon, `${path}[0].icon`, UNKNOWN_CONDITION.icon),
+  };
+};
+
+const readPrecipitation = (reader: PayloadReader, value: unknown, path: string, period: '1h' | '3h'): number => {
+  const precipitation = reader.optionalObject(value, path);
+  return precipitation ? reader.number(precipitation[period], `${path}.${period}`, 0) : 0;
+};
+
+const toCurrentWeather = (raw: unknown, units: UnitSystem, provider: string): CurrentWeather => {
+  const reader = new PayloadReader();
+  const data = reader.object(raw, 'response');
+  const coord = reader.object(data.coord, 'coord');
+  const main = reader.object(data.main, 'main');
+  const wind = reader.optionalObject(data.wind, 'wind') ?? {};
+  const sys = reader.object(data.sys, 'sys');
+  const temp = reader.number(main.temp, 'main.temp');
+
+  const location: LocationInfo = {
+    name: reader.string(data.name, 'name'),
+    country: reader.string(sys.country, 'sys.country', ''),
+    lat: reader.number(coord.lat, 'coord.lat'),
+    lon: reader.number(coord.lon, 'coord.lon'),
+    timezoneOffset: reader.number(data.timezone, 'timezone', 0),
+  };
+
+  const weather: CurrentWeather = {
+    location,
+    observedAt: reader.number(data.dt, 'dt'),
+    condition: readCondition(reader, data.weather, 'weather'),
+    temp,
+    feelsLike: reader.number(main.feels_like, 'main.feels_like', temp),
+    tempMin: reader.number(main.temp_min, 'main.temp_min', temp),
+    tempMax: reader.number(main.temp_max, 'main.temp_max', temp),
+    humidity: reader.number(main.humidity, 'main.humidity'),
+    pressure: reader.number(main.pressure, 'main.pressure'),
+    // OpenWeatherMap omits visibility when it is unlimited
+    visibility: reader.number(data.visibility, 'visibility', 10000),
+    windSpeed: reader.number(wind.speed, 'wind.speed', 0),
+    windDeg: reader.number(wind.deg, 'wind.deg', 0),
+    windGust: reader.optionalNumber(wind.gust, 'wind.gust'),
+    cloudiness: reader.number(reader.optionalObject(data.clouds, 'clouds')?.all, 'clouds.all', 0),
+    sunrise: reader.number(sys.sunrise, 'sys.sunrise'),
+    sunset: reader.number(sys.sunset, 'sys.sunset'),
+    units,
+  };
+
+  reader.assertValid(provider);
+  return weather;
+};
+
+const readForecastItem = (reader: PayloadReader, raw: unknown, path: string): ForecastItem => {
+  const item = reader.object(raw, path);
+  const main = reader.object(item.main, `${path}.main`);
+  const wind = reader.optionalObject(item.wind, `${path}.wind`) ?? {};
+  const condition = readCondition(reader, item.weather, `${path}.weather`);
+  const temp = reader.number(main.temp, `${path}.main.temp`);
+  const sys = reader.optionalObject(item.sys, `${path}.sys`);
+
+  return {
+    time: reader.number(item.dt, `${path}.dt`),
+    condition,
+    temp,
+    feelsLike: reader.number(main.feels_like, `${path}.main.feels_like`, temp),
+    humidity: reader.number(main.humidity, `${path}.main.humidity`, 0),
+    pressure: reader.number(main.pressure, `${path}.main.pressure`, 0),
+    windSpeed: reader.number(wind.speed, `${path}.wind.speed`, 0),
+    windDeg: reader.number(wind.deg, `${path}.wind.deg`, 0),
+    windGust: reader.optionalNumber(wind.gust, `${path}.wind.gust`),
+    cloudiness: reader.number(reader.optionalObject(item.clouds, `${path}.clouds`)?.all, `${path}.clouds.all`, 0),
+    visibility: reader.number(item.visibility, `${path}.visibility`, 10000),
+    pop: reader.number(item.pop, `${path}.pop`, 0),
+    rain: readPrecipitation(reader, item.rain, `${path}.rain`, '3h'),
+    snow: readPrecipitation(reader, item.snow, `${path}.snow`, '3h'),
+    isDay: sys ? sys.pod === 'd' : condition.icon.endsWith('d'),
+  };
+};
+
+const toForecastData = (raw: unknown, units: UnitSystem, provider: string): ForecastData => {
+  const reader = new PayloadReader();
+  const data = reader.object(raw, 'response');
+  const city = reader.object(data.city, 'city');
+  const coord = reader.object(city.coord, 'city.coord');
+  const list = readItems(reader, data.list, 'list', readForecastItem);
+  if (list.length === 0) {
+    reader.fail('list', 'no usable forecast entries');
+  }
+
+  const forecast: ForecastData = {
+    location: {
+      name: reader.string(city.name, 'city.name'),
+      country: reader.string(city.country, 'city.country', ''),
+      lat: reader.number(coord.lat, 'city.coord.lat'),
+      lon: reader.number(coord.lon, 'city.coord.lon'),
+      timezoneOffset: reader.number(city.timezone, 'city.timezone', 0),
+    },
+    list,
+    sunrise: reader.number(city.sunrise, 'city.sunrise', 0),
+    sunset: reader.number(city.sunset, 'city.sunset', 0),
+    units,
+  };
+
+  reader.assertValid(provider);
+  return forecast;
+};
+
+// Air pollution responses are `{ coord, list: [{ dt, main: { aqi }, components }] }`
+const readAirQualityReading = (reader: PayloadReader, raw: unknown, path: string): AirQualityReading => {
+  const item = reader.object(raw, path);
+  const main = reader.object(item.main, `${path}.main`);
+  return {
+    time: reader.number(item.dt, `${path}.dt`),
+    aqi: readAirQualityLevel(reader, main.aqi, `${path}.main.aqi`),
+    components: readPollutants(reader, reader.object(item.components, `${path}.components`), `${path}.components`),
+  };
+};
+
+const toAirQualityData = (current: unknown, forecast: unknown, provider: string): AirQualityData => {
+  const reader = new PayloadReader();
+  const data = reader.object(current, 'current');
+  const coord = reader.object(data.coord, 'current.coord');
+  const [latest] = reader.array(data.list, 'current.list');
+
+  const airQuality: AirQualityData = {
+    lat: reader.number(coord.lat, 'current.coord.lat'),
+    lon: reader.number(coord.lon, 'current.coord.lon'),
+    current: readAirQualityReading(reader, latest, 'current.list[0]'),
+    forecast: readItems(reader, reader.object(forecast, 'forecast').list, 'forecast.list', readAirQualityReading),
+  };
+
+  reader.assertValid(provider);
+  return airQuality;
+};
+
+const toCitySearchResults = (raw: unknown, provider: string): CitySearchResult[] => {
+  const reader = new PayloadReader();
+  const results = readItems(reader, raw, 'response', (itemReader, value, path) => {
+    const city = itemReader.object(value, path);
+    const localNames = itemReader.optionalObject(city.local_names, `${path}.local_names`);
+    const state = city.state === undefined ? undefined : itemReader.string(city.state, `${path}.state`);
+    return {
+      name: itemReader.string(city.name, `${path}.name`),
+      ...(localNames && {
+        local_names: Object.fromEntries(
+          Object.entries(localNames).filter((entry): entry is [string, string] => typeof entry[1] === 'string')
+        ),
+      }),
+      lat: itemReader.number(city.lat, `${path}.lat`),
+      lon: itemReader.number(city.lon, `${path}.lon`),
+      country: itemReader.string(city.country, `${path}.country`, ''),
+      ...(state !== undefined && { state }),
+    };
+  });
+
+  reader.assertValid(provider);
+  return results;
+};
+
+/**
+ * Adapter for the OpenWeatherMap 2.5 current weather, 5 day / 3 hour
+ * forecast and geocoding APIs
+ */
+export class OpenWeatherMapProvider implements WeatherProvider {
+  readonly id = 'openweathermap';
+  readonly name: string;
+  readonly attributionUrl = 'https://openweathermap.org';
+
+  private readonly apiKey: string;
+  private readonly baseUrl: string;
+  private readonly geoUrl: string;
+  private readonly fetcher: typeof fetch;
+
+  constructor(config: OpenWeatherMapConfig) {
+    this.apiKey = config.apiKey;
+    this.name = config.name ?? 'OpenWeatherMap';
+    this.baseUrl = config.baseUrl ?? BASE_URL;
+    this.geoUrl = config.geoUrl ?? GEO_URL;
+    // Bound so the global fetch keeps its `window` receiver
+    this.fetcher = config.fetch ?? fetch.bind(window);
+  }
+
+  async getCurrentWeather(city: string, units: UnitSystem, lang: Locale): Promise<CurrentWeather> {
+    try {
+      const data = await this.request(
+        `${this.baseUrl}/weather?q=${encodeURIComponent(city)}&units=${units}&lang=${lang}`
+      );
+      return toCurrentWeather(data, units, this.name);
+    } catch (error) {
+      console.error('Error fetching current weather:', error);
+      throw error;
+    }
+  }
+
+  async getCurrentWeatherByCoords(
+    lat: number,
+    lon: number,
+    units: UnitSystem,
+    lang: Locale
+  ): Promise<CurrentWeather> {
+    try {
+      const data = await this.request(
+        `${this.baseUrl}/weather?lat=${lat}&lon=${lon}&units=${units}&lang=${lang}`
+      );
+      return toCurrentWeather(data, units, this.name);
+    } catch (error) {
+      console.error('Error fetching current weather by coordinates:', error);
+      throw error;
+    }
+  }
+
+  async getForecast(city: string, units: UnitSystem, lang: Locale): Promise<ForecastData> {
+    try {
+      const data = await this.request(
+        `${this.baseUrl}/forecast?q=${encodeURIComponent(city)}&units=${units}&lang=${lang}`
+      );
+      return toForecastData(data, units, this.name);
+    } catch (error) {
+      console.error('Error fetching forecast:', error);
+      throw error;
+    }
+  }
+
+  async getForecastByCoords(lat: number, lon: number, units: UnitSystem, lang: Locale): Promise<ForecastData> {
+    try {
+      const data = await this.request(
+        `${this.baseUrl}/forecast?lat=${lat}&lon=${lon}&units=${units}&lang=${lang}`
+      );
+      return toForecastData(data, units, this.name);
+    } catch (error) {
+      console.error('Error fetching forecast by coordinates:', error);
+      throw error;
+    }
+  }
+
+  async getAirQuality(lat: number, lon: number): Promise<AirQualityData> {
+    try {
+      const [current, forecast] = await Promise.all([
+        this.request(`${this.baseUrl}/air_pollution?lat=${lat}&lon=${lon}`),
+        this.request(`${this.baseUrl}/air_pollution/forecast?lat=${lat}&lon=${lon}`),
+      ]);
+      return toAirQualityData(current, forecast, this.name);
+    } catch (error) {
+      console.error('Error fetching air quality:', error);
+      throw error;
+    }
+  }
+
+  async searchCities(query: string): Promise<CitySearchResult[]> {
+    try {
+      const data = await this.request(
+        `${this.geoUrl}/direct?q=${encodeURIComponent(query)}&limit=5`
+      );
+      return toCitySearchResults(data, this.name);
+    } catch (error) {
+      console.error('Error searching cities:', error);
+      throw error;
+    }
+  }
+
+  private async request(url: string): Promise<unknown> {
+    let response: Response;
+    try {
+      response = await this.fetcher(`${url}&appid=${this.apiKey}`);
+    } catch (error) {
+      console.error(`Network error requesting ${this.name}:`, error);
+      throw new NetworkError(this.name);
+    }
+
+    if (!response.ok) {
+      throw await WeatherApiError.fromResponse(response, this.name);
+    }
+
+    // A captive portal or proxy can answer 200 with an HTML page
+    try {
+      return await response.json();
+    } catch (error) {
+      console.error(`Unreadable response from ${this.name}:`, error);
+      throw new InvalidResponseError(this.name, ['response: body is not valid JSON']);
+    }
+  }
+}
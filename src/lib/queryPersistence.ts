@@ -0,0 +1,70 @@
+import type { QueryClient } from '@tanstack/react-query';
+import { CacheService, CACHE_MAX_AGE_MS } from './cacheService';
+import { describeWeatherKey, weatherKeys } from './weatherKeys';
+import { broadcastToTabs, onTabMessage } from './tabSync';
+
+// Persisted queries stay in memory as long as they are kept on disk, so the
+// data shown offline is the same data the online views used
+export const PERSISTED_QUERY_GC_TIME = CACHE_MAX_AGE_MS;
+
+// Startup waits this long at most for the cache before rendering without it
+const RESTORE_TIMEOUT_MS = 2000;
+
+/**
+ * Load persisted weather queries into the query client. Data already in
+ * memory is kept when it is newer.
+ */
+export async function restoreQueryCache(queryClient: QueryClient): Promise<void> {
+  const queries = await Promise.race([
+    CacheService.getCachedQueries(),
+    new Promise<[]>(resolve => setTimeout(() => resolve([]), RESTORE_TIMEOUT_MS)),
+  ]);
+
+  queries.forEach(({ queryKey, data, dataUpdatedAt }) => {
+    const existing = queryClient.getQueryState(queryKey);
+    if (existing && existing.dataUpdatedAt >= dataUpdatedAt) return;
+    queryClient.setQueryData(queryKey, data, { updatedAt: dataUpdatedAt });
+  });
+}
+
+/**
+ * Write every successful fetch of a weather query to the persisted cache,
+ * whichever hook or prefetch triggered it, and hand it to the other open tabs.
+ * Returns an unsubscribe function.
+ */
+export function persistQueryCache(queryClient: QueryClient): () => void {
+  return queryClient.getQueryCache().subscribe(event => {
+    // Manual updates are the restore itself; only fetched data is written
+    if (event.type !== 'updated' || event.action.type !== 'success' || event.action.manual) return;
+
+    const { queryKey, state } = event.query;
+    if (!describeWeatherKey(queryKey)) return;
+
+    CacheService.setCachedQuery(queryKey, state.data, state.dataUpdatedAt);
+    broadcastToTabs({ type: 'query-updated', queryKey, data: state.data, dataUpdatedAt: state.dataUpdatedAt });
+  });
+}
+
+/**
+ * Apply weather fetched or removed in other tabs. Received data is set
+ * manually, so it isn't persisted or broadcast again. Returns an unsubscribe
+ * function.
+ */
+export function syncQueryCacheAcrossTabs(queryClient: QueryClient): () => void {
+  return onTabMessage(message => {
+    switch (message.type) {
+      case 'query-updated': {
+        const existing = queryClient.getQueryState(message.queryKey);
+        if (existing && existing.dataUpdatedAt >= message.dataUpdatedAt) return;
+        queryClient.setQueryData(message.queryKey, message.data, { updatedAt: message.dataUpdatedAt });
+        return;
+      }
+      case 'queries-removed':
+        message.queryKeys.forEach(queryKey => queryClient.removeQueries({ queryKey, exact: true }));
+        return;
+      case 'cache-cleared':
+        queryClient.removeQueries({ queryKey: weatherKeys.all });
+        return;
+    }
+  });
+}
@@ -0,0 +1,74 @@
+// Must match REFRESH_FAVORITES_TAG in src/sw.ts
+export const REFRESH_FAVORITES_TAG = 'refresh-favorites';
+
+// Background Sync isn't in the DOM typings yet
+interface SyncRegistration extends ServiceWorkerRegistration {
+  sync: { register: (tag: string) => Promise<void> };
+}
+
+const supportsBackgroundSync = (registration: ServiceWorkerRegistration): registration is SyncRegistration =>
+  'sync' in registration;
+
+/**
+ * Register the service worker that keeps the app shell available offline.
+ * Only production builds emit one, so development is left uncached.
+ */
+export function registerServiceWorker(): void {
+  if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`)
+      .catch(error => console.error('Error registering service worker:', error));
+  });
+}
+
+/**
+ * Ask to be woken for a favorites refresh once the connection returns.
+ * Returns false when Background Sync isn't available, in which case
+ * onFavoritesRefresh falls back to the browser's online event.
+ */
+export async function requestFavoritesRefresh(): Promise<boolean> {
+  try {
+    const registration = await navigator.serviceWorker?.getRegistration();
+    if (!registration || !supportsBackgroundSync(registration)) return false;
+
+    await registration.sync.register(REFRESH_FAVORITES_TAG);
+    return true;
+  } catch (error) {
+    console.error('Error registering favorites sync:', error);
+    return false;
+  }
+}
+
+/**
+ * Call `callback` whenever favorites should be refreshed after being offline.
+ * Returns an unsubscribe function.
+ */
+export function onFavoritesRefresh(callback: () => void): () => void {
+  let syncRequested = false;
+
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === REFRESH_FAVORITES_TAG) callback();
+  };
+  const handleOffline = () => {
+    requestFavoritesRefresh().then(requested => {
+      syncRequested = requested;
+    });
+  };
+  // The service worker sends the message itself when a sync was registered
+  const handleOnline = () => {
+    if (!syncRequested) callback();
+    syncRequested = false;
+  };
+
+  navigator.serviceWorker?.addEventListener('message', handleMessage);
+  window.addEventListener('offline', handleOffline);
+  window.addEventListener('online', handleOnline);
+
+  return () => {
+    navigator.serviceWorker?.removeEventListener('message', handleMessage);
+    window.removeEventListener('offline', handleOffline);
+    window.removeEventListener('online', handleOnline);
+  };
+}
@@ -0,0 +1,176 @@
+import {
+  StorageService,
+  type ExportedSettings,
+  type TransferableSetting,
+  type TransferredSettings,
+} from './storage';
+
+// Marks a file or link as holding this app's settings
+const SETTINGS_FORMAT = 'weathery-settings';
+// Share links carry the settings in the URL fragment, which browsers never
+// send to a server
+const SHARE_LINK_PARAM = 'import';
+
+export type SettingsSection = 'favorites' | 'preferences' | 'history';
+
+export const SETTINGS_SECTIONS: Record<SettingsSection, TransferableSetting[]> = {
+  favorites: ['favorites'],
+  preferences: ['units', 'locale', 'viewerTime'],
+  history: ['recentLocations', 'pinnedLocations', 'cacheCleanup'],
+};
+
+export interface SettingsFile {
+  format: typeof SETTINGS_FORMAT;
+  exportedAt: number;
+  settings: ExportedSettings;
+}
+
+export type SettingsImportErrorReason = 'unreadable' | 'not-settings' | 'invalid';
+
+/**
+ * Thrown when a file or link can't be imported: it isn't JSON ('unreadable'),
+ * isn't a settings export ('not-settings') or holds settings this version
+ * can't use ('invalid')
+ */
+export class SettingsImportError extends Error {
+  readonly reason: SettingsImportErrorReason;
+
+  constructor(reason: SettingsImportErrorReason, message: string) {
+    super(message);
+    this.name = 'SettingsImportError';
+    this.reason = reason;
+  }
+}
+
+export function createSettingsFile(sections: SettingsSection[]): SettingsFile {
+  return {
+    format: SETTINGS_FORMAT,
+    exportedAt: Date.now(),
+    settings: StorageService.exportSettings(sections.flatMap(section => SETTINGS_SECTIONS[section])),
+  };
+}
+
+/**
+ * Save the settings as a JSON file through the browser's download
+ */
+export function downloadSettingsFile(file: SettingsFile): void {
+  const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `weathery-settings-${new Date(file.exportedAt).toISOString().slice(0, 10)}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+/**
+ * A link to this app that offers to import the settings when opened
+ */
+export function createShareLink(file: SettingsFile): string {
+  const url = new URL(window.location.href);
+  url.search = '';
+  url.hash = `${SHARE_LINK_PARAM}=${toBase64Url(JSON.stringify(file))}`;
+  return url.toString();
+}
+
+/**
+ * Read settings from the text of an exported file. Throws SettingsImportError.
+ */
+export function parseSettingsFile(text: string): TransferredSettings {
+  let file: unknown;
+  try {
+    file = JSON.parse(text);
+  } catch (error) {
+    throw new SettingsImportError('unreadable', error instanceof Error ? error.message : String(error));
+  }
+
+  if (typeof file !== 'object' || file === null || (file as Partial<SettingsFile>).format !== SETTINGS_FORMAT) {
+    throw new SettingsImportError('not-settings', 'not a settings export');
+  }
+  const { settings } = file as Partial<SettingsFile>;
+  if (typeof settings !== 'object' || settings === null) {
+    throw new SettingsImportError('not-settings', 'export has no settings');
+  }
+
+  try {
+    return StorageService.readExportedSettings(settings);
+  } catch (error) {
+    throw new SettingsImportError('invalid', error instanceof Error ? error.message : String(error));
+  }
+}
+
+/**
+ * Read settings from a share link. Throws SettingsImportError.
+ */
+export function parseShareLink(link: string): TransferredSettings {
+  const payload = getShareLinkPayload(link);
+  if (payload === null) {
+    throw new SettingsImportError('not-settings', 'link has no settings');
+  }
+
+  let text: string;
+  try {
+    text = fromBase64Url(payload);
+  } catch (error) {
+    throw new SettingsImportError('unreadable', error instanceof Error ? error.message : String(error));
+  }
+  return parseSettingsFile(text);
+}
+
+/**
+ * The address the app was opened from, if it is a share link
+ */
+export function getOpenedShareLink(): string | null {
+  const link = window.location.href;
+  return getShareLinkPayload(link) === null ? null : link;
+}
+
+/**
+ * Take the settings out of the address bar so a reload doesn't offer them
+ * again
+ */
+export function clearOpenedShareLink(): void {
+  if (getOpenedShareLink() === null) return;
+  window.history.replaceState(window.history.state, '', window.location.pathname + window.location.search);
+}
+
+/**
+ * The sections an import has anything for
+ */
+export function getImportedSections(imported: TransferredSettings): SettingsSection[] {
+  return (Object.keys(SETTINGS_SECTIONS) as SettingsSection[]).filter(section =>
+    SETTINGS_SECTIONS[section].some(setting => imported[setting] !== undefined)
+  );
+}
+
+/**
+ * Only the parts of an import in the given sections
+ */
+export function pickSections(imported: TransferredSettings, sections: SettingsSection[]): TransferredSettings {
+  const settings = new Set(sections.flatMap(section => SETTINGS_SECTIONS[section]));
+  return Object.fromEntries(
+    Object.entries(imported).filter(([setting]) => settings.has(setting as TransferableSetting))
+  );
+}
+
+function getShareLinkPayload(link: string): string | null {
+  const hashIndex = link.indexOf('#');
+  if (hashIndex === -1) return null;
+  return new URLSearchParams(link.slice(hashIndex + 1)).get(SHARE_LINK_PARAM);
+}
+
+// Base64 without the characters that need escaping in URLs. btoa only takes
+// single bytes, so the text goes through UTF-8 first.
+function toBase64Url(text: string): string {
+  let binary = '';
+  new TextEncoder().encode(text).forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = Uint8Array.from(binary, char => char.charCodeAt(0));
+  return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+}
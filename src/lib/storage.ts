@@ -1,76 +1,838 @@
 import { CacheService } from './cacheService';
+import {
+  DEFAULT_UNIT_PREFERENCES,
+  PRESSURE_UNITS,
+  WIND_SPEED_UNITS,
+  isUnitSystem,
+  type UnitPreferences,
+} from './units';
+import { detectLocale, getLocalizedCityName, isLocale, type Locale } from './i18n';
+import { getCoordinatesId } from './geo';
+import { WeatherService } from './weatherService';
+import {
+  parseStoredValue,
+  StorageMigrationError,
+  upgrade,
+  wrap,
+  type Envelope,
+  type StorageSchema,
+  type UpgradeResult,
+} from './storageSchema';
 
 const FAVORITES_KEY = 'weather-app-favorites';
+const UNITS_KEY = 'weather-app-units';
+const LOCALE_KEY = 'weather-app-locale';
+const VIEWER_TIME_KEY = 'weather-app-show-viewer-time';
+const QUARANTINE_KEY = 'weather-app-quarantine';
+const RECENT_LOCATIONS_KEY = 'weather-app-recent-locations';
+const PINNED_LOCATIONS_KEY = 'weather-app-pinned-locations';
+const CACHE_CLEANUP_KEY = 'weather-app-cache-cleanup';
 
-export class StorageService {
-  static getFavorites(): string[] {
-    try {
-      const favorites = localStorage.getItem(FAVORITES_KEY);
-      return favorites ? JSON.parse(favorites) : [];
-    } catch (error) {
-      console.error('Error getting favorites:', error);
-      return [];
+// Recently viewed cities kept for offline search, newest first
+const MAX_RECENT_LOCATIONS = 10;
+
+// Settings another tab can change
+export type StoredSetting = 'favorites' | 'units' | 'locale' | 'viewerTime' | 'pinnedLocations' | 'cacheCleanup';
+
+// Settings that can be exported and imported. Quarantined items and the
+// weather cache stay in this browser.
+export type TransferableSetting =
+  | 'favorites'
+  | 'units'
+  | 'locale'
+  | 'viewerTime'
+  | 'recentLocations'
+  | 'pinnedLocations'
+  | 'cacheCleanup';
+
+export const TRANSFERABLE_SETTINGS: TransferableSetting[] = [
+  'favorites',
+  'units',
+  'locale',
+  'viewerTime',
+  'recentLocations',
+  'pinnedLocations',
+  'cacheCleanup',
+];
+
+// Merging adds imported favorites and lists to the user's own; replacing
+// overwrites them. Single values like the units are taken from the import
+// either way.
+export type ImportMode = 'merge' | 'replace';
+
+export type CleanupSchedule = 'off' | 'daily' | 'weekly';
+
+export const CLEANUP_SCHEDULES: CleanupSchedule[] = ['off', 'daily', 'weekly'];
+
+const CLEANUP_INTERVALS_MS: Record<Exclude<CleanupSchedule, 'off'>, number> = {
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+export interface CacheCleanupSettings {
+  // How often unfavorited cities are removed from the cache automatically
+  schedule: CleanupSchedule;
+  lastRunAt: number | null; // ms since epoch
+}
+
+const DEFAULT_CLEANUP_SETTINGS: CacheCleanupSettings = { schedule: 'off', lastRunAt: null };
+
+/**
+ * A saved place. Favorites are fetched by coordinates, so two cities with
+ * the same name stay apart.
+ */
+export interface FavoriteLocation {
+  // Rounded `lat,lon`, the same id the weather cache gives the place
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+  country: string;
+  state?: string;
+  addedAt: number; // ms since epoch
+  // The user's own name for the place, e.g. "Home"
+  nickname?: string;
+  // Listed before every other favorite
+  pinnedToTop?: boolean;
+  groupId?: string;
+}
+
+// What a favorite is made from, e.g. a weather response's location
+export type FavoritePlace = Pick<FavoriteLocation, 'name' | 'lat' | 'lon' | 'country' | 'state'>;
+
+// What the user can change about a favorite after saving it
+export type FavoriteDetails = Pick<FavoriteLocation, 'nickname' | 'pinnedToTop'>;
+
+/**
+ * A user-defined set of favorites, e.g. "Family". Groups exist only while
+ * they have members.
+ */
+export interface FavoriteGroup {
+  id: string;
+  name: string;
+}
+
+export interface StoredFavorites {
+  // In the user's order
+  locations: FavoriteLocation[];
+  groups: FavoriteGroup[];
+  // Names saved before favorites had coordinates, waiting to be geocoded
+  unresolved: string[];
+}
+
+const NO_FAVORITES: StoredFavorites = { locations: [], groups: [], unresolved: [] };
+
+// Settings read from an export, each upgraded to its current version
+export interface TransferredSettings {
+  favorites?: StoredFavorites;
+  units?: UnitPreferences;
+  locale?: Locale;
+  viewerTime?: boolean;
+  recentLocations?: string[];
+  pinnedLocations?: string[];
+  cacheCleanup?: CacheCleanupSettings;
+}
+
+// Each setting in its versioned envelope, so exports from older versions of
+// the app go through the same migrations as stored data
+export type ExportedSettings = Partial<Record<TransferableSetting, Envelope<unknown>>>;
+
+export interface QuarantinedItem {
+  key: string;
+  reason: string;
+  quarantinedAt: number;
+  // Original stored value, kept so it can be recovered by hand. Omitted for
+  // cache entries, which are set aside in the cache database instead.
+  raw?: string;
+  // Whether the user has been told about it
+  notified: boolean;
+}
+
+const isFavoriteLocation = (value: unknown): value is FavoriteLocation => {
+  if (typeof value !== 'object' || value === null) return false;
+  const location = value as Partial<FavoriteLocation>;
+  return (
+    typeof location.id === 'string' &&
+    typeof location.name === 'string' &&
+    Number.isFinite(location.lat) &&
+    Number.isFinite(location.lon) &&
+    typeof location.country === 'string' &&
+    (location.state === undefined || typeof location.state === 'string') &&
+    typeof location.addedAt === 'number' &&
+    (location.nickname === undefined || typeof location.nickname === 'string') &&
+    (location.pinnedToTop === undefined || typeof location.pinnedToTop === 'boolean') &&
+    (location.groupId === undefined || typeof location.groupId === 'string')
+  );
+};
+
+const isFavoriteGroup = (value: unknown): value is FavoriteGroup =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as Partial<FavoriteGroup>).id === 'string' &&
+  typeof (value as Partial<FavoriteGroup>).name === 'string';
+
+/**
+ * Drop group ids that point at no group, and groups nobody belongs to
+ */
+const withValidGroups = (favorites: StoredFavorites): StoredFavorites => {
+  const groupIds = new Set(favorites.groups.map(group => group.id));
+  const locations = favorites.locations.map(({ groupId, ...location }): FavoriteLocation =>
+    groupId && groupIds.has(groupId) ? { ...location, groupId } : location
+  );
+  const usedGroupIds = new Set(locations.map(location => location.groupId));
+  return { ...favorites, locations, groups: favorites.groups.filter(group => usedGroupIds.has(group.id)) };
+};
+
+const FAVORITES_SCHEMA: StorageSchema<StoredFavorites> = {
+  version: 3,
+  migrations: {
+    // Unversioned favorites were a bare array of city names
+    0: data => data,
+    // Version 1 stored only names; resolveLegacyFavorites geocodes them
+    1: data => ({ locations: [], unresolved: data }),
+    // Version 2 had no groups
+    2: data => ({ ...(data as object), groups: [] }),
+  },
+  validate: data => {
+    if (typeof data !== 'object' || data === null) throw new Error('favorites are not an object');
+    const { locations, groups, unresolved } = data as Partial<StoredFavorites>;
+    if (!Array.isArray(locations) || !Array.isArray(groups) || !Array.isArray(unresolved)) {
+      throw new Error('favorites are not a list');
+    }
+    return withValidGroups({
+      locations: locations.filter(isFavoriteLocation),
+      groups: groups.filter(isFavoriteGroup),
+      unresolved: unresolved.filter((city): city is string => typeof city === 'string'),
+    });
+  },
+};
+
+/**
+ * Add favorites to another set, skipping places already in it. Groups join
+ * existing groups with the same name.
+ */
+const mergeFavorites = (current: StoredFavorites, added: StoredFavorites): StoredFavorites => {
+  const groups = [...current.groups];
+  const groupIds = new Map<string, string>();
+  added.groups.forEach(({ id, name }) => {
+    let group = groups.find(existing => existing.name.toLowerCase() === name.toLowerCase());
+    if (!group) {
+      group = { id: crypto.randomUUID(), name };
+      groups.push(group);
     }
+    groupIds.set(id, group.id);
+  });
+
+  const locations = [...current.locations];
+  const locationIds = new Set(locations.map(location => location.id));
+  added.locations.forEach(({ groupId, ...location }) => {
+    if (locationIds.has(location.id)) return;
+    locationIds.add(location.id);
+    const mergedGroupId = groupId && groupIds.get(groupId);
+    locations.push(mergedGroupId ? { ...location, groupId: mergedGroupId } : location);
+  });
+
+  const unresolved = [...new Set([...current.unresolved, ...added.unresolved])];
+  return { locations, groups, unresolved };
+};
+
+const toFavoriteLocation = ({ name, lat, lon, country, state }: FavoritePlace): FavoriteLocation => ({
+  id: getCoordinatesId({ lat, lon }),
+  name,
+  lat,
+  lon,
+  country,
+  state,
+  addedAt: Date.now(),
+});
+
+const UNITS_SCHEMA: StorageSchema<UnitPreferences> = {
+  version: 1,
+  migrations: {
+    0: data => data,
+  },
+  // Unknown or missing fields fall back to the defaults one by one
+  validate: data => {
+    if (typeof data !== 'object' || data === null) throw new Error('unit preferences are not an object');
+    const parsed = data as Partial<UnitPreferences>;
+    return {
+      system: isUnitSystem(parsed.system) ? parsed.system : DEFAULT_UNIT_PREFERENCES.system,
+      windSpeed: WIND_SPEED_UNITS.find(unit => unit === parsed.windSpeed) ?? DEFAULT_UNIT_PREFERENCES.windSpeed,
+      pressure: PRESSURE_UNITS.find(unit => unit === parsed.pressure) ?? DEFAULT_UNIT_PREFERENCES.pressure,
+    };
+  },
+};
+
+const LOCALE_SCHEMA: StorageSchema<Locale> = {
+  version: 1,
+  migrations: {
+    // Unversioned locales were stored as the bare language code
+    0: data => data,
+  },
+  validate: data => {
+    if (!isLocale(data)) throw new Error(`unsupported language ${JSON.stringify(data)}`);
+    return data;
+  },
+};
+
+const VIEWER_TIME_SCHEMA: StorageSchema<boolean> = {
+  version: 1,
+  migrations: {
+    0: data => data,
+  },
+  validate: data => {
+    if (typeof data !== 'boolean') throw new Error('expected true or false');
+    return data;
+  },
+};
+
+const RECENT_LOCATIONS_SCHEMA: StorageSchema<string[]> = {
+  version: 1,
+  migrations: {},
+  validate: data => {
+    if (!Array.isArray(data)) throw new Error('recent locations are not a list');
+    return data.filter((city): city is string => typeof city === 'string');
+  },
+};
+
+const PINNED_LOCATIONS_SCHEMA: StorageSchema<string[]> = {
+  version: 1,
+  migrations: {},
+  validate: data => {
+    if (!Array.isArray(data)) throw new Error('pinned locations are not a list');
+    return data.filter((id): id is string => typeof id === 'string');
+  },
+};
+
+const CACHE_CLEANUP_SCHEMA: StorageSchema<CacheCleanupSettings> = {
+  version: 1,
+  migrations: {},
+  validate: data => {
+    if (typeof data !== 'object' || data === null) throw new Error('cleanup settings are not an object');
+    const parsed = data as Partial<CacheCleanupSettings>;
+    return {
+      schedule: CLEANUP_SCHEDULES.find(schedule => schedule === parsed.schedule) ?? DEFAULT_CLEANUP_SETTINGS.schedule,
+      lastRunAt: typeof parsed.lastRunAt === 'number' ? parsed.lastRunAt : null,
+    };
+  },
+};
+
+const QUARANTINE_SCHEMA: StorageSchema<QuarantinedItem[]> = {
+  version: 1,
+  migrations: {},
+  validate: data => {
+    if (!Array.isArray(data)) throw new Error('quarantine is not a list');
+    return data;
+  },
+};
+
+const SETTING_KEYS: Record<string, StoredSetting> = {
+  [FAVORITES_KEY]: 'favorites',
+  [UNITS_KEY]: 'units',
+  [LOCALE_KEY]: 'locale',
+  [VIEWER_TIME_KEY]: 'viewerTime',
+  [PINNED_LOCATIONS_KEY]: 'pinnedLocations',
+  [CACHE_CLEANUP_KEY]: 'cacheCleanup',
+};
+
+const TRANSFER_SCHEMAS: Record<TransferableSetting, StorageSchema<unknown>> = {
+  favorites: FAVORITES_SCHEMA,
+  units: UNITS_SCHEMA,
+  locale: LOCALE_SCHEMA,
+  viewerTime: VIEWER_TIME_SCHEMA,
+  recentLocations: RECENT_LOCATIONS_SCHEMA,
+  pinnedLocations: PINNED_LOCATIONS_SCHEMA,
+  cacheCleanup: CACHE_CLEANUP_SCHEMA,
+};
+
+// Keys upgraded by migrateStoredData on startup
+const VERSIONED_KEYS: { key: string; schema: StorageSchema<unknown> }[] = [
+  { key: FAVORITES_KEY, schema: FAVORITES_SCHEMA },
+  { key: UNITS_KEY, schema: UNITS_SCHEMA },
+  { key: LOCALE_KEY, schema: LOCALE_SCHEMA },
+  { key: VIEWER_TIME_KEY, schema: VIEWER_TIME_SCHEMA },
+  { key: RECENT_LOCATIONS_KEY, schema: RECENT_LOCATIONS_SCHEMA },
+  { key: PINNED_LOCATIONS_KEY, schema: PINNED_LOCATIONS_SCHEMA },
+  { key: CACHE_CLEANUP_KEY, schema: CACHE_CLEANUP_SCHEMA },
+];
+
+export class StorageService {
+  static getFavorites(): FavoriteLocation[] {
+    return this.readFavorites().locations;
   }
 
-  static addFavorite(city: string): string[] {
+  static addFavorite(place: FavoritePlace): FavoriteLocation[] {
     try {
-      const favorites = this.getFavorites();
-      const exists = favorites.some(fav => fav.toLowerCase() === city.toLowerCase());
-      
-      if (!exists) {
-        favorites.push(city);
-        localStorage.setItem(FAVORITES_KEY, JSON.stringify(favorites));
+      const favorites = this.readFavorites();
+      const favorite = toFavoriteLocation(place);
+
+      if (!favorites.locations.some(location => location.id === favorite.id)) {
+        return this.writeFavorites({ ...favorites, locations: [...favorites.locations, favorite] });
       }
-      
-      return favorites;
+
+      return favorites.locations;
     } catch (error) {
       console.error('Error adding favorite:', error);
       return this.getFavorites();
     }
   }
 
-  static removeFavorite(city: string): string[] {
+  static removeFavorite(id: string): FavoriteLocation[] {
     try {
-      const favorites = this.getFavorites();
-      const filtered = favorites.filter(fav => fav.toLowerCase() !== city.toLowerCase());
-      localStorage.setItem(FAVORITES_KEY, JSON.stringify(filtered));
-      
-      // Optional: Clean up cached data for removed favorites
-      // Uncomment the line below if you want to remove cache when unfavoriting
-      // CacheService.removeCachedData(city);
-      
-      return filtered;
+      const favorites = this.readFavorites();
+      const locations = favorites.locations.filter(location => location.id !== id);
+      return this.writeFavorites({ ...favorites, locations });
     } catch (error) {
       console.error('Error removing favorite:', error);
       return this.getFavorites();
     }
   }
 
-  static isFavorite(city: string): boolean {
-    const favorites = this.getFavorites();
-    return favorites.some(fav => fav.toLowerCase() === city.toLowerCase());
+  /**
+   * Change a favorite's nickname or pinning. An empty nickname removes it.
+   */
+  static updateFavorite(id: string, details: FavoriteDetails): FavoriteLocation[] {
+    try {
+      const favorites = this.readFavorites();
+      const nickname = details.nickname?.trim() || undefined;
+      const pinnedToTop = details.pinnedToTop || undefined;
+      const locations = favorites.locations.map(location =>
+        location.id === id ? { ...location, nickname, pinnedToTop } : location
+      );
+      return this.writeFavorites({ ...favorites, locations });
+    } catch (error) {
+      console.error('Error updating favorite:', error);
+      return this.getFavorites();
+    }
+  }
+
+  /**
+   * Put favorites in the given order. Any missing from `ids` follow the rest
+   * in their previous order.
+   */
+  static reorderFavorites(ids: string[]): FavoriteLocation[] {
+    try {
+      const favorites = this.readFavorites();
+      const position = (location: FavoriteLocation) => {
+        const index = ids.indexOf(location.id);
+        return index === -1 ? ids.length : index;
+      };
+      const locations = [...favorites.locations].sort((a, b) => position(a) - position(b));
+      return this.writeFavorites({ ...favorites, locations });
+    } catch (error) {
+      console.error('Error reordering favorites:', error);
+      return this.getFavorites();
+    }
+  }
+
+  static getFavoriteGroups(): FavoriteGroup[] {
+    return this.readFavorites().groups;
+  }
+
+  /**
+   * Move a favorite into the group with this name, creating the group if
+   * needed, or out of its group with null. Groups left empty are removed.
+   */
+  static setFavoriteGroup(id: string, groupName: string | null): FavoriteLocation[] {
+    try {
+      const favorites = this.readFavorites();
+      const name = groupName?.trim();
+      let groups = favorites.groups;
+      let group = name ? groups.find(existing => existing.name.toLowerCase() === name.toLowerCase()) : undefined;
+      if (name && !group) {
+        group = { id: crypto.randomUUID(), name };
+        groups = [...groups, group];
+      }
+
+      const locations = favorites.locations.map(location =>
+        location.id === id ? { ...location, groupId: group?.id } : location
+      );
+      return this.writeFavorites({ ...favorites, locations, groups });
+    } catch (error) {
+      console.error('Error grouping favorite:', error);
+      return this.getFavorites();
+    }
   }
 
   /**
-   * Clean up cached data for cities that are no longer in favorites
+   * Delete a group, leaving its members ungrouped
    */
-  static cleanupUnfavoritedCache(): void {
+  static removeFavoriteGroup(groupId: string): FavoriteLocation[] {
     try {
-      const favorites = this.getFavorites();
-      const cachedCities = CacheService.getAllCachedCities();
-      
-      cachedCities.forEach(cachedCity => {
-        // Skip coordinate-based cache entries
-        if (cachedCity.startsWith('coords_')) return;
-        
-        const isFavorited = favorites.some(fav => fav.toLowerCase() === cachedCity);
-        if (!isFavorited) {
-          CacheService.removeCachedData(cachedCity);
+      const favorites = this.readFavorites();
+      const groups = favorites.groups.filter(group => group.id !== groupId);
+      return this.writeFavorites({ ...favorites, groups });
+    } catch (error) {
+      console.error('Error removing favorite group:', error);
+      return this.getFavorites();
+    }
+  }
+
+  static isFavorite(id: string): boolean {
+    return this.getFavorites().some(location => location.id === id);
+  }
+
+  /**
+   * Whether favorites saved by name alone are still waiting to be geocoded
+   */
+  static hasUnresolvedFavorites(): boolean {
+    return this.readFavorites().unresolved.length > 0;
+  }
+
+  /**
+   * Geocode favorites saved by name before they had coordinates, taking the
+   * geocoder's best match. Names it doesn't know are dropped; lookups that
+   * fail, e.g. without a network, are tried again on the next call. Returns
+   * the updated favorites.
+   */
+  static async resolveLegacyFavorites(lang: Locale): Promise<FavoriteLocation[]> {
+    const { unresolved } = this.readFavorites();
+    const resolved: FavoriteLocation[] = [];
+    const failed: string[] = [];
+
+    for (const city of unresolved) {
+      try {
+        const [match] = await WeatherService.searchCities(city, lang);
+        if (match) {
+          resolved.push(toFavoriteLocation({ ...match, name: getLocalizedCityName(match, lang) }));
+        } else {
+          console.warn(`Dropped favorite ${city}: no matching location found`);
         }
+      } catch (error) {
+        console.error(`Error geocoding favorite ${city}:`, error);
+        failed.push(city);
+      }
+    }
+
+    try {
+      // Favorites may have changed while the lookups ran
+      const favorites = this.readFavorites();
+      const merged = [...favorites.locations];
+      resolved.forEach(favorite => {
+        if (!merged.some(location => location.id === favorite.id)) merged.push(favorite);
       });
+      return this.writeFavorites({ ...favorites, locations: merged, unresolved: failed });
+    } catch (error) {
+      console.error('Error saving geocoded favorites:', error);
+      return this.getFavorites();
+    }
+  }
+
+  static getUnitPreferences(): UnitPreferences {
+    return this.read(UNITS_KEY, UNITS_SCHEMA) ?? DEFAULT_UNIT_PREFERENCES;
+  }
+
+  static setUnitPreferences(units: UnitPreferences): UnitPreferences {
+    try {
+      this.write(UNITS_KEY, UNITS_SCHEMA, units);
+    } catch (error) {
+      console.error('Error saving unit preferences:', error);
+    }
+    return units;
+  }
+
+  /**
+   * The chosen UI language, or the browser's language until one is chosen
+   */
+  static getLocale(): Locale {
+    return this.read(LOCALE_KEY, LOCALE_SCHEMA) ?? detectLocale();
+  }
+
+  static setLocale(locale: Locale): Locale {
+    try {
+      this.write(LOCALE_KEY, LOCALE_SCHEMA, locale);
+    } catch (error) {
+      console.error('Error saving locale:', error);
+    }
+    return locale;
+  }
+
+  /**
+   * Whether to show the viewer's own time alongside each location's local time
+   */
+  static getShowViewerTime(): boolean {
+    return this.read(VIEWER_TIME_KEY, VIEWER_TIME_SCHEMA) ?? false;
+  }
+
+  static setShowViewerTime(show: boolean): boolean {
+    try {
+      this.write(VIEWER_TIME_KEY, VIEWER_TIME_SCHEMA, show);
+    } catch (error) {
+      console.error('Error saving viewer time preference:', error);
+    }
+    return show;
+  }
+
+  /**
+   * Cities the user has looked at recently, newest first
+   */
+  static getRecentLocations(): string[] {
+    return this.read(RECENT_LOCATIONS_KEY, RECENT_LOCATIONS_SCHEMA) ?? [];
+  }
+
+  static addRecentLocation(city: string): string[] {
+    try {
+      const recent = [
+        city,
+        ...this.getRecentLocations().filter(recentCity => recentCity.toLowerCase() !== city.toLowerCase()),
+      ].slice(0, MAX_RECENT_LOCATIONS);
+      this.write(RECENT_LOCATIONS_KEY, RECENT_LOCATIONS_SCHEMA, recent);
+      return recent;
+    } catch (error) {
+      console.error('Error saving recent location:', error);
+      return this.getRecentLocations();
+    }
+  }
+
+  /**
+   * Cached locations the user chose to keep, by the id CacheService gives
+   * them. Like favorites, they are never evicted or cleaned up.
+   */
+  static getPinnedLocations(): string[] {
+    return this.read(PINNED_LOCATIONS_KEY, PINNED_LOCATIONS_SCHEMA) ?? [];
+  }
+
+  static setLocationPinned(id: string, pinned: boolean): string[] {
+    try {
+      const others = this.getPinnedLocations().filter(pinnedId => pinnedId !== id);
+      const updated = pinned ? [...others, id] : others;
+      this.write(PINNED_LOCATIONS_KEY, PINNED_LOCATIONS_SCHEMA, updated);
+      return updated;
+    } catch (error) {
+      console.error('Error saving pinned locations:', error);
+      return this.getPinnedLocations();
+    }
+  }
+
+  static getCacheCleanupSettings(): CacheCleanupSettings {
+    return this.read(CACHE_CLEANUP_KEY, CACHE_CLEANUP_SCHEMA) ?? DEFAULT_CLEANUP_SETTINGS;
+  }
+
+  static setCleanupSchedule(schedule: CleanupSchedule): CacheCleanupSettings {
+    const settings = { ...this.getCacheCleanupSettings(), schedule };
+    try {
+      this.write(CACHE_CLEANUP_KEY, CACHE_CLEANUP_SCHEMA, settings);
+    } catch (error) {
+      console.error('Error saving cleanup schedule:', error);
+    }
+    return settings;
+  }
+
+  /**
+   * Run the unfavorited cache cleanup if the schedule says it's due. Returns
+   * whether it ran.
+   */
+  static async runScheduledCleanup(): Promise<boolean> {
+    const { schedule, lastRunAt } = this.getCacheCleanupSettings();
+    if (schedule === 'off') return false;
+    if (lastRunAt !== null && Date.now() - lastRunAt < CLEANUP_INTERVALS_MS[schedule]) return false;
+
+    await this.cleanupUnfavoritedCache();
+    return true;
+  }
+
+  /**
+   * The current value of each setting, in its versioned envelope
+   */
+  static exportSettings(settings: TransferableSetting[]): ExportedSettings {
+    const current: Required<TransferredSettings> = {
+      favorites: this.readFavorites(),
+      units: this.getUnitPreferences(),
+      locale: this.getLocale(),
+      viewerTime: this.getShowViewerTime(),
+      recentLocations: this.getRecentLocations(),
+      pinnedLocations: this.getPinnedLocations(),
+      // When this browser last cleaned up says nothing about another one
+      cacheCleanup: { ...this.getCacheCleanupSettings(), lastRunAt: null },
+    };
+    return Object.fromEntries(
+      settings.map(setting => [setting, wrap(TRANSFER_SCHEMAS[setting], current[setting])])
+    );
+  }
+
+  /**
+   * Upgrade and check the settings in an export, ignoring ones this version
+   * doesn't know. Throws StorageMigrationError naming the first unusable one.
+   */
+  static readExportedSettings(exported: Record<string, unknown>): TransferredSettings {
+    const settings: Record<string, unknown> = {};
+    TRANSFERABLE_SETTINGS.filter(setting => setting in exported).forEach(setting => {
+      try {
+        settings[setting] = upgrade(TRANSFER_SCHEMAS[setting], exported[setting]).data;
+      } catch (error) {
+        const reason = error instanceof Error ? error.message : String(error);
+        throw new StorageMigrationError(`${setting}: ${reason}`);
+      }
+    });
+    return settings as TransferredSettings;
+  }
+
+  /**
+   * Save imported settings. Throws when they can't be written, e.g. because
+   * storage is full or unavailable.
+   */
+  static importSettings(imported: TransferredSettings, mode: ImportMode): void {
+    const { favorites, units, locale, viewerTime, recentLocations, pinnedLocations, cacheCleanup } = imported;
+
+    if (favorites) {
+      // Merging into nothing also drops duplicates a hand-edited file may have
+      this.writeFavorites(mergeFavorites(mode === 'merge' ? this.readFavorites() : NO_FAVORITES, favorites));
+    }
+    if (units) this.write(UNITS_KEY, UNITS_SCHEMA, units);
+    if (locale) this.write(LOCALE_KEY, LOCALE_SCHEMA, locale);
+    if (viewerTime !== undefined) this.write(VIEWER_TIME_KEY, VIEWER_TIME_SCHEMA, viewerTime);
+    if (recentLocations) {
+      const current = mode === 'merge' ? this.getRecentLocations() : [];
+      const known = new Set(current.map(city => city.toLowerCase()));
+      const recent = [...current, ...recentLocations.filter(city => !known.has(city.toLowerCase()))];
+      this.write(RECENT_LOCATIONS_KEY, RECENT_LOCATIONS_SCHEMA, recent.slice(0, MAX_RECENT_LOCATIONS));
+    }
+    if (pinnedLocations) {
+      const current = mode === 'merge' ? this.getPinnedLocations() : [];
+      this.write(PINNED_LOCATIONS_KEY, PINNED_LOCATIONS_SCHEMA, [...new Set([...current, ...pinnedLocations])]);
+    }
+    if (cacheCleanup) {
+      const settings = { ...this.getCacheCleanupSettings(), schedule: cacheCleanup.schedule };
+      this.write(CACHE_CLEANUP_KEY, CACHE_CLEANUP_SCHEMA, settings);
+    }
+  }
+
+  /**
+   * Call `callback` when another tab changes a setting. The browser only
+   * reports changes made elsewhere, never this tab's own writes. Returns an
+   * unsubscribe function.
+   */
+  static onExternalChange(callback: (setting: StoredSetting) => void): () => void {
+    const handleStorage = (event: StorageEvent) => {
+      // A null key means another tab cleared all of localStorage
+      const settings = event.key === null ? Object.values(SETTING_KEYS) : [SETTING_KEYS[event.key]];
+      settings.filter(setting => setting !== undefined).forEach(callback);
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }
+
+  /**
+   * Upgrade every stored setting to its current version. Run once on startup,
+   * before anything reads them; values that can't be upgraded are quarantined.
+   */
+  static migrateStoredData(): void {
+    VERSIONED_KEYS.forEach(({ key, schema }) => this.read(key, schema));
+  }
+
+  /**
+   * Data set aside because it couldn't be upgraded
+   */
+  static getQuarantine(): QuarantinedItem[] {
+    try {
+      const stored = localStorage.getItem(QUARANTINE_KEY);
+      return stored ? upgrade(QUARANTINE_SCHEMA, JSON.parse(stored)).data : [];
+    } catch (error) {
+      console.error('Error getting quarantined data:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Record data that couldn't be upgraded. `raw` is removed from its original
+   * key by the caller.
+   */
+  static addToQuarantine(key: string, reason: string, raw?: string): void {
+    try {
+      const item: QuarantinedItem = {
+        key,
+        reason,
+        quarantinedAt: Date.now(),
+        ...(raw !== undefined && { raw }),
+        notified: false,
+      };
+      console.warn(`Quarantined stored data for ${key}: ${reason}`);
+      localStorage.setItem(QUARANTINE_KEY, JSON.stringify(wrap(QUARANTINE_SCHEMA, [...this.getQuarantine(), item])));
+    } catch (error) {
+      console.error('Error quarantining data:', error);
+    }
+  }
+
+  static markQuarantineNotified(): void {
+    try {
+      const items = this.getQuarantine().map(item => ({ ...item, notified: true }));
+      localStorage.setItem(QUARANTINE_KEY, JSON.stringify(wrap(QUARANTINE_SCHEMA, items)));
+    } catch (error) {
+      console.error('Error updating quarantined data:', error);
+    }
+  }
+
+  /**
+   * Clean up cached data for every location that is neither a favorite nor
+   * pinned, whether it was looked up by name or by coordinates
+   */
+  static async cleanupUnfavoritedCache(): Promise<void> {
+    try {
+      const kept = new Set([...this.getFavorites().map(favorite => favorite.id), ...this.getPinnedLocations()]);
+      const locations = await CacheService.getCachedLocations();
+
+      await CacheService.removeCachedEntries(
+        locations.filter(location => !kept.has(location.id)).flatMap(location => location.entries)
+      );
+
+      this.write(CACHE_CLEANUP_KEY, CACHE_CLEANUP_SCHEMA, { ...this.getCacheCleanupSettings(), lastRunAt: Date.now() });
     } catch (error) {
       console.error('Error cleaning up cache:', error);
     }
   }
-} 
\ No newline at end of file
+
+  private static readFavorites(): StoredFavorites {
+    return this.read(FAVORITES_KEY, FAVORITES_SCHEMA) ?? NO_FAVORITES;
+  }
+
+  /**
+   * Save favorites and return the locations as saved
+   */
+  private static writeFavorites(favorites: StoredFavorites): FavoriteLocation[] {
+    const saved = withValidGroups(favorites);
+    this.write(FAVORITES_KEY, FAVORITES_SCHEMA, saved);
+    return saved.locations;
+  }
+
+  /**
+   * Read and upgrade a stored value, rewriting it when it was out of date.
+   * Returns null when nothing usable is stored.
+   */
+  private static read<T>(key: string, schema: StorageSchema<T>): T | null {
+    let raw: string | null;
+    try {
+      raw = localStorage.getItem(key);
+    } catch (error) {
+      console.error(`Error reading ${key}:`, error);
+      return null;
+    }
+    if (raw === null) return null;
+
+    let result: UpgradeResult<T>;
+    try {
+      result = upgrade(schema, parseStoredValue(raw));
+    } catch (error) {
+      this.addToQuarantine(key, error instanceof Error ? error.message : String(error), raw);
+      try {
+        localStorage.removeItem(key);
+      } catch (removeError) {
+        console.error(`Error removing ${key}:`, removeError);
+      }
+      return null;
+    }
+
+    if (result.upgraded) {
+      try {
+        this.write(key, schema, result.data);
+      } catch (error) {
+        console.error(`Error saving upgraded ${key}:`, error);
+      }
+    }
+    return result.data;
+  }
+
+  private static write<T>(key: string, schema: StorageSchema<T>, data: T): void {
+    localStorage.setItem(key, JSON.stringify(wrap(schema, data)));
+  }
+}
@@ -0,0 +1,80 @@
+// Everything the app persists is wrapped in a versioned envelope so that a
+// change to a stored shape can ship with a migration instead of breaking
+// returning users
+
+export interface Envelope<T> {
+  version: number;
+  data: T;
+}
+
+export interface StorageSchema<T> {
+  version: number;
+  // migrations[n] upgrades data stored at version n to version n + 1.
+  // Version 0 is whatever was written before envelopes existed.
+  migrations: Record<number, (data: unknown) => unknown>;
+  // Check the fully upgraded data, throwing when it's unusable
+  validate: (data: unknown) => T;
+}
+
+export interface UpgradeResult<T> {
+  data: T;
+  // Whether the stored copy is out of date and should be rewritten
+  upgraded: boolean;
+}
+
+export class StorageMigrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'StorageMigrationError';
+  }
+}
+
+const isEnvelope = (value: unknown): value is Envelope<unknown> =>
+  typeof value === 'object' &&
+  value !== null &&
+  Number.isInteger((value as Envelope<unknown>).version) &&
+  'data' in value;
+
+export function wrap<T>(schema: StorageSchema<T>, data: T): Envelope<T> {
+  return { version: schema.version, data };
+}
+
+/**
+ * Run a stored value through every migration between its version and the
+ * schema's, then validate it. Throws StorageMigrationError when that fails.
+ */
+export function upgrade<T>(schema: StorageSchema<T>, stored: unknown): UpgradeResult<T> {
+  let version = isEnvelope(stored) ? stored.version : 0;
+  let data = isEnvelope(stored) ? stored.data : stored;
+
+  if (version > schema.version) {
+    throw new StorageMigrationError(`stored version ${version} is newer than supported version ${schema.version}`);
+  }
+
+  try {
+    for (; version < schema.version; version++) {
+      const migrate = schema.migrations[version];
+      if (!migrate) {
+        throw new Error(`no migration from version ${version}`);
+      }
+      data = migrate(data);
+    }
+    return { data: schema.validate(data), upgraded: !isEnvelope(stored) || stored.version !== schema.version };
+  } catch (error) {
+    if (error instanceof StorageMigrationError) throw error;
+    const reason = error instanceof Error ? error.message : String(error);
+    throw new StorageMigrationError(`cannot upgrade from version ${version}: ${reason}`);
+  }
+}
+
+/**
+ * Parse a raw localStorage value. Values written before envelopes existed
+ * may be bare strings rather than JSON, so those are returned as-is.
+ */
+export function parseStoredValue(raw: string): unknown {
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return raw;
+  }
+}
@@ -0,0 +1,84 @@
+import { useEffect, useState } from 'react';
+import type { QueryKey } from '@tanstack/react-query';
+
+// Weather data shared between tabs of the app so they show the same thing
+// without each fetching it. Settings in localStorage need none of this; other
+// tabs hear about those through `storage` events.
+export type TabMessage =
+  | { type: 'query-updated'; queryKey: QueryKey; data: unknown; dataUpdatedAt: number }
+  | { type: 'queries-removed'; queryKeys: QueryKey[] }
+  | { type: 'cache-cleared' };
+
+const CHANNEL_NAME = 'weathery-sync';
+// Held by the one tab that runs background refreshes
+const REFRESH_LOCK_NAME = 'weathery-background-refresh';
+
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+/**
+ * Send a message to every other open tab. Tabs never receive their own.
+ */
+export function broadcastToTabs(message: TabMessage): void {
+  try {
+    channel?.postMessage(message);
+  } catch (error) {
+    console.error('Error broadcasting to other tabs:', error);
+  }
+}
+
+/**
+ * Listen for messages from other tabs. Returns an unsubscribe function.
+ */
+export function onTabMessage(callback: (message: TabMessage) => void): () => void {
+  if (!channel) return () => {};
+
+  const handleMessage = (event: MessageEvent<TabMessage>) => callback(event.data);
+  channel.addEventListener('message', handleMessage);
+  return () => channel.removeEventListener('message', handleMessage);
+}
+
+let leadership: Promise<void> | null = null;
+
+/**
+ * Resolves once this tab is the one running background refreshes. The tab
+ * holds the lock until it closes, then the longest waiting tab takes over.
+ * Without the Web Locks API every tab refreshes for itself.
+ */
+function waitForLeadership(): Promise<void> {
+  if (!leadership) {
+    leadership = navigator.locks
+      ? new Promise(resolve => {
+          navigator.locks
+            .request(REFRESH_LOCK_NAME, () => {
+              resolve();
+              // Never settles, so the lock is held for the life of the tab
+              return new Promise<never>(() => {});
+            })
+            .catch(error => {
+              console.error('Error acquiring background refresh lock:', error);
+              resolve();
+            });
+        })
+      : Promise.resolve();
+  }
+  return leadership;
+}
+
+/**
+ * Whether this tab should run background refreshes
+ */
+export function useIsLeaderTab(): boolean {
+  const [isLeader, setIsLeader] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    waitForLeadership().then(() => {
+      if (active) setIsLeader(true);
+    });
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  return isLeader;
+}
@@ -0,0 +1,129 @@
+// 'standard' is OpenWeatherMap's name for Kelvin-based units
+export type UnitSystem = 'metric' | 'imperial' | 'standard';
+export type WindSpeedUnit = 'm/s' | 'km/h' | 'mph' | 'kn';
+export type PressureUnit = 'hPa' | 'inHg';
+
+export interface UnitPreferences {
+  system: UnitSystem;
+  windSpeed: WindSpeedUnit;
+  pressure: PressureUnit;
+}
+
+export const UNIT_SYSTEMS: { value: UnitSystem; label: string }[] = [
+  { value: 'metric', label: '°C' },
+  { value: 'imperial', label: '°F' },
+  { value: 'standard', label: 'K' },
+];
+
+export const WIND_SPEED_UNITS: WindSpeedUnit[] = ['m/s', 'km/h', 'mph', 'kn'];
+export const PRESSURE_UNITS: PressureUnit[] = ['hPa', 'inHg'];
+
+export const DEFAULT_UNIT_PREFERENCES: UnitPreferences = {
+  system: 'metric',
+  windSpeed: 'm/s',
+  pressure: 'hPa',
+};
+
+const METERS_PER_MILE = 1609.344;
+const MPS_PER_MPH = 0.44704;
+const INHG_PER_HPA = 0.0295299830714;
+const MM_PER_INCH = 25.4;
+
+/**
+ * Wind and pressure units that match a unit system out of the box
+ */
+export function getDefaultUnitPreferences(system: UnitSystem): UnitPreferences {
+  return {
+    system,
+    windSpeed: system === 'imperial' ? 'mph' : 'm/s',
+    pressure: system === 'imperial' ? 'inHg' : 'hPa',
+  };
+}
+
+export function isUnitSystem(value: unknown): value is UnitSystem {
+  return UNIT_SYSTEMS.some(unit => unit.value === value);
+}
+
+export function getTemperatureSymbol(system: UnitSystem): string {
+  return UNIT_SYSTEMS.find(unit => unit.value === system)?.label ?? '°C';
+}
+
+/**
+ * Format a temperature in the given unit system. With `showUnit` off only the
+ * degree sign is kept (Kelvin has no degree sign, so it always keeps "K").
+ */
+export function formatTemperature(temp: number, system: UnitSystem, showUnit = true): string {
+  const rounded = Math.round(temp);
+  if (system === 'standard') return `${rounded} K`;
+  return showUnit ? `${rounded}${getTemperatureSymbol(system)}` : `${rounded}°`;
+}
+
+export function convertTemperatureFromCelsius(celsius: number, system: UnitSystem): number {
+  if (system === 'imperial') return celsius * 9 / 5 + 32;
+  if (system === 'standard') return celsius + 273.15;
+  return celsius;
+}
+
+/**
+ * The API reports wind in m/s for metric and standard, and in mph for imperial
+ */
+export function convertWindSpeed(speed: number, system: UnitSystem, unit: WindSpeedUnit): number {
+  const metersPerSecond = system === 'imperial' ? speed * MPS_PER_MPH : speed;
+
+  switch (unit) {
+    case 'km/h':
+      return metersPerSecond * 3.6;
+    case 'mph':
+      return metersPerSecond / MPS_PER_MPH;
+    case 'kn':
+      return metersPerSecond * 1.943844;
+    default:
+      return metersPerSecond;
+  }
+}
+
+/**
+ * Locale-aware number with at most `maxFractionDigits` decimals
+ */
+const formatNumber = (value: number, maxFractionDigits: number, locale?: string): string =>
+  new Intl.NumberFormat(locale, { maximumFractionDigits: maxFractionDigits }).format(value);
+
+export function formatWindSpeed(speed: number, units: UnitPreferences, locale?: string): string {
+  const converted = convertWindSpeed(speed, units.system, units.windSpeed);
+  return `${formatNumber(converted, 1, locale)} ${units.windSpeed}`;
+}
+
+/**
+ * Visibility always arrives in meters regardless of the requested units
+ */
+export function formatVisibility(meters: number, system: UnitSystem, locale?: string): string {
+  if (system === 'imperial') {
+    return `${formatNumber(meters / METERS_PER_MILE, 1, locale)} mi`;
+  }
+  return `${formatNumber(meters / 1000, 1, locale)} km`;
+}
+
+export function formatDistance(km: number, system: UnitSystem, locale?: string): string {
+  return formatVisibility(km * 1000, system, locale);
+}
+
+/**
+ * Precipitation always arrives in millimeters regardless of the requested units
+ */
+export function formatPrecipitation(mm: number, system: UnitSystem, locale?: string): string {
+  if (system === 'imperial') {
+    return `${formatNumber(mm / MM_PER_INCH, 2, locale)} in`;
+  }
+  return `${formatNumber(mm, 1, locale)} mm`;
+}
+
+/**
+ * Pressure always arrives in hPa regardless of the requested units
+ */
+export function formatPressure(hPa: number, unit: PressureUnit, locale?: string): string {
+  if (unit === 'inHg') {
+    const inHg = new Intl.NumberFormat(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    return `${inHg.format(hPa * INHG_PER_HPA)} inHg`;
+  }
+  return `${formatNumber(hPa, 0, locale)} hPa`;
+}
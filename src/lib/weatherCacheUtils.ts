@@ -1,30 +1,11 @@
-import { useQueryClient } from '@tanstack/react-query';
-import { weatherKeys } from './weatherHooks';
+import { useQueryClient, type QueryKey } from '@tanstack/react-query';
+import { describeWeatherKey, weatherKeys } from './weatherKeys';
 import { WeatherService } from './weatherService';
-
-// Utility for background cache warming
-export function useCacheWarming() {
-  const queryClient = useQueryClient();
-
-  const warmCache = async (cities: string[]) => {
-    const promises = cities.map(city => [
-      queryClient.prefetchQuery({
-        queryKey: weatherKeys.currentByCity(city),
-        queryFn: () => WeatherService.getCurrentWeather(city),
-        staleTime: 5 * 60 * 1000,
-      }),
-      queryClient.prefetchQuery({
-        queryKey: weatherKeys.forecastByCity(city),
-        queryFn: () => WeatherService.getForecast(city),
-        staleTime: 10 * 60 * 1000,
-      }),
-    ]).flat();
-
-    await Promise.allSettled(promises);
-  };
-
-  return { warmCache };
-}
+import { CacheService, type CachedLocation } from './cacheService';
+import { StorageService } from './storage';
+import type { UnitSystem } from './units';
+import type { Locale } from './i18n';
+import { shouldRetryWeatherRequest } from './weatherErrors';
 
 // Utility for cache inspection
 export function useCacheInspector() {
@@ -79,7 +60,7 @@ export function useOfflineSupport() {
     // Re-enable background refetching when online
     queryClient.setDefaultOptions({
       queries: {
-        retry: 3,
+        retry: shouldRetryWeatherRequest,
         refetchOnWindowFocus: true,
         refetchOnReconnect: true,
         networkMode: 'online',
@@ -87,42 +68,91 @@ export function useOfflineSupport() {
     });
   };
 
-  const isOnline = navigator.onLine;
+  const isOnline = CacheService.isOnline();
 
   return { enableOfflineMode, enableOnlineMode, isOnline };
 }
 
-// Smart cache invalidation based on time and usage patterns
+// Rebuild the fetch for a persisted weather query from its key; restored
+// queries have no query function of their own until a hook uses them
+const getWeatherQueryFn = (queryKey: QueryKey): (() => Promise<unknown>) | null => {
+  const info = describeWeatherKey(queryKey);
+  if (!info) return null;
+
+  if (info.kind === 'air-quality') {
+    const { coords } = info;
+    return coords && (() => WeatherService.getAirQuality(coords.lat, coords.lon));
+  }
+
+  // Current weather and forecast keys end with the units and language
+  const [units, lang] = queryKey.slice(-2) as [UnitSystem, Locale];
+  const { city, coords } = info;
+  if (info.kind === 'current') {
+    if (city) return () => WeatherService.getCurrentWeather(city, units, lang);
+    return coords && (() => WeatherService.getCurrentWeatherByCoords(coords.lat, coords.lon, units, lang));
+  }
+  if (city) return () => WeatherService.getForecast(city, units, lang);
+  return coords && (() => WeatherService.getForecastByCoords(coords.lat, coords.lon, units, lang));
+};
+
+// Refetch the weather data that has gone stale, including queries restored
+// from the persisted cache that no component is using yet
 export function useSmartCacheInvalidation() {
   const queryClient = useQueryClient();
 
-  const invalidateStaleData = () => {
-    const now = Date.now();
-    const cache = queryClient.getQueryCache();
-    
-    cache.getAll().forEach(query => {
-      if (query.queryKey[0] === 'weather') {
-        const lastUpdated = query.state.dataUpdatedAt || 0;
-        const staleTime = 5 * 60 * 1000; // 5 minutes
-        
-        if (now - lastUpdated > staleTime) {
-          queryClient.invalidateQueries({
-            queryKey: query.queryKey,
-          });
-        }
-      }
+  const refreshStaleData = async () => {
+    const stale = queryClient.getQueryCache().findAll({
+      queryKey: weatherKeys.all,
+      predicate: query =>
+        query.state.data !== undefined && !CacheService.isCacheDataFresh(query.state.dataUpdatedAt),
     });
+
+    await Promise.allSettled(
+      stale.map(({ queryKey }) => {
+        const queryFn = getWeatherQueryFn(queryKey);
+        return queryFn && queryClient.fetchQuery({ queryKey, queryFn, staleTime: 0 });
+      })
+    );
   };
 
-  const invalidateByPattern = (pattern: string) => {
-    queryClient.invalidateQueries({
-      predicate: (query) => {
-        return query.queryKey.some(key => 
-          typeof key === 'string' && key.includes(pattern)
-        );
-      },
-    });
+  return { refreshStaleData };
+}
+
+// Cache management for the storage panel. Changes go to both the persisted
+// cache and the in-memory queries, so removed data isn't shown again.
+export function useCacheManagement() {
+  const queryClient = useQueryClient();
+  const { clearWeatherCache } = useCacheInspector();
+
+  const refreshLocation = async (location: CachedLocation) => {
+    await Promise.allSettled(
+      location.entries.map(({ queryKey }) => {
+        const queryFn = getWeatherQueryFn(queryKey);
+        return queryFn && queryClient.fetchQuery({ queryKey, queryFn, staleTime: 0 });
+      })
+    );
+  };
+
+  const removeLocation = async (location: CachedLocation) => {
+    await CacheService.removeCachedEntries(location.entries);
+    location.entries.forEach(({ queryKey }) => queryClient.removeQueries({ queryKey, exact: true }));
   };
 
-  return { invalidateStaleData, invalidateByPattern };
-} 
\ No newline at end of file
+  const cleanupUnfavorited = async () => {
+    const before = await CacheService.getCachedLocations();
+    await StorageService.cleanupUnfavoritedCache();
+    const remaining = new Set((await CacheService.getCachedLocations()).flatMap(location => location.entries.map(entry => entry.recordKey)));
+
+    before
+      .flatMap(location => location.entries)
+      .filter(entry => !remaining.has(entry.recordKey))
+      .forEach(({ queryKey }) => queryClient.removeQueries({ queryKey, exact: true }));
+  };
+
+  const clearAll = async () => {
+    await CacheService.clearAllCache();
+    clearWeatherCache();
+  };
+
+  return { refreshLocation, removeLocation, cleanupUnfavorited, clearAll };
+}
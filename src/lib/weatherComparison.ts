@@ -0,0 +1,65 @@
+import { getDailySummaries, type DailySummary } from './forecastAggregation';
+import { getCoordinatesId, type Coordinates } from './geo';
+import type { ForecastData } from './weatherService';
+
+export const MIN_COMPARED_LOCATIONS = 2;
+export const MAX_COMPARED_LOCATIONS = 4;
+
+export interface ComparedLocation {
+  // Coordinates id, or the lowercased name for places found by name only
+  id: string;
+  name: string;
+  // Known for favorites and stored search results; others are fetched by name
+  coords?: Coordinates;
+}
+
+// One calendar date of the comparison, with each location's summary for it
+export interface ComparisonDay {
+  date: string; // YYYY-MM-DD
+  // From the first location that has the day, for labelling it
+  time: number;
+  timezoneOffset: number;
+  // In the order of the locations; null where a forecast doesn't cover the day
+  summaries: (DailySummary | null)[];
+}
+
+export function toComparedLocation(name: string, coords?: Coordinates): ComparedLocation {
+  return { id: coords ? getCoordinatesId(coords) : name.toLowerCase(), name, coords };
+}
+
+/**
+ * Line up the locations' forecasts by calendar date, so a day is compared
+ * with the same day elsewhere even when the locations are hours apart
+ */
+export function getComparisonDays(forecasts: (ForecastData | null)[], days = 5): ComparisonDay[] {
+  const summaries = forecasts.map(forecast => (forecast ? getDailySummaries(forecast, days) : []));
+
+  const labels = new Map<string, Pick<ComparisonDay, 'time' | 'timezoneOffset'>>();
+  forecasts.forEach((forecast, index) => {
+    summaries[index].forEach(({ date, time }) => {
+      if (forecast && !labels.has(date)) labels.set(date, { time, timezoneOffset: forecast.location.timezoneOffset });
+    });
+  });
+
+  return [...labels.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .slice(0, days)
+    .map(([date, label]) => ({
+      date,
+      ...label,
+      summaries: summaries.map(daily => daily.find(summary => summary.date === date) ?? null),
+    }));
+}
+
+/**
+ * Indexes of the highest values, or none when fewer than two locations have
+ * a value or they are all the same, e.g. no rain anywhere
+ */
+export function getHighestIndexes(values: (number | null | undefined)[]): Set<number> {
+  const known = values.filter((value): value is number => typeof value === 'number');
+  if (known.length < 2) return new Set();
+
+  const highest = Math.max(...known);
+  if (known.every(value => value === highest)) return new Set();
+  return new Set(values.flatMap((value, index) => (value === highest ? [index] : [])));
+}
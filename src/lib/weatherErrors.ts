@@ -0,0 +1,255 @@
+import { DEFAULT_LOCALE, translate, type Locale } from './i18n';
+
+export type WeatherErrorCategory =
+  | 'auth'
+  | 'not-found'
+  | 'rate-limit'
+  | 'server'
+  | 'network'
+  | 'bad-request'
+  | 'invalid-response'
+  | 'unknown';
+
+const MAX_RETRY_DELAY_MS = 30000;
+
+/**
+ * Base class for every failure talking to a weather provider. Carries the
+ * HTTP status (0 when the request never got a response), the provider's own
+ * message and whether repeating the request could succeed.
+ */
+export class WeatherApiError extends Error {
+  readonly category: WeatherErrorCategory;
+  readonly status: number;
+  readonly provider: string;
+  readonly providerMessage?: string;
+  readonly retryable: boolean;
+
+  constructor(
+    message: string,
+    options: {
+      category: WeatherErrorCategory;
+      status: number;
+      provider: string;
+      providerMessage?: string;
+      retryable: boolean;
+    }
+  ) {
+    super(message);
+    this.name = 'WeatherApiError';
+    this.category = options.category;
+    this.status = options.status;
+    this.provider = options.provider;
+    this.providerMessage = options.providerMessage;
+    this.retryable = options.retryable;
+  }
+
+  /**
+   * Build the matching error subclass for a non-OK response
+   */
+  static async fromResponse(response: Response, provider: string): Promise<WeatherApiError> {
+    const providerMessage = await readProviderMessage(response);
+    const status = response.status;
+
+    if (status === 401 || status === 403) {
+      return new AuthenticationError(provider, status, providerMessage);
+    }
+    if (status === 404) {
+      return new NotFoundError(provider, providerMessage);
+    }
+    if (status === 429) {
+      return new RateLimitError(provider, providerMessage, parseRetryAfter(response.headers.get('Retry-After')));
+    }
+    if (status >= 500) {
+      return new ServerError(provider, status, providerMessage);
+    }
+    if (status >= 400) {
+      return new BadRequestError(provider, status, providerMessage);
+    }
+    return new WeatherApiError(`Unexpected response from ${provider} (${status})`, {
+      category: 'unknown',
+      status,
+      provider,
+      providerMessage,
+      retryable: false,
+    });
+  }
+}
+
+export class AuthenticationError extends WeatherApiError {
+  constructor(provider: string, status = 401, providerMessage?: string) {
+    super(`${provider} rejected the API key`, {
+      category: 'auth',
+      status,
+      provider,
+      providerMessage,
+      retryable: false,
+    });
+    this.name = 'AuthenticationError';
+  }
+}
+
+export class NotFoundError extends WeatherApiError {
+  constructor(provider: string, providerMessage?: string) {
+    super('Weather data not found', {
+      category: 'not-found',
+      status: 404,
+      provider,
+      providerMessage,
+      retryable: false,
+    });
+    this.name = 'NotFoundError';
+  }
+}
+
+export class RateLimitError extends WeatherApiError {
+  readonly retryAfterMs?: number;
+
+  constructor(provider: string, providerMessage?: string, retryAfterMs?: number) {
+    super(`${provider} rate limit exceeded`, {
+      category: 'rate-limit',
+      status: 429,
+      provider,
+      providerMessage,
+      retryable: true,
+    });
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export class ServerError extends WeatherApiError {
+  constructor(provider: string, status: number, providerMessage?: string) {
+    super(`${provider} is unavailable (${status})`, {
+      category: 'server',
+      status,
+      provider,
+      providerMessage,
+      retryable: true,
+    });
+    this.name = 'ServerError';
+  }
+}
+
+export class BadRequestError extends WeatherApiError {
+  constructor(provider: string, status: number, providerMessage?: string) {
+    super(`${provider} could not process the request (${status})`, {
+      category: 'bad-request',
+      status,
+      provider,
+      providerMessage,
+      retryable: false,
+    });
+    this.name = 'BadRequestError';
+  }
+}
+
+export class NetworkError extends WeatherApiError {
+  constructor(provider: string) {
+    super(`Could not reach ${provider}`, {
+      category: 'network',
+      status: 0,
+      provider,
+      retryable: true,
+    });
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The provider answered, but the payload is missing data the app needs.
+ * `issues` lists every problem found, as `path: message`.
+ */
+export class InvalidResponseError extends WeatherApiError {
+  readonly issues: string[];
+
+  constructor(provider: string, issues: string[]) {
+    super(`${provider} returned an invalid response: ${issues.slice(0, 3).join('; ')}`, {
+      category: 'invalid-response',
+      status: 200,
+      provider,
+      retryable: false,
+    });
+    this.name = 'InvalidResponseError';
+    this.issues = issues;
+  }
+}
+
+// OpenWeatherMap answers `{ cod, message }`, Open-Meteo `{ error, reason }`
+const readProviderMessage = async (response: Response): Promise<string | undefined> => {
+  try {
+    const body = await response.json();
+    const message = body?.message ?? body?.reason;
+    return typeof message === 'string' ? message : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const parseRetryAfter = (header: string | null): number | undefined => {
+  if (!header) return undefined;
+
+  const seconds = Number(header);
+  if (!Number.isNaN(seconds)) return seconds * 1000;
+
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+export function isWeatherApiError(error: unknown): error is WeatherApiError {
+  return error instanceof WeatherApiError;
+}
+
+/**
+ * React Query retry policy: never repeat requests that cannot succeed
+ * (bad key, unknown city, malformed request)
+ */
+export function shouldRetryWeatherRequest(failureCount: number, error: Error, maxRetries = 3): boolean {
+  if (isWeatherApiError(error) && !error.retryable) {
+    return false;
+  }
+  return failureCount < maxRetries;
+}
+
+/**
+ * Exponential backoff, honoring the provider's Retry-After when rate limited
+ */
+export function getWeatherRetryDelay(attemptIndex: number, error: Error): number {
+  const backoff = Math.min(1000 * 2 ** attemptIndex, MAX_RETRY_DELAY_MS);
+  if (error instanceof RateLimitError && error.retryAfterMs !== undefined) {
+    return Math.min(Math.max(error.retryAfterMs, backoff), MAX_RETRY_DELAY_MS);
+  }
+  return backoff;
+}
+
+/**
+ * User-facing explanation of a failed weather request
+ */
+export function getWeatherErrorMessage(error: Error, city?: string | null, locale: Locale = DEFAULT_LOCALE): string {
+  if (!isWeatherApiError(error)) {
+    return error.message;
+  }
+
+  const provider = error.provider;
+  switch (error.category) {
+    case 'auth':
+      return translate(locale, 'error.auth', { provider });
+    case 'not-found':
+      return city
+        ? translate(locale, 'error.notFoundCity', { city })
+        : translate(locale, 'error.notFoundLocation');
+    case 'rate-limit':
+      return translate(locale, 'error.rateLimit');
+    case 'server':
+      return translate(locale, 'error.server', { provider });
+    case 'network':
+      return translate(locale, 'error.network', { provider });
+    case 'invalid-response':
+      return translate(locale, 'error.invalidResponse', { provider });
+    case 'bad-request':
+      return error.providerMessage
+        ? translate(locale, 'error.badRequestDetail', { provider, detail: error.providerMessage })
+        : translate(locale, 'error.badRequest', { provider });
+    default:
+      return error.message;
+  }
+}
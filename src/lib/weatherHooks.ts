@@ -1,92 +1,116 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { WeatherService } from './weatherService';
-
-// Query keys for caching
-export const weatherKeys = {
-  all: ['weather'] as const,
-  current: () => [...weatherKeys.all, 'current'] as const,
-  currentByCity: (city: string) => [...weatherKeys.current(), city] as const,
-  currentByCoords: (lat: number, lon: number) => [...weatherKeys.current(), 'coords', lat, lon] as const,
-  forecast: () => [...weatherKeys.all, 'forecast'] as const,
-  forecastByCity: (city: string) => [...weatherKeys.forecast(), city] as const,
-  forecastByCoords: (lat: number, lon: number) => [...weatherKeys.forecast(), 'coords', lat, lon] as const,
-  cities: () => [...weatherKeys.all, 'cities'] as const,
-  citiesSearch: (query: string) => [...weatherKeys.cities(), query] as const,
-};
+import type { UnitSystem } from './units';
+import type { Locale } from './i18n';
+import { weatherKeys } from './weatherKeys';
+import { roundCoordinates, type Coordinates } from './geo';
+import { PERSISTED_QUERY_GC_TIME } from './queryPersistence';
+import { getWeatherRetryDelay, shouldRetryWeatherRequest } from './weatherErrors';
 
 // Hook for current weather by city
-export function useCurrentWeather(city: string | null) {
+export function useCurrentWeather(city: string | null, units: UnitSystem, lang: Locale) {
   return useQuery({
-    queryKey: weatherKeys.currentByCity(city || ''),
+    queryKey: weatherKeys.currentByCity(city || '', units, lang),
     queryFn: () => {
       if (!city) throw new Error('City is required');
-      return WeatherService.getCurrentWeather(city);
+      return WeatherService.getCurrentWeather(city, units, lang);
     },
     enabled: !!city,
     staleTime: 5 * 60 * 1000, // 5 minutes
-    gcTime: 10 * 60 * 1000, // 10 minutes
-    retry: 3,
-    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+    gcTime: PERSISTED_QUERY_GC_TIME,
+    retry: shouldRetryWeatherRequest,
+    retryDelay: getWeatherRetryDelay,
   });
 }
 
 // Hook for current weather by coordinates
-export function useCurrentWeatherByCoords(coords: { lat: number; lon: number } | null) {
+export function useCurrentWeatherByCoords(
+  coords: { lat: number; lon: number } | null,
+  units: UnitSystem,
+  lang: Locale
+) {
+  // Fetch for the rounded position so the data matches the shared cache key
+  const location = coords && roundCoordinates(coords);
+
   return useQuery({
-    queryKey: coords ? weatherKeys.currentByCoords(coords.lat, coords.lon) : [],
+    queryKey: location ? weatherKeys.currentByCoords(location.lat, location.lon, units, lang) : [],
     queryFn: () => {
-      if (!coords) throw new Error('Coordinates are required');
-      return WeatherService.getCurrentWeatherByCoords(coords.lat, coords.lon);
+      if (!location) throw new Error('Coordinates are required');
+      return WeatherService.getCurrentWeatherByCoords(location.lat, location.lon, units, lang);
     },
-    enabled: !!coords,
+    enabled: !!location,
     staleTime: 5 * 60 * 1000, // 5 minutes
-    gcTime: 10 * 60 * 1000, // 10 minutes
-    retry: 3,
-    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+    gcTime: PERSISTED_QUERY_GC_TIME,
+    retry: shouldRetryWeatherRequest,
+    retryDelay: getWeatherRetryDelay,
   });
 }
 
 // Hook for forecast by city
-export function useForecast(city: string | null) {
+export function useForecast(city: string | null, units: UnitSystem, lang: Locale) {
   return useQuery({
-    queryKey: weatherKeys.forecastByCity(city || ''),
+    queryKey: weatherKeys.forecastByCity(city || '', units, lang),
     queryFn: () => {
       if (!city) throw new Error('City is required');
-      return WeatherService.getForecast(city);
+      return WeatherService.getForecast(city, units, lang);
     },
     enabled: !!city,
     staleTime: 10 * 60 * 1000, // 10 minutes (forecast changes less frequently)
-    gcTime: 20 * 60 * 1000, // 20 minutes
-    retry: 3,
-    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+    gcTime: PERSISTED_QUERY_GC_TIME,
+    retry: shouldRetryWeatherRequest,
+    retryDelay: getWeatherRetryDelay,
   });
 }
 
 // Hook for forecast by coordinates
-export function useForecastByCoords(coords: { lat: number; lon: number } | null) {
+export function useForecastByCoords(
+  coords: { lat: number; lon: number } | null,
+  units: UnitSystem,
+  lang: Locale
+) {
+  const location = coords && roundCoordinates(coords);
+
   return useQuery({
-    queryKey: coords ? weatherKeys.forecastByCoords(coords.lat, coords.lon) : [],
+    queryKey: location ? weatherKeys.forecastByCoords(location.lat, location.lon, units, lang) : [],
     queryFn: () => {
-      if (!coords) throw new Error('Coordinates are required');
-      return WeatherService.getForecastByCoords(coords.lat, coords.lon);
+      if (!location) throw new Error('Coordinates are required');
+      return WeatherService.getForecastByCoords(location.lat, location.lon, units, lang);
     },
-    enabled: !!coords,
+    enabled: !!location,
     staleTime: 10 * 60 * 1000, // 10 minutes
-    gcTime: 20 * 60 * 1000, // 20 minutes
-    retry: 3,
-    retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+    gcTime: PERSISTED_QUERY_GC_TIME,
+    retry: shouldRetryWeatherRequest,
+    retryDelay: getWeatherRetryDelay,
+  });
+}
+
+// Hook for air quality by coordinates; the persisted copy keeps it available offline
+export function useAirQuality(coords: { lat: number; lon: number } | null) {
+  const location = coords && roundCoordinates(coords);
+
+  return useQuery({
+    queryKey: location ? weatherKeys.airQuality(location.lat, location.lon) : [],
+    queryFn: () => {
+      if (!location) throw new Error('Coordinates are required');
+      return WeatherService.getAirQuality(location.lat, location.lon);
+    },
+    enabled: !!location,
+    staleTime: 30 * 60 * 1000, // 30 minutes (air quality updates hourly)
+    gcTime: PERSISTED_QUERY_GC_TIME,
+    retry: shouldRetryWeatherRequest,
+    retryDelay: getWeatherRetryDelay,
   });
 }
 
 // Hook for city search
-export function useCitySearch(query: string) {
+export function useCitySearch(query: string, lang: Locale) {
   return useQuery({
-    queryKey: weatherKeys.citiesSearch(query),
-    queryFn: () => WeatherService.searchCities(query),
+    queryKey: weatherKeys.citiesSearch(query, lang),
+    queryFn: () => WeatherService.searchCities(query, lang),
     enabled: query.length >= 2, // Only search when query has at least 2 characters
     staleTime: 30 * 60 * 1000, // 30 minutes (city data doesn't change)
     gcTime: 60 * 60 * 1000, // 1 hour
-    retry: 2,
+    retry: (failureCount, error) => shouldRetryWeatherRequest(failureCount, error, 2),
   });
 }
 
@@ -106,9 +130,9 @@ export function useCurrentPosition() {
 }
 
 // Combined hook for weather and forecast by city
-export function useWeatherData(city: string | null) {
-  const currentWeather = useCurrentWeather(city);
-  const forecast = useForecast(city);
+export function useWeatherData(city: string | null, units: UnitSystem, lang: Locale) {
+  const currentWeather = useCurrentWeather(city, units, lang);
+  const forecast = useForecast(city, units, lang);
 
   return {
     currentWeather: currentWeather.data,
@@ -124,9 +148,13 @@ export function useWeatherData(city: string | null) {
 }
 
 // Combined hook for weather and forecast by coordinates
-export function useWeatherDataByCoords(coords: { lat: number; lon: number } | null) {
-  const currentWeather = useCurrentWeatherByCoords(coords);
-  const forecast = useForecastByCoords(coords);
+export function useWeatherDataByCoords(
+  coords: { lat: number; lon: number } | null,
+  units: UnitSystem,
+  lang: Locale
+) {
+  const currentWeather = useCurrentWeatherByCoords(coords, units, lang);
+  const forecast = useForecastByCoords(coords, units, lang);
 
   return {
     currentWeather: currentWeather.data,
@@ -141,21 +169,22 @@ export function useWeatherDataByCoords(coords: { lat: number; lon: number } | nu
   };
 }
 
-// Mutation for prefetching weather data for favorites
+// Mutation for prefetching weather data for favorites, which are fetched by coordinates
 export function usePrefetchWeather() {
   const queryClient = useQueryClient();
 
   return useMutation({
-    mutationFn: async (city: string) => {
+    mutationFn: async ({ coords, units, lang }: { coords: Coordinates; units: UnitSystem; lang: Locale }) => {
+      const { lat, lon } = roundCoordinates(coords);
       await Promise.all([
         queryClient.prefetchQuery({
-          queryKey: weatherKeys.currentByCity(city),
-          queryFn: () => WeatherService.getCurrentWeather(city),
+          queryKey: weatherKeys.currentByCoords(lat, lon, units, lang),
+          queryFn: () => WeatherService.getCurrentWeatherByCoords(lat, lon, units, lang),
           staleTime: 5 * 60 * 1000,
         }),
         queryClient.prefetchQuery({
-          queryKey: weatherKeys.forecastByCity(city),
-          queryFn: () => WeatherService.getForecast(city),
+          queryKey: weatherKeys.forecastByCoords(lat, lon, units, lang),
+          queryFn: () => WeatherService.getForecastByCoords(lat, lon, units, lang),
           staleTime: 10 * 60 * 1000,
         }),
       ]);
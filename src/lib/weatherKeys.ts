@@ -0,0 +1,61 @@
+import type { QueryKey } from '@tanstack/react-query';
+import type { UnitSystem } from './units';
+import type { Locale } from './i18n';
+import { roundCoordinate, type Coordinates } from './geo';
+
+// City names are matched case-insensitively, so "London" and "london" share
+// one cache entry
+const normalizeCity = (city: string): string => city.toLowerCase();
+
+// Query keys for caching. Coordinates are rounded so nearby positions share
+// one cache entry; keys persisted before rounding keep their raw coordinates
+// until they expire.
+export const weatherKeys = {
+  all: ['weather'] as const,
+  current: () => [...weatherKeys.all, 'current'] as const,
+  currentByCity: (city: string, units: UnitSystem, lang: Locale) =>
+    [...weatherKeys.current(), normalizeCity(city), units, lang] as const,
+  currentByCoords: (lat: number, lon: number, units: UnitSystem, lang: Locale) =>
+    [...weatherKeys.current(), 'coords', roundCoordinate(lat), roundCoordinate(lon), units, lang] as const,
+  forecast: () => [...weatherKeys.all, 'forecast'] as const,
+  forecastByCity: (city: string, units: UnitSystem, lang: Locale) =>
+    [...weatherKeys.forecast(), normalizeCity(city), units, lang] as const,
+  forecastByCoords: (lat: number, lon: number, units: UnitSystem, lang: Locale) =>
+    [...weatherKeys.forecast(), 'coords', roundCoordinate(lat), roundCoordinate(lon), units, lang] as const,
+  airQuality: (lat: number, lon: number) =>
+    [...weatherKeys.all, 'air-quality', roundCoordinate(lat), roundCoordinate(lon)] as const,
+  cities: () => [...weatherKeys.all, 'cities'] as const,
+  citiesSearch: (query: string, lang: Locale) => [...weatherKeys.cities(), query, lang] as const,
+};
+
+export type PersistedQueryKind = 'current' | 'forecast' | 'air-quality';
+
+export interface WeatherKeyInfo {
+  kind: PersistedQueryKind;
+  // Lowercased city for city-based queries, null for coordinates
+  city: string | null;
+  // Position for coordinate-based queries, null for cities
+  coords: Coordinates | null;
+}
+
+const toCoordinates = (lat: unknown, lon: unknown): Coordinates | null =>
+  typeof lat === 'number' && typeof lon === 'number' ? { lat, lon } : null;
+
+/**
+ * Identify a weather query that is persisted for offline use, or return null
+ * for keys that stay in memory only (city search, geolocation)
+ */
+export function describeWeatherKey(queryKey: QueryKey): WeatherKeyInfo | null {
+  const [scope, kind, target, ...rest] = queryKey;
+  if (scope !== weatherKeys.all[0]) return null;
+
+  if (kind === 'current' || kind === 'forecast') {
+    return target === 'coords'
+      ? { kind, city: null, coords: toCoordinates(rest[0], rest[1]) }
+      : { kind, city: typeof target === 'string' ? target : null, coords: null };
+  }
+  if (kind === 'air-quality') {
+    return { kind, city: null, coords: toCoordinates(target, rest[0]) };
+  }
+  return null;
+}
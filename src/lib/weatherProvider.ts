@@ -0,0 +1,81 @@
+import { OpenMeteoProvider } from './openMeteoProvider';
+import { OpenWeatherMapProvider } from './openWeatherMapProvider';
+import { FIXTURE_BASE_URL, FIXTURE_GEO_URL } from './fixtures/fixtureUrls';
+import type { AirQualityData, CitySearchResult, CurrentWeather, ForecastData } from './weatherService';
+import type { UnitSystem } from './units';
+import type { Locale } from './i18n';
+
+export type WeatherProviderId = 'openweathermap' | 'open-meteo';
+
+// 'fixtures' runs the OpenWeatherMap adapter against the local fixture backend
+export type WeatherProviderSetting = WeatherProviderId | 'fixtures';
+
+/**
+ * A source of weather data. Adapters translate their API's responses into
+ * the app-level models so nothing outside the adapter sees provider fields.
+ */
+export interface WeatherProvider {
+  readonly id: WeatherProviderId;
+  readonly name: string;
+  readonly attributionUrl: string;
+  getCurrentWeather(city: string, units: UnitSystem, lang: Locale): Promise<CurrentWeather>;
+  getCurrentWeatherByCoords(lat: number, lon: number, units: UnitSystem, lang: Locale): Promise<CurrentWeather>;
+  getForecast(city: string, units: UnitSystem, lang: Locale): Promise<ForecastData>;
+  getForecastByCoords(lat: number, lon: number, units: UnitSystem, lang: Locale): Promise<ForecastData>;
+  getAirQuality(lat: number, lon: number): Promise<AirQualityData>;
+  // `lang` localizes result names where the geocoder supports it
+  searchCities(query: string, lang: Locale): Promise<CitySearchResult[]>;
+}
+
+const API_KEY = import.meta.env.VITE_OPENWEATHER_API_KEY;
+
+/**
+ * Pick the provider from VITE_WEATHER_PROVIDER, falling back to the keyless
+ * Open-Meteo adapter when no OpenWeatherMap key is configured
+ */
+const resolveProviderSetting = (): WeatherProviderSetting => {
+  const configured = import.meta.env.VITE_WEATHER_PROVIDER;
+  if (configured === 'openweathermap' || configured === 'open-meteo' || configured === 'fixtures') {
+    return configured;
+  }
+  return API_KEY ? 'openweathermap' : 'open-meteo';
+};
+
+/**
+ * Hand a request to the fixture backend, loading it on first use. The import
+ * only survives in builds configured for fixtures, so the fixture data never
+ * ships with a real provider.
+ */
+const fixtureFetch: typeof fetch = async input => {
+  if (import.meta.env.VITE_WEATHER_PROVIDER !== 'fixtures') {
+    throw new Error('The fixture backend is only built with VITE_WEATHER_PROVIDER=fixtures');
+  }
+  const fixtureServer = await import('./fixtures/fixtureServer');
+  return fixtureServer.fixtureFetch(input);
+};
+
+export function createWeatherProvider(setting: WeatherProviderSetting): WeatherProvider {
+  switch (setting) {
+    case 'open-meteo':
+      return new OpenMeteoProvider();
+    case 'fixtures':
+      return new OpenWeatherMapProvider({
+        apiKey: 'fixtures',
+        name: 'Local fixtures',
+        baseUrl: FIXTURE_BASE_URL,
+        geoUrl: FIXTURE_GEO_URL,
+        fetch: fixtureFetch,
+      });
+    case 'openweathermap':
+      if (!API_KEY) {
+        console.warn('VITE_OPENWEATHER_API_KEY is not set; OpenWeatherMap requests will be rejected');
+      }
+      return new OpenWeatherMapProvider({ apiKey: API_KEY ?? '' });
+  }
+}
+
+const activeProvider = createWeatherProvider(resolveProviderSetting());
+
+export function getWeatherProvider(): WeatherProvider {
+  return activeProvider;
+}
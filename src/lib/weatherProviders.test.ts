@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { OpenMeteoProvider } from './openMeteoProvider';
+import { OpenWeatherMapProvider } from './openWeatherMapProvider';
+import { InvalidResponseError, shouldRetryWeatherRequest } from './weatherErrors';
+
+// What a captive portal serves in place of the API's JSON
+const portalPage = () =>
+  new Response('<html><body>Sign in to continue</body></html>', {
+    status: 200,
+    headers: { 'Content-Type': 'text/html' },
+  });
+
+describe('weather providers', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('report a 200 response that is not JSON as an invalid response', async () => {
+    const provider = new OpenWeatherMapProvider({ apiKey: 'test', fetch: async () => portalPage() });
+
+    const error = await provider.getCurrentWeather('London', 'metric', 'en').catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(InvalidResponseError);
+    expect(error).toMatchObject({ category: 'invalid-response', issues: ['response: body is not valid JSON'] });
+    expect(shouldRetryWeatherRequest(0, error as Error)).toBe(false);
+  });
+
+  it('report a cut-off Open-Meteo body as an invalid response', async () => {
+    vi.stubGlobal('fetch', async () => new Response('{"current": {"time": 17', { status: 200 }));
+
+    await expect(new OpenMeteoProvider().getCurrentWeatherByCoords(51.5, -0.1, 'metric', 'en')).rejects.toBeInstanceOf(
+      InvalidResponseError
+    );
+  });
+});
@@ -1,84 +1,96 @@
-interface WeatherData {
+import { getWeatherProvider } from './weatherProvider';
+import type { UnitSystem } from './units';
+import type { Locale } from './i18n';
+
+// App-level weather models. Every provider adapter normalizes its responses
+// into these shapes, so components never touch provider-specific fields.
+
+export interface WeatherCondition {
+  // OpenWeatherMap condition codes double as the app-wide condition taxonomy
   id: number;
   main: string;
   description: string;
+  // Icon code such as "10d"; see getConditionIconUrl
   icon: string;
 }
 
-interface MainWeatherInfo {
-  temp: number;
-  feels_like: number;
-  temp_min: number;
-  temp_max: number;
-  pressure: number;
-  humidity: number;
+export interface LocationInfo {
+  name: string;
+  country: string;
+  state?: string;
+  lat: number;
+  lon: number;
+  timezoneOffset: number; // seconds east of UTC
 }
 
-interface WindInfo {
-  speed: number;
-  deg: number;
+export interface CurrentWeather {
+  location: LocationInfo;
+  observedAt: number; // unix seconds
+  condition: WeatherCondition;
+  temp: number;
+  feelsLike: number;
+  tempMin: number;
+  tempMax: number;
+  humidity: number; // %
+  pressure: number; // hPa
+  visibility: number; // meters
+  windSpeed: number;
+  windDeg: number;
+  windGust?: number;
+  cloudiness: number; // %
+  sunrise: number;
+  sunset: number;
+  units: UnitSystem;
 }
 
-interface CloudsInfo {
-  all: number;
+export interface ForecastItem {
+  time: number; // unix seconds
+  condition: WeatherCondition;
+  temp: number;
+  feelsLike: number;
+  humidity: number;
+  pressure: number;
+  windSpeed: number;
+  windDeg: number;
+  windGust?: number;
+  cloudiness: number;
+  visibility: number;
+  pop: number; // probability of precipitation, 0-1
+  rain: number; // mm in the slot
+  snow: number; // mm in the slot
+  isDay: boolean;
 }
 
-interface SysInfo {
-  type: number;
-  id: number;
-  country: string;
+export interface ForecastData {
+  location: LocationInfo;
+  list: ForecastItem[];
   sunrise: number;
   sunset: number;
+  units: UnitSystem;
 }
 
-export interface CurrentWeather {
-  coord: {
-    lon: number;
-    lat: number;
-  };
-  weather: WeatherData[];
-  base: string;
-  main: MainWeatherInfo;
-  visibility: number;
-  wind: WindInfo;
-  clouds: CloudsInfo;
-  dt: number;
-  sys: SysInfo;
-  timezone: number;
-  id: number;
-  name: string;
-  cod: number;
+// Air quality uses OpenWeatherMap's 1 (good) to 5 (very poor) index
+export type AirQualityLevel = 1 | 2 | 3 | 4 | 5;
+
+export interface AirPollutants {
+  pm2_5: number; // μg/m³
+  pm10: number; // μg/m³
+  o3: number; // μg/m³
+  no2: number; // μg/m³
 }
 
-interface ForecastItem {
-  dt: number;
-  main: MainWeatherInfo;
-  weather: WeatherData[];
-  clouds: CloudsInfo;
-  wind: WindInfo;
-  visibility: number;
-  pop: number;
-  dt_txt: string;
+export interface AirQualityReading {
+  time: number; // unix seconds
+  aqi: AirQualityLevel;
+  components: AirPollutants;
 }
 
-export interface ForecastData {
-  cod: string;
-  message: number;
-  cnt: number;
-  list: ForecastItem[];
-  city: {
-    id: number;
-    name: string;
-    coord: {
-      lat: number;
-      lon: number;
-    };
-    country: string;
-    population: number;
-    timezone: number;
-    sunrise: number;
-    sunset: number;
-  };
+export interface AirQualityData {
+  lat: number;
+  lon: number;
+  current: AirQualityReading;
+  // Hourly readings for the coming days
+  forecast: AirQualityReading[];
 }
 
 export interface CitySearchResult {
@@ -95,93 +107,36 @@ export interface GeolocationPosition {
   longitude: number;
 }
 
-const API_KEY = import.meta.env.VITE_OPENWEATHER_API_KEY || 'your_api_key_here';
-const BASE_URL = 'https://api.openweathermap.org/data/2.5';
+export function getConditionIconUrl(icon: string, size: '1x' | '2x' = '1x'): string {
+  return `https://openweathermap.org/img/wn/${icon}${size === '2x' ? '@2x' : ''}.png`;
+}
 
+/**
+ * Entry point for weather data; delegates to the active WeatherProvider
+ */
 export class WeatherService {
-  static async getCurrentWeather(city: string): Promise<CurrentWeather> {
-    try {
-      const response = await fetch(
-        `${BASE_URL}/weather?q=${city}&appid=${API_KEY}&units=metric`
-      );
-      
-      if (!response.ok) {
-        throw new Error('Weather data not found');
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching current weather:', error);
-      throw error;
-    }
+  static getCurrentWeather(city: string, units: UnitSystem, lang: Locale): Promise<CurrentWeather> {
+    return getWeatherProvider().getCurrentWeather(city, units, lang);
   }
 
-  static async getCurrentWeatherByCoords(lat: number, lon: number): Promise<CurrentWeather> {
-    try {
-      const response = await fetch(
-        `${BASE_URL}/weather?lat=${lat}&lon=${lon}&appid=${API_KEY}&units=metric`
-      );
-      
-      if (!response.ok) {
-        throw new Error('Weather data not found');
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching current weather by coordinates:', error);
-      throw error;
-    }
+  static getCurrentWeatherByCoords(lat: number, lon: number, units: UnitSystem, lang: Locale): Promise<CurrentWeather> {
+    return getWeatherProvider().getCurrentWeatherByCoords(lat, lon, units, lang);
   }
 
-  static async getForecast(city: string): Promise<ForecastData> {
-    try {
-      const response = await fetch(
-        `${BASE_URL}/forecast?q=${city}&appid=${API_KEY}&units=metric`
-      );
-      
-      if (!response.ok) {
-        throw new Error('Forecast data not found');
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching forecast:', error);
-      throw error;
-    }
+  static getForecast(city: string, units: UnitSystem, lang: Locale): Promise<ForecastData> {
+    return getWeatherProvider().getForecast(city, units, lang);
   }
 
-  static async getForecastByCoords(lat: number, lon: number): Promise<ForecastData> {
-    try {
-      const response = await fetch(
-        `${BASE_URL}/forecast?lat=${lat}&lon=${lon}&appid=${API_KEY}&units=metric`
-      );
-      
-      if (!response.ok) {
-        throw new Error('Forecast data not found');
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error fetching forecast by coordinates:', error);
-      throw error;
-    }
+  static getForecastByCoords(lat: number, lon: number, units: UnitSystem, lang: Locale): Promise<ForecastData> {
+    return getWeatherProvider().getForecastByCoords(lat, lon, units, lang);
   }
 
-  static async searchCities(query: string): Promise<CitySearchResult[]> {
-    try {
-      const response = await fetch(
-        `http://api.openweathermap.org/geo/1.0/direct?q=${query}&limit=5&appid=${API_KEY}`
-      );
-      
-      if (!response.ok) {
-        throw new Error('Cities not found');
-      }
-      
-      return await response.json();
-    } catch (error) {
-      console.error('Error searching cities:', error);
-      throw error;
-    }
+  static getAirQuality(lat: number, lon: number): Promise<AirQualityData> {
+    return getWeatherProvider().getAirQuality(lat, lon);
+  }
+
+  static searchCities(query: string, lang: Locale): Promise<CitySearchResult[]> {
+    return getWeatherProvider().searchCities(query, lang);
   }
 
   static async getCurrentPosition(): Promise<GeolocationPosition> {
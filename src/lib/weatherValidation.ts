@@ -0,0 +1,318 @@
+import type {
+  AirPollutants,
+  AirQualityData,
+  AirQualityLevel,
+  AirQualityReading,
+  CurrentWeather,
+  ForecastData,
+  ForecastItem,
+  LocationInfo,
+  WeatherCondition,
+} from './weatherService';
+import { isUnitSystem, type UnitSystem } from './units';
+import { InvalidResponseError } from './weatherErrors';
+import { isAirQualityLevel } from './airQuality';
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+  // Repaired issues were patched with a safe default; the rest are fatal
+  repaired: boolean;
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+export const UNKNOWN_CONDITION: WeatherCondition = {
+  id: 0,
+  main: 'Unknown',
+  description: 'unknown conditions',
+  icon: '03d',
+};
+
+const isRecord = (value: unknown): value is UnknownRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Reads fields out of an untrusted payload, recording what was missing or
+ * malformed. Readers given a fallback repair the field instead of failing.
+ */
+export class PayloadReader {
+  readonly issues: ValidationIssue[] = [];
+
+  object(value: unknown, path: string): UnknownRecord {
+    if (isRecord(value)) return value;
+    this.fail(path, `expected an object, got ${describe(value)}`);
+    return {};
+  }
+
+  optionalObject(value: unknown, path: string): UnknownRecord | undefined {
+    if (value === undefined || value === null) return undefined;
+    return this.object(value, path);
+  }
+
+  array(value: unknown, path: string): unknown[] {
+    if (Array.isArray(value)) return value;
+    this.fail(path, `expected an array, got ${describe(value)}`);
+    return [];
+  }
+
+  number(value: unknown, path: string, fallback?: number): number {
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+    return this.fallback(path, `expected a number, got ${describe(value)}`, fallback, NaN);
+  }
+
+  optionalNumber(value: unknown, path: string): number | undefined {
+    if (value === undefined || value === null) return undefined;
+    return this.number(value, path);
+  }
+
+  string(value: unknown, path: string, fallback?: string): string {
+    if (typeof value === 'string') return value;
+    return this.fallback(path, `expected a string, got ${describe(value)}`, fallback, '');
+  }
+
+  boolean(value: unknown, path: string, fallback?: boolean): boolean {
+    if (typeof value === 'boolean') return value;
+    return this.fallback(path, `expected a boolean, got ${describe(value)}`, fallback, false);
+  }
+
+  /**
+   * Record an issue found by custom checks
+   */
+  fail(path: string, message: string): void {
+    this.issues.push({ path, message, repaired: false });
+  }
+
+  repair(path: string, message: string): void {
+    this.issues.push({ path, message, repaired: true });
+  }
+
+  get errors(): ValidationIssue[] {
+    return this.issues.filter(issue => !issue.repaired);
+  }
+
+  /**
+   * Throw an InvalidResponseError for fatal issues; log any repairs
+   */
+  assertValid(provider: string): void {
+    const repairs = this.issues.filter(issue => issue.repaired);
+    if (repairs.length > 0) {
+      console.warn(`Repaired ${provider} payload:`, repairs.map(formatIssue));
+    }
+    if (this.errors.length > 0) {
+      throw new InvalidResponseError(provider, this.errors.map(formatIssue));
+    }
+  }
+
+  private fallback<T>(path: string, message: string, fallback: T | undefined, invalid: T): T {
+    if (fallback !== undefined) {
+      this.repair(path, `${message}; using ${JSON.stringify(fallback)}`);
+      return fallback;
+    }
+    this.fail(path, message);
+    return invalid;
+  }
+}
+
+const describe = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'number' && !Number.isFinite(value)) return String(value);
+  return typeof value;
+};
+
+export const formatIssue = (issue: ValidationIssue): string => `${issue.path}: ${issue.message}`;
+
+// Readers for the app-level models, used to check data coming back out of
+// storage before it reaches components
+
+const readCondition = (reader: PayloadReader, value: unknown, path: string): WeatherCondition => {
+  if (!isRecord(value)) {
+    reader.repair(path, 'missing condition; using unknown conditions');
+    return UNKNOWN_CONDITION;
+  }
+  return {
+    id: reader.number(value.id, `${path}.id`, UNKNOWN_CONDITION.id),
+    main: reader.string(value.main, `${path}.main`, UNKNOWN_CONDITION.main),
+    description: reader.string(value.description, `${path}.description`, UNKNOWN_CONDITION.description),
+    icon: reader.string(value.icon, `${path}.icon`, UNKNOWN_CONDITION.icon),
+  };
+};
+
+const readLocation = (reader: PayloadReader, value: unknown, path: string): LocationInfo => {
+  const location = reader.object(value, path);
+  const state = location.state === undefined ? undefined : reader.string(location.state, `${path}.state`);
+  return {
+    name: reader.string(location.name, `${path}.name`),
+    country: reader.string(location.country, `${path}.country`, ''),
+    ...(state !== undefined && { state }),
+    lat: reader.number(location.lat, `${path}.lat`),
+    lon: reader.number(location.lon, `${path}.lon`),
+    timezoneOffset: reader.number(location.timezoneOffset, `${path}.timezoneOffset`, 0),
+  };
+};
+
+const readUnits = (reader: PayloadReader, value: unknown, path: string): UnitSystem => {
+  if (isUnitSystem(value)) return value;
+  reader.fail(path, `expected a unit system, got ${describe(value)}`);
+  return 'metric';
+};
+
+const readCurrentWeather = (reader: PayloadReader, value: unknown): CurrentWeather => {
+  const data = reader.object(value, 'currentWeather');
+  const temp = reader.number(data.temp, 'temp');
+
+  return {
+    location: readLocation(reader, data.location, 'location'),
+    observedAt: reader.number(data.observedAt, 'observedAt'),
+    condition: readCondition(reader, data.condition, 'condition'),
+    temp,
+    feelsLike: reader.number(data.feelsLike, 'feelsLike', temp),
+    tempMin: reader.number(data.tempMin, 'tempMin', temp),
+    tempMax: reader.number(data.tempMax, 'tempMax', temp),
+    humidity: reader.number(data.humidity, 'humidity'),
+    pressure: reader.number(data.pressure, 'pressure'),
+    visibility: reader.number(data.visibility, 'visibility', 10000),
+    windSpeed: reader.number(data.windSpeed, 'windSpeed', 0),
+    windDeg: reader.number(data.windDeg, 'windDeg', 0),
+    windGust: reader.optionalNumber(data.windGust, 'windGust'),
+    cloudiness: reader.number(data.cloudiness, 'cloudiness', 0),
+    sunrise: reader.number(data.sunrise, 'sunrise'),
+    sunset: reader.number(data.sunset, 'sunset'),
+    units: readUnits(reader, data.units, 'units'),
+  };
+};
+
+const readForecastItem = (reader: PayloadReader, value: unknown, path: string): ForecastItem => {
+  const item = reader.object(value, path);
+  const temp = reader.number(item.temp, `${path}.temp`);
+
+  return {
+    time: reader.number(item.time, `${path}.time`),
+    condition: readCondition(reader, item.condition, `${path}.condition`),
+    temp,
+    feelsLike: reader.number(item.feelsLike, `${path}.feelsLike`, temp),
+    humidity: reader.number(item.humidity, `${path}.humidity`, 0),
+    pressure: reader.number(item.pressure, `${path}.pressure`, 0),
+    windSpeed: reader.number(item.windSpeed, `${path}.windSpeed`, 0),
+    windDeg: reader.number(item.windDeg, `${path}.windDeg`, 0),
+    windGust: reader.optionalNumber(item.windGust, `${path}.windGust`),
+    cloudiness: reader.number(item.cloudiness, `${path}.cloudiness`, 0),
+    visibility: reader.number(item.visibility, `${path}.visibility`, 10000),
+    pop: reader.number(item.pop, `${path}.pop`, 0),
+    rain: reader.number(item.rain, `${path}.rain`, 0),
+    snow: reader.number(item.snow, `${path}.snow`, 0),
+    isDay: reader.boolean(item.isDay, `${path}.isDay`, true),
+  };
+};
+
+/**
+ * Read a list of items, dropping (and reporting) the ones that are unusable
+ * instead of rejecting the whole list
+ */
+export function readItems<T>(
+  reader: PayloadReader,
+  value: unknown,
+  path: string,
+  readItem: (itemReader: PayloadReader, item: unknown, itemPath: string) => T
+): T[] {
+  const items: T[] = [];
+  reader.array(value, path).forEach((raw, index) => {
+    const itemReader = new PayloadReader();
+    const item = readItem(itemReader, raw, `${path}[${index}]`);
+    if (itemReader.errors.length > 0) {
+      reader.repair(`${path}[${index}]`, `dropped (${itemReader.errors.map(formatIssue).join('; ')})`);
+      return;
+    }
+    itemReader.issues.forEach(issue => reader.issues.push(issue));
+    items.push(item);
+  });
+  return items;
+}
+
+export const readAirQualityLevel = (reader: PayloadReader, value: unknown, path: string): AirQualityLevel => {
+  if (isAirQualityLevel(value)) return value;
+  reader.fail(path, `expected an air quality index from 1 to 5, got ${JSON.stringify(value)}`);
+  return 1;
+};
+
+/**
+ * Pollutant concentrations; a missing one is reported as 0 rather than
+ * discarding the whole reading
+ */
+export const readPollutants = (
+  reader: PayloadReader,
+  value: Record<string, unknown>,
+  path: string,
+  fields: Record<keyof AirPollutants, string> = { pm2_5: 'pm2_5', pm10: 'pm10', o3: 'o3', no2: 'no2' }
+): AirPollutants => ({
+  pm2_5: reader.number(value[fields.pm2_5], `${path}.${fields.pm2_5}`, 0),
+  pm10: reader.number(value[fields.pm10], `${path}.${fields.pm10}`, 0),
+  o3: reader.number(value[fields.o3], `${path}.${fields.o3}`, 0),
+  no2: reader.number(value[fields.no2], `${path}.${fields.no2}`, 0),
+});
+
+const readAirQualityReading = (reader: PayloadReader, value: unknown, path: string): AirQualityReading => {
+  const reading = reader.object(value, path);
+  return {
+    time: reader.number(reading.time, `${path}.time`),
+    aqi: readAirQualityLevel(reader, reading.aqi, `${path}.aqi`),
+    components: readPollutants(reader, reader.object(reading.components, `${path}.components`), `${path}.components`),
+  };
+};
+
+const readAirQualityData = (reader: PayloadReader, value: unknown): AirQualityData => {
+  const data = reader.object(value, 'airQuality');
+  return {
+    lat: reader.number(data.lat, 'lat'),
+    lon: reader.number(data.lon, 'lon'),
+    current: readAirQualityReading(reader, data.current, 'current'),
+    forecast: readItems(reader, data.forecast, 'forecast', readAirQualityReading),
+  };
+};
+
+const readForecastData = (reader: PayloadReader, value: unknown): ForecastData => {
+  const data = reader.object(value, 'forecast');
+  const list = readItems(reader, data.list, 'list', readForecastItem);
+  if (list.length === 0) {
+    reader.fail('list', 'no usable forecast entries');
+  }
+
+  return {
+    location: readLocation(reader, data.location, 'location'),
+    list,
+    sunrise: reader.number(data.sunrise, 'sunrise', 0),
+    sunset: reader.number(data.sunset, 'sunset', 0),
+    units: readUnits(reader, data.units, 'units'),
+  };
+};
+
+/**
+ * Check an app-level CurrentWeather, throwing InvalidResponseError when unusable
+ */
+export function validateCurrentWeather(value: unknown, source: string): CurrentWeather {
+  const reader = new PayloadReader();
+  const weather = readCurrentWeather(reader, value);
+  reader.assertValid(source);
+  return weather;
+}
+
+/**
+ * Check an app-level ForecastData, throwing InvalidResponseError when unusable
+ */
+export function validateForecastData(value: unknown, source: string): ForecastData {
+  const reader = new PayloadReader();
+  const forecast = readForecastData(reader, value);
+  reader.assertValid(source);
+  return forecast;
+}
+
+/**
+ * Check an app-level AirQualityData, throwing InvalidResponseError when unusable
+ */
+export function validateAirQualityData(value: unknown, source: string): AirQualityData {
+  const reader = new PayloadReader();
+  const airQuality = readAirQualityData(reader, value);
+  reader.assertValid(source);
+  return airQuality;
+}
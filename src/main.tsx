@@ -1,29 +1,62 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
-import { QueryClient, QueryClientProvider } from '@tanstack/react-query'
+import { QueryCache, QueryClient, QueryClientProvider } from '@tanstack/react-query'
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools'
 import './index.css'
 import App from './App.tsx'
+import { getWeatherRetryDelay, shouldRetryWeatherRequest } from './lib/weatherErrors'
+import { StorageService } from './lib/storage'
+import { CacheService } from './lib/cacheService'
+import {
+  PERSISTED_QUERY_GC_TIME,
+  persistQueryCache,
+  restoreQueryCache,
+  syncQueryCacheAcrossTabs,
+} from './lib/queryPersistence'
+import { registerServiceWorker } from './lib/serviceWorker'
+import { reportRequestFailure, reportRequestSuccess, startConnectivityMonitor } from './lib/connectivity'
+
+// Bring stored settings up to date before any component reads them
+StorageService.migrateStoredData()
+
+registerServiceWorker()
+startConnectivityMonitor()
 
 // Create a client with optimized configuration
 const queryClient = new QueryClient({
+  // Request outcomes tell the connectivity monitor when the network goes bad
+  queryCache: new QueryCache({
+    onError: reportRequestFailure,
+    onSuccess: reportRequestSuccess,
+  }),
   defaultOptions: {
     queries: {
       staleTime: 5 * 60 * 1000, // 5 minutes
-      gcTime: 10 * 60 * 1000, // 10 minutes (formerly cacheTime)
-      retry: 3,
-      retryDelay: (attemptIndex) => Math.min(1000 * 2 ** attemptIndex, 30000),
+      gcTime: PERSISTED_QUERY_GC_TIME, // keep persisted weather in memory as long as on disk
+      retry: shouldRetryWeatherRequest,
+      retryDelay: getWeatherRetryDelay,
       refetchOnWindowFocus: true,
       refetchOnReconnect: true,
     },
   },
 })
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <QueryClientProvider client={queryClient}>
-      <App />
-      <ReactQueryDevtools initialIsOpen={false} />
-    </QueryClientProvider>
-  </StrictMode>,
-)
+const root = createRoot(document.getElementById('root')!)
+
+// Upgrade and restore the persisted weather cache first so the app opens
+// with the last known data, online or not
+CacheService.migrateEntries()
+  .then(() => restoreQueryCache(queryClient))
+  .catch(error => console.error('Error restoring weather cache:', error))
+  .finally(() => {
+    persistQueryCache(queryClient)
+    syncQueryCacheAcrossTabs(queryClient)
+    root.render(
+      <StrictMode>
+        <QueryClientProvider client={queryClient}>
+          <App />
+          <ReactQueryDevtools initialIsOpen={false} />
+        </QueryClientProvider>
+      </StrictMode>,
+    )
+  })
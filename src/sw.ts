@@ -0,0 +1,119 @@
+// Service worker: precaches the app shell and the condition icons so the app
+// starts without a network, and turns Background Sync events into favorite
+// refreshes in the open app. Built as its own entry (see vite.config.ts) and
+// must not import app modules, which would pull shared chunks into it.
+
+declare const self: ServiceWorkerGlobalScope;
+
+// Replaced at build time with the emitted files and a hash of that list
+declare const __PRECACHE_MANIFEST__: string[];
+declare const __PRECACHE_VERSION__: string;
+
+interface SyncEvent extends ExtendableEvent {
+  tag: string;
+}
+
+const PRECACHE_PREFIX = 'weathery-precache-';
+const PRECACHE = `${PRECACHE_PREFIX}${__PRECACHE_VERSION__}`;
+const ICON_CACHE = 'weathery-condition-icons-v1';
+// Must match REFRESH_FAVORITES_TAG in src/lib/serviceWorker.ts
+const REFRESH_FAVORITES_TAG = 'refresh-favorites';
+
+const ICON_BASE_URL = 'https://openweathermap.org/img/wn/';
+// Every icon code the providers produce, in both sizes getConditionIconUrl uses
+const ICON_URLS = ['01', '02', '03', '04', '09', '10', '11', '13', '50']
+  .flatMap(code => [`${code}d`, `${code}n`])
+  .flatMap(icon => [`${ICON_BASE_URL}${icon}.png`, `${ICON_BASE_URL}${icon}@2x.png`]);
+
+const toScopeUrl = (file: string): string => new URL(file, self.registration.scope).href;
+
+const precacheIcons = async (): Promise<void> => {
+  const cache = await caches.open(ICON_CACHE);
+  // The icon host doesn't send CORS headers, so these are opaque responses.
+  // A missing icon shouldn't fail the install.
+  await Promise.allSettled(
+    ICON_URLS.map(async url => {
+      if (await cache.match(url)) return;
+      const response = await fetch(new Request(url, { mode: 'no-cors' }));
+      await cache.put(url, response);
+    })
+  );
+};
+
+self.addEventListener('install', event => {
+  event.waitUntil(
+    Promise.all([
+      caches.open(PRECACHE).then(cache => cache.addAll(__PRECACHE_MANIFEST__.map(toScopeUrl))),
+      precacheIcons(),
+    ]).then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then(keys =>
+        Promise.all(keys.filter(key => key.startsWith(PRECACHE_PREFIX) && key !== PRECACHE).map(key => caches.delete(key)))
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+const handleNavigation = async (request: Request): Promise<Response> => {
+  try {
+    return await fetch(request);
+  } catch (error) {
+    const shell = await caches.match(toScopeUrl('index.html'), { cacheName: PRECACHE });
+    if (shell) return shell;
+    throw error;
+  }
+};
+
+const cacheFirst = async (request: Request, cacheName: string): Promise<Response> => {
+  const cached = await caches.match(request, { cacheName });
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (cacheName === ICON_CACHE && (response.ok || response.type === 'opaque')) {
+    const cache = await caches.open(ICON_CACHE);
+    await cache.put(request, response.clone());
+  }
+  return response;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  // Requests that opt out of caching, like the app's reachability probe,
+  // must see the real network
+  if (request.method !== 'GET' || request.cache === 'no-store') return;
+
+  if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+    return;
+  }
+
+  const url = new URL(request.url);
+  if (url.href.startsWith(ICON_BASE_URL)) {
+    event.respondWith(cacheFirst(request, ICON_CACHE));
+    return;
+  }
+  if (url.origin === self.location.origin) {
+    event.respondWith(cacheFirst(request, PRECACHE));
+  }
+  // Weather API requests go straight to the network; the app keeps its own
+  // persisted copy of the data for offline use
+});
+
+// Weather data is fetched and persisted by the app itself, so a sync only
+// wakes open windows to refresh their favorites
+self.addEventListener('sync', event => {
+  const syncEvent = event as SyncEvent;
+  if (syncEvent.tag !== REFRESH_FAVORITES_TAG) return;
+
+  syncEvent.waitUntil(
+    self.clients
+      .matchAll({ type: 'window', includeUncontrolled: true })
+      .then(windows => windows.forEach(client => client.postMessage({ type: REFRESH_FAVORITES_TAG })))
+  );
+});
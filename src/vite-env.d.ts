@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_OPENWEATHER_API_KEY?: string;
+  readonly VITE_WEATHER_PROVIDER?: string;
+  readonly VITE_WEATHER_FIXTURE_SCENARIO?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}
@@ -1,14 +1,63 @@
+import { createHash } from "crypto"
+import fs from "fs"
 import path from "path"
 import tailwindcss from "@tailwindcss/vite"
 import react from "@vitejs/plugin-react"
-import { defineConfig } from "vite"
+import { defineConfig, type Plugin } from "vite"
+
+const SERVICE_WORKER_FILE = "sw.js"
+
+// Fill the service worker's precache list with everything the build emitted,
+// plus the public files, once the bundle has been written
+function precacheManifest(): Plugin {
+  let publicDir = ""
+
+  return {
+    name: "precache-manifest",
+    apply: "build",
+    configResolved(config) {
+      publicDir = config.publicDir
+    },
+    writeBundle(options, bundle) {
+      const publicFiles = fs.existsSync(publicDir)
+        ? fs
+            .readdirSync(publicDir, { recursive: true, encoding: "utf8" })
+            .filter(file => fs.statSync(path.join(publicDir, file)).isFile())
+        : []
+      const files = [...Object.keys(bundle), ...publicFiles]
+        .map(file => file.split(path.sep).join("/"))
+        .filter(file => file !== SERVICE_WORKER_FILE && !file.endsWith(".map"))
+        .sort()
+      const version = createHash("sha256").update(files.join("\n")).digest("hex").slice(0, 12)
+
+      const swPath = path.join(options.dir ?? "dist", SERVICE_WORKER_FILE)
+      const source = fs
+        .readFileSync(swPath, "utf8")
+        .replace(/__PRECACHE_MANIFEST__/g, JSON.stringify(files))
+        .replace(/__PRECACHE_VERSION__/g, JSON.stringify(version))
+      fs.writeFileSync(swPath, source)
+    },
+  }
+}
 
 // https://vite.dev/config/
 export default defineConfig({
-  plugins: [react(), tailwindcss()],
+  plugins: [react(), tailwindcss(), precacheManifest()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
     },
   },
+  build: {
+    rollupOptions: {
+      input: {
+        index: path.resolve(__dirname, "index.html"),
+        sw: path.resolve(__dirname, "src/sw.ts"),
+      },
+      output: {
+        // The service worker must keep a stable name at the root to control the whole app
+        entryFileNames: chunk => (chunk.name === "sw" ? SERVICE_WORKER_FILE : "assets/[name]-[hash].js"),
+      },
+    },
+  },
 })